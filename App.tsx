@@ -1,189 +1,1294 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { AppMode, AppState } from './types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  AppMode, AppState, DecorationLayout, DecorationModel, GestureMapping, GestureName, HandTracker, InputAction, MemoryPhoto, Theme, TreeConfig
+} from './types';
+import { FOCUS_SLIDE_MS } from './constants';
 import ThreeScene from './components/ThreeScene';
-import VisionService from './services/vision';
+import PhotoGallery from './components/PhotoGallery';
+import BenchmarkPanel from './components/BenchmarkPanel';
+import FormationPicker from './components/FormationPicker';
+import GestureSettings from './components/GestureSettings';
+import SessionControls from './components/SessionControls';
+import FocusCarousel from './components/FocusCarousel';
+import ThemeEditor from './components/ThemeEditor';
+import CapturePanel from './components/CapturePanel';
+import SoundPanel from './components/SoundPanel';
+import RoomPanel from './components/RoomPanel';
+import QualityPanel from './components/QualityPanel';
+import StatsOverlay from './components/StatsOverlay';
+import OrnamentNote from './components/OrnamentNote';
+import CameraPreview from './components/CameraPreview';
+import AdventCountdown from './components/AdventCountdown';
+import AccessibilityPanel from './components/AccessibilityPanel';
+import DecorationEditor, { DecorationTool } from './components/DecorationEditor';
+import { I18nContext, useLocaleState } from './components/i18n';
+import VisionService, { VisionProgress, listCameras } from './services/vision';
+import PhotoStore from './services/photoStore';
+import ModelStore from './services/modelStore';
+import { readExifDateFromDataUrl } from './services/exif';
+import { applyInputAction, stepMode, wrapFocusIndex } from './services/input';
+import { loadGestureMapping, saveGestureMapping } from './services/gestureMapping';
+import { THEME_FONTS, loadTheme, normalizeTheme, saveTheme } from './services/theme';
+import { LOCALES, Locale, Translate, actionLabel, gestureLabel, modeLabel } from './services/i18n';
+import { BenchmarkResult } from './scene/benchmark';
+import { QualityTier, SceneStats } from './scene/quality';
+import { SceneTarget } from './scene/picking';
+import { unboundFormations } from './scene/formations';
+import { loadModel } from './scene/decorations';
+import TreeEngine from './scene/treeEngine';
+import { QualitySettings, loadQualitySettings, saveQualitySettings } from './services/qualitySettings';
+import {
+  OrnamentMessages, loadOrnamentMessages, ornamentMessageAt, saveOrnamentMessages, withOrnamentMessage
+} from './services/ornamentMessages';
+import { CameraSettings, loadCameraSettings, saveCameraSettings } from './services/cameraSettings';
+import { IngestProgress, PhotoIngestError, ingestPhoto, ingestPhotos, normalizePhotoSrc } from './services/photoIngest';
+import { adventState, applyPreviewDate, dateKey, loadOpenedDate, saveOpenedDate } from './services/advent';
+import {
+  AccessibilitySettings, REDUCED_MOTION_QUERY, loadAccessibilitySettings, saveAccessibilitySettings, systemPrefersReducedMotion
+} from './services/accessibilitySettings';
+import {
+  MAX_DECORATIONS, ModelImportError, loadDecorationLayout, readModelFile, saveDecorationLayout, withoutModel
+} from './services/decorations';
+import { BundleError, buildShareUrl, createBundle, readBundleFile, readConfigFromHash } from './services/bundle';
+import { CaptureRequest, canShareFile } from './services/capture';
+import RoomConnection, { RelayStatus, RoomMessage, createRoomCode, readRoomParams, sharedState } from './services/room';
+import AudioEngine, { AudioSettings, loadAudioSettings, saveAudioSettings } from './services/audio';
+import ReplayTracker, { SessionError, SessionRecorder, parseSession, serializeSession } from './services/handSession';
+
+const photoStore = new PhotoStore();
+const modelStore = new ModelStore();
+const audioEngine = new AudioEngine();
+
+// 浏览器只允许在这些用户手势中启动音频
+const AUDIO_UNLOCK_EVENTS = ['click', 'keydown', 'touchend'];
+
+// 拖放或粘贴的内容中是否带有文件（拖动页面上的文字等不算）
+const hasFiles = (data: DataTransfer | null) => !!data && Array.from(data.types).includes('Files');
+
+// 以显示端身份加入房间（?room=<code>&display）；遥控端在 index.tsx 中单独渲染
+const initialRoom = () => {
+  const params = readRoomParams();
+  return params?.role === 'display' ? { code: params.code, relayUrl: params.relayUrl } : null;
+};
+
+const loadSharedConfig = (): { config: TreeConfig | null; error: BundleError | null } => {
+  try {
+    return { config: readConfigFromHash(), error: null };
+  } catch (err) {
+    console.error("Invalid shared config:", err);
+    return { config: null, error: err instanceof BundleError ? err : new BundleError('bundle.error.linkDamaged') };
+  }
+};
+
+// FOCUS 模式下左右挥手切换照片，方向与映射中的上一个 / 下一个造型一致
+const gestureAction = (mapping: GestureMapping, gesture: Exclude<GestureName, 'NONE'>, mode: AppMode): InputAction => {
+  const action = mapping[gesture];
+  if (mode === AppMode.FOCUS && (gesture === 'SWIPE_LEFT' || gesture === 'SWIPE_RIGHT')) {
+    if (action === 'NEXT_MODE') return 'FOCUS_NEXT';
+    if (action === 'PREV_MODE') return 'FOCUS_PREV';
+  }
+  return action;
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// 展台模式：?session=<url> 自动循环回放录制的手势，无需摄像头
+const KIOSK_SESSION_PARAM = 'session';
+// 降临节日历的预览日期：?advent=2026-12-14 按该日期显示，便于测试
+const ADVENT_PREVIEW_PARAM = 'advent';
+
+const describeVisionProgress = (t: Translate, { stage, loaded, total, source }: VisionProgress) => {
+  switch (stage) {
+    case 'runtime': return t('vision.runtime');
+    case 'model': {
+      const percent = total && loaded !== undefined ? ` ${Math.round((loaded / total) * 100)}%` : '';
+      return t('vision.model', { percent, source: t(source === 'cache' ? 'vision.cache' : 'vision.network') });
+    }
+    case 'camera': return t('vision.camera');
+    default: return t('vision.ready');
+  }
+};
 
 const App: React.FC = () => {
+  const [{ config: sharedConfig, error: sharedConfigError }] = useState(loadSharedConfig);
+  const i18n = useLocaleState();
+  const { locale, t } = i18n;
   const [state, setState] = useState<AppState>({
-    mode: AppMode.TREE,
+    mode: sharedConfig?.mode ?? AppMode.TREE,
     handData: null,
     uiVisible: true,
-    isLoaded: false
+    isLoaded: false,
+    formationText: 'NOEL',
+    focusIndex: 0
   });
+  // 按 id 选用的造型（没有对应模式的新造型）；模式一变就回到模式对应的造型
+  const [formation, setFormation] = useState<string | null>(null);
   const [visionActive, setVisionActive] = useState(false);
   const [cameraError, setCameraError] = useState(false);
+  const [visionProgress, setVisionProgress] = useState<VisionProgress | null>(null);
+  const [modelSource, setModelSource] = useState<VisionProgress['source'] | null>(null);
+  const [photos, setPhotos] = useState<MemoryPhoto[]>([]);
+  const [galleryOpen, setGalleryOpen] = useState(false);
+  // 分享链接中的主题只用于展示，不覆盖本地保存的主题
+  const [theme, setTheme] = useState<Theme>(() => sharedConfig ? normalizeTheme(sharedConfig) : loadTheme());
+  const [themeEditorOpen, setThemeEditorOpen] = useState(false);
+  const [benchmarkOpen, setBenchmarkOpen] = useState(false);
+  const [benchmarking, setBenchmarking] = useState(false);
+  const [benchmarkResults, setBenchmarkResults] = useState<BenchmarkResult[] | null>(null);
+  const [gestureMapping, setGestureMapping] = useState<GestureMapping>(loadGestureMapping);
+  const [gestureSettingsOpen, setGestureSettingsOpen] = useState(false);
+  const [sessionsOpen, setSessionsOpen] = useState(false);
+  const [recording, setRecording] = useState(false);
+  const [replay, setReplay] = useState<ReplayTracker | null>(null);
+  const [autoPlay, setAutoPlay] = useState(false);
+  const [captureOpen, setCaptureOpen] = useState(false);
+  const [capture, setCapture] = useState<CaptureRequest | null>(null);
+  const [captureResult, setCaptureResult] = useState<Blob | null>(null);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
+  const [audioUnlocked, setAudioUnlocked] = useState(false);
+  const [musicFileName, setMusicFileName] = useState<string | null>(null);
+  const [soundOpen, setSoundOpen] = useState(false);
+  const [roomTarget, setRoomTarget] = useState<{ code: string; relayUrl: string | null } | null>(initialRoom);
+  const [room, setRoom] = useState<RoomConnection | null>(null);
+  const [relayStatus, setRelayStatus] = useState<RelayStatus>('off');
+  const [roomOpen, setRoomOpen] = useState(false);
+  const [qualitySettings, setQualitySettings] = useState<QualitySettings>(loadQualitySettings);
+  const [qualityTier, setQualityTier] = useState<QualityTier | null>(null);
+  const [sceneStats, setSceneStats] = useState<SceneStats | null>(null);
+  const [qualityOpen, setQualityOpen] = useState(false);
+  const [hovered, setHovered] = useState<SceneTarget | null>(null);
+  const [ornamentMessages, setOrnamentMessages] = useState<OrnamentMessages>(loadOrnamentMessages);
+  const [editingOrnament, setEditingOrnament] = useState<number | null>(null);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<IngestProgress | null>(null);
+  const [dropActive, setDropActive] = useState(false);
+  const [adventPreview, setAdventPreview] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get(ADVENT_PREVIEW_PARAM)
+  );
+  const [adventOpened, setAdventOpened] = useState<string | null>(loadOpenedDate);
+  const [now, setNow] = useState(() => new Date());
+  const [accessibility, setAccessibility] = useState<AccessibilitySettings>(loadAccessibilitySettings);
+  const [systemReducedMotion, setSystemReducedMotion] = useState(systemPrefersReducedMotion);
+  const [accessibilityOpen, setAccessibilityOpen] = useState(false);
+  const [decorations, setDecorations] = useState<DecorationLayout>(loadDecorationLayout);
+  const [decorationModels, setDecorationModels] = useState<DecorationModel[]>([]);
+  const [decorating, setDecorating] = useState(false);
+  const [decorationTool, setDecorationTool] = useState<DecorationTool>({ kind: 'BELL' });
+  const [selectedDecoration, setSelectedDecoration] = useState<number | null>(null);
+  const [importingModel, setImportingModel] = useState(false);
 
   const videoRef = useRef<HTMLVideoElement>(null);
+  const engineRef = useRef<TreeEngine | null>(null);
+  const hoveredRef = useRef(hovered);
+  hoveredRef.current = hovered;
+  const decoratingRef = useRef(decorating);
+  decoratingRef.current = decorating;
   const visionServiceRef = useRef<VisionService | null>(null);
+  // 检测循环从这里读取当前输入源：摄像头或回放
+  const trackerRef = useRef<HandTracker | null>(null);
+  const recorderRef = useRef(new SessionRecorder());
+  const gestureMappingRef = useRef(gestureMapping);
+  gestureMappingRef.current = gestureMapping;
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  // 房间消息的处理函数只在加入时创建一次，通过它读取当前照片
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+  // 最近一次发出或收到的共享状态，用来区分本机改动与从房间同步来的改动
+  const syncedStateRef = useRef('');
+
+  useEffect(() => {
+    let frame = 0;
+    const detect = () => {
+      const tracker = trackerRef.current;
+      const result = tracker ? tracker.detect() : null;
+      const vision = visionServiceRef.current;
+      if (tracker && tracker === vision) recorderRef.current.capture(vision.landmarks, result);
+      if (result) {
+        // 只在手势被确认的那一帧触发动作，避免噪声帧反复切换模式；
+        // 指针停在装饰球上时捏合用于打开留言，装饰编辑时用于放置物件，都不触发捏合对应的动作
+        const pinchingTarget = result.trigger === 'PINCH' && (hoveredRef.current?.kind === 'ORNAMENT' || decoratingRef.current);
+        const trigger = result.trigger !== 'NONE' && !pinchingTarget ? result.trigger : null;
+        setState(prev => {
+          const action = trigger ? gestureAction(gestureMappingRef.current, trigger, prev.mode) : 'NONE';
+          return { ...applyInputAction(prev, action), handData: result };
+        });
+      } else if (tracker) {
+        // 手离开画面后交还给自动旋转或手动输入，而不是停在最后的位置
+        setState(prev => prev.handData ? { ...prev, handData: null } : prev);
+      }
+      frame = requestAnimationFrame(detect);
+    };
+    detect();
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  useEffect(() => {
+    trackerRef.current = replay ?? visionServiceRef.current;
+  }, [replay]);
+
+  useEffect(() => {
+    setFormation(null);
+  }, [state.mode]);
+
+  // 标签页隐藏时释放摄像头，回来后重新打开同一个摄像头
+  useEffect(() => {
+    const handleVisibility = () => {
+      const vision = visionServiceRef.current;
+      if (!vision) return;
+      if (document.hidden) vision.pause();
+      else vision.resume().catch(err => console.error("Camera resume failed:", err));
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  useEffect(() => {
+    if (typeof matchMedia !== 'function') return;
+    const query = matchMedia(REDUCED_MOTION_QUERY);
+    const handleChange = () => setSystemReducedMotion(query.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  // Esc 关闭所有面板与正在编辑的留言；录制中的视频由录制面板自己的停止按钮结束
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      setGalleryOpen(false);
+      setThemeEditorOpen(false);
+      setBenchmarking(false);
+      setBenchmarkOpen(false);
+      setGestureSettingsOpen(false);
+      setSessionsOpen(false);
+      setCaptureOpen(false);
+      setSoundOpen(false);
+      setRoomOpen(false);
+      setQualityOpen(false);
+      setAccessibilityOpen(false);
+      setDecorating(false);
+      setSelectedDecoration(null);
+      setEditingOrnament(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // 装饰编辑时 Delete 或退格键移除选中的物件；在输入框中按下时不处理
+  useEffect(() => {
+    if (!decorating || selectedDecoration === null) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Delete' && e.key !== 'Backspace') return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return;
+      e.preventDefault();
+      handleDecorationsChange({ ...decorations, items: decorations.items.filter((_, i) => i !== selectedDecoration) });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [decorating, selectedDecoration, decorations]);
+
+  // 插拔外接摄像头时刷新可选列表
+  useEffect(() => {
+    if (!visionActive || !navigator.mediaDevices) return;
+    const refresh = () => listCameras().then(setCameras).catch(err => console.warn("Camera list failed:", err));
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [visionActive]);
+
+  useEffect(() => {
+    const url = new URLSearchParams(window.location.search).get(KIOSK_SESSION_PARAM);
+    if (!url) return;
+    fetch(url)
+      .then(res => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.text();
+      })
+      .then(text => {
+        const tracker = new ReplayTracker(parseSession(text), { loop: true });
+        tracker.play();
+        setReplay(tracker);
+      })
+      .catch(err => console.error("Failed to load kiosk session:", err));
+  }, []);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key.toLowerCase() === 'h') {
-        setState(prev => ({ ...prev, uiVisible: !prev.uiVisible }));
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key.toLowerCase() === 'b') {
+        setBenchmarkResults(null);
+        setBenchmarkOpen(true);
+        setBenchmarking(true);
       }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
+  useEffect(() => {
+    if (sharedConfigError) {
+      alert(t('alert.sharedLinkInvalid', { error: t(sharedConfigError.key, sharedConfigError.params) }));
+    }
+  }, []);
+
+  useEffect(() => {
+    const unlock = () => {
+      audioEngine.unlock()
+        .then(() => {
+          setAudioUnlocked(true);
+          AUDIO_UNLOCK_EVENTS.forEach(type => window.removeEventListener(type, unlock));
+        })
+        .catch(err => console.warn("Audio unlock failed:", err));
+    };
+    AUDIO_UNLOCK_EVENTS.forEach(type => window.addEventListener(type, unlock));
+    return () => AUDIO_UNLOCK_EVENTS.forEach(type => window.removeEventListener(type, unlock));
+  }, []);
+
+  useEffect(() => {
+    audioEngine.configure(audioSettings);
+  }, [audioSettings]);
+
+  // 切换造型时播放提示音，首次渲染不播放
+  const cueModeRef = useRef(state.mode);
+  useEffect(() => {
+    if (cueModeRef.current === state.mode) return;
+    cueModeRef.current = state.mode;
+    audioEngine.cue(Object.values(AppMode).indexOf(state.mode));
+  }, [state.mode]);
+
+  // 同一台机器上的多个标签页共用 IndexedDB，按 id 去重
+  const addPhoto = (photo: MemoryPhoto) => {
+    setPhotos(prev => prev.some(p => p.id === photo.id) ? prev : [...prev, photo]);
+    photoStore.add(photo).catch(err => console.error("Failed to save photo:", err));
+  };
+
+  // 以下三项同时用于本机操作与房间同步；只处理已有的照片
+  const updatePhoto = (photo: MemoryPhoto) => {
+    setPhotos(prev => prev.map(p => p.id === photo.id ? photo : p));
+    photoStore.update(photo).catch(err => console.error("Failed to save photo:", err));
+  };
+
+  const removePhoto = (id: string) => {
+    setPhotos(prev => prev.filter(p => p.id !== id));
+    photoStore.remove(id).catch(err => console.error("Failed to delete photo:", err));
+  };
+
+  // 不在 ids 中的照片保持原有相对顺序，排在后面
+  const reorderPhotos = (ids: string[]) => {
+    const rank = (photo: MemoryPhoto) => {
+      const index = ids.indexOf(photo.id);
+      return index < 0 ? ids.length : index;
+    };
+    const sorted = (list: MemoryPhoto[]) => [...list].sort((a, b) => rank(a) - rank(b));
+    setPhotos(sorted);
+    photoStore.reorder(sorted(photosRef.current).map(p => p.id)).catch(err => console.error("Failed to reorder photos:", err));
+  };
+
+  useEffect(() => {
+    if (!roomTarget) return;
+    const connection = new RoomConnection(roomTarget.code, 'display', roomTarget.relayUrl);
+    // 加入时沿用房间里已有的状态，而不是用本机状态覆盖其他显示屏
+    syncedStateRef.current = JSON.stringify(sharedState(stateRef.current));
+    const handleMessage = (message: RoomMessage) => {
+      switch (message.type) {
+        case 'hello':
+          connection.send({ type: 'state', state: sharedState(stateRef.current) });
+          break;
+        case 'state':
+          syncedStateRef.current = JSON.stringify(message.state);
+          setState(prev => ({ ...prev, ...message.state }));
+          break;
+        case 'action':
+          setState(prev => applyInputAction(prev, message.action));
+          break;
+        case 'photo':
+          addPhoto(message.photo);
+          break;
+        case 'photo-update':
+          updatePhoto(message.photo);
+          break;
+        case 'photo-remove':
+          removePhoto(message.id);
+          break;
+        case 'photo-order':
+          reorderPhotos(message.ids);
+          break;
+      }
+    };
+    const offMessage = connection.subscribe(handleMessage);
+    const offStatus = connection.onStatus(setRelayStatus);
+    setRelayStatus(connection.relayStatus);
+    setRoom(connection);
+    connection.send({ type: 'hello', role: 'display' });
+    return () => {
+      offMessage();
+      offStatus();
+      connection.close();
+      setRoom(null);
+    };
+  }, [roomTarget]);
+
+  // 本机的改动（手势、键盘、界面或遥控端动作）广播给房间；从房间收到的状态不再回传
+  useEffect(() => {
+    if (!room) return;
+    const shared = sharedState(state);
+    const key = JSON.stringify(shared);
+    if (key === syncedStateRef.current) return;
+    syncedStateRef.current = key;
+    room.send({ type: 'state', state: shared });
+  }, [room, state.mode, state.focusIndex, state.uiVisible, state.formationText]);
+
+  useEffect(() => {
+    photoStore.getAll()
+      .then(setPhotos)
+      .catch(err => console.error("Failed to restore photos:", err));
+    modelStore.getAll()
+      .then(setDecorationModels)
+      .catch(err => console.error("Failed to restore models:", err));
+  }, []);
+
+  // 降临节模式下每秒刷新倒计时；跨过午夜时自动进入新的一天
+  useEffect(() => {
+    if (state.mode !== AppMode.ADVENT) return;
+    setNow(new Date());
+    const id = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(id);
+  }, [state.mode]);
+
+  useEffect(() => {
+    if (state.mode !== AppMode.FOCUS || !autoPlay) return;
+    // 手动切换后重新计时，保证每张照片完整停留
+    const id = setTimeout(() => setState(prev => applyInputAction(prev, 'FOCUS_NEXT')), FOCUS_SLIDE_MS);
+    return () => clearTimeout(id);
+  }, [state.mode, state.focusIndex, autoPlay]);
+
   const initVision = async () => {
     if (!videoRef.current || visionActive) return;
     try {
       setVisionActive(true);
       setCameraError(false);
       const vision = new VisionService(videoRef.current);
-      await vision.initialize();
+      await vision.initialize(progress => {
+        setVisionProgress(progress);
+        if (progress.source) setModelSource(progress.source);
+      }, cameraSettings.deviceId);
       visionServiceRef.current = vision;
-      
-      const detect = () => {
-        const result = vision.detect();
-        if (result) {
-          setState(prev => {
-            let nextMode = prev.mode;
-            if (result.fist) nextMode = AppMode.TREE;
-            else if (result.open) nextMode = AppMode.SCATTER;
-            else if (result.pinch) nextMode = AppMode.FOCUS;
-            return { ...prev, mode: nextMode, handData: result };
-          });
-        }
-        requestAnimationFrame(detect);
-      };
-      detect();
+      setCameras(await listCameras());
+      if (!trackerRef.current) trackerRef.current = vision;
     } catch (err) {
       console.error("Camera failed:", err);
       setVisionActive(false);
+      setVisionProgress(null);
       setCameraError(true);
-      alert("请确保在 HTTPS 环境下打开，并授予摄像头权限。");
+      alert(t('alert.cameraFailed'));
     }
   };
 
+  const handleCaptureComplete = useCallback((blob: Blob | null) => {
+    setCapture(null);
+    if (blob) setCaptureResult(blob);
+    else alert(t('alert.captureFailed'));
+  }, [t]);
+
+  const handleBenchmarkComplete = useCallback((results: BenchmarkResult[]) => {
+    setBenchmarking(false);
+    setBenchmarkResults(results);
+  }, []);
+
+  const handleInputAction = useCallback((action: InputAction) => {
+    setState(prev => applyInputAction(prev, action));
+  }, []);
+
+  // 选中照片即在 FOCUS 中放大这一张；选中装饰球打开它的留言；再次选中已选的物件则取消选中
+  const handleSelect = useCallback((target: SceneTarget) => {
+    if (target.kind === 'DECORATION') setSelectedDecoration(prev => (prev === target.index ? null : target.index));
+    else if (target.kind === 'PHOTO') setState(prev => ({ ...prev, mode: AppMode.FOCUS, focusIndex: target.index }));
+    else setEditingOrnament(target.index);
+  }, []);
+
   const handleLoaded = useCallback(() => {
     setTimeout(() => {
       setState(prev => ({ ...prev, isLoaded: true }));
     }, 1500);
   }, []);
 
+  const alertRejected = (rejected: PhotoIngestError[]) => {
+    if (!rejected.length) return;
+    alert(t('alert.photosRejected', {
+      count: rejected.length,
+      list: rejected.map(err => `${err.fileName}: ${t(err.key, err.params)}`).join('\n')
+    }));
+  };
+
+  // 选择、拖放或粘贴的照片都经过同一条处理流程；处理期间再加入的文件排在后面
+  const addFiles = async (files: File[]) => {
+    if (!files.length) return;
+    const { photos: added, rejected } = await ingestPhotos(files, setUploadProgress);
+    setUploadProgress(null);
+    added.forEach(photo => {
+      addPhoto(photo);
+      room?.send({ type: 'photo', photo });
+    });
+    alertRejected(rejected);
+  };
+  const addFilesRef = useRef(addFiles);
+  addFilesRef.current = addFiles;
+
+  useEffect(() => {
+    let depth = 0;
+    const handleDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e.dataTransfer)) return;
+      depth++;
+      setDropActive(true);
+    };
+    const handleDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e.dataTransfer)) return;
+      // 进出子元素也会触发，计数归零才算离开窗口
+      if (--depth <= 0) {
+        depth = 0;
+        setDropActive(false);
+      }
+    };
+    const handleDragOver = (e: DragEvent) => {
+      if (hasFiles(e.dataTransfer)) e.preventDefault();
+    };
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e.dataTransfer)) return;
+      e.preventDefault();
+      depth = 0;
+      setDropActive(false);
+      addFilesRef.current(Array.from(e.dataTransfer!.files));
+    };
+    const handlePaste = (e: ClipboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const files = Array.from(e.clipboardData?.files ?? []);
+      if (!files.length) return;
+      e.preventDefault();
+      addFilesRef.current(files);
+    };
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('drop', handleDrop);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('drop', handleDrop);
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, []);
+
   const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (ev) => {
-        if (ev.target?.result) {
-          window.dispatchEvent(new CustomEvent('add-photo', { detail: ev.target.result }));
-        }
-      };
-      reader.readAsDataURL(file);
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    addFiles(files);
+  };
+
+  const handlePhotoDelete = (id: string) => {
+    removePhoto(id);
+    room?.send({ type: 'photo-remove', id });
+  };
+
+  const handlePhotoMove = (id: string, offset: number) => {
+    const from = photos.findIndex(p => p.id === id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= photos.length) return;
+    const next = [...photos];
+    [next[from], next[to]] = [next[to], next[from]];
+    const ids = next.map(p => p.id);
+    reorderPhotos(ids);
+    room?.send({ type: 'photo-order', ids });
+  };
+
+  const handlePhotoReplace = async (id: string, file: File) => {
+    let processed: MemoryPhoto;
+    try {
+      processed = await ingestPhoto(file);
+    } catch (err) {
+      if (err instanceof PhotoIngestError) alertRejected([err]);
+      else console.error("Failed to replace photo:", err);
+      return;
     }
+    const current = photos.find(p => p.id === id);
+    if (!current) return;
+    const updated = { ...current, src: processed.src, takenAt: processed.takenAt };
+    updatePhoto(updated);
+    room?.send({ type: 'photo-update', photo: updated });
+  };
+
+  const handleCaptionChange = (id: string, caption: string) => {
+    setPhotos(prev => prev.map(p => p.id === id ? { ...p, caption } : p));
+  };
+
+  // 输入过程中只更新界面，提交时才写入存储并同步到房间
+  const handleCaptionCommit = (id: string) => {
+    const photo = photos.find(p => p.id === id);
+    if (!photo) return;
+    photoStore.update(photo).catch(err => console.error("Failed to save caption:", err));
+    room?.send({ type: 'photo-update', photo });
   };
 
   const toggleMode = () => {
-      setState(prev => {
-          const modes = [AppMode.TREE, AppMode.SCATTER, AppMode.FOCUS];
-          const nextIdx = (modes.indexOf(prev.mode) + 1) % modes.length;
-          return { ...prev, mode: modes[nextIdx] };
+      setState(prev => ({ ...prev, mode: stepMode(prev.mode, 1) }));
+  };
+
+  const handleGestureMappingChange = (mapping: GestureMapping) => {
+    setGestureMapping(mapping);
+    saveGestureMapping(mapping);
+  };
+
+  const handleThemeChange = (next: Theme) => {
+    setTheme(next);
+    saveTheme(next);
+  };
+
+  const handleAudioChange = (next: AudioSettings) => {
+    setAudioSettings(next);
+    saveAudioSettings(next);
+  };
+
+  const handleAccessibilityChange = (next: AccessibilitySettings) => {
+    setAccessibility(next);
+    saveAccessibilitySettings(next);
+  };
+
+  const handleQualityChange = (next: QualitySettings) => {
+    setQualitySettings(next);
+    saveQualitySettings(next);
+    if (!next.stats) setSceneStats(null);
+  };
+
+  // 增删物件后序号会变化，选中状态随之清除；移动物件不影响序号
+  const handleDecorationsChange = (next: DecorationLayout) => {
+    if (next.items.length !== decorations.items.length) setSelectedDecoration(null);
+    setDecorations(next);
+    saveDecorationLayout(next);
+  };
+
+  // 选中物件时移到点击处，否则放置当前调色板中的物件
+  const handlePlace = (position: [number, number, number]) => {
+    if (selectedDecoration !== null) {
+      handleDecorationsChange({
+        ...decorations,
+        items: decorations.items.map((item, i) => (i === selectedDecoration ? { ...item, position } : item))
       });
+      return;
+    }
+    if (decorations.items.length >= MAX_DECORATIONS) {
+      alert(t('alert.decorationsFull', { max: MAX_DECORATIONS }));
+      return;
+    }
+    handleDecorationsChange({
+      ...decorations,
+      items: [...decorations.items, { id: crypto.randomUUID(), position, ...decorationTool }]
+    });
   };
 
+  // 编辑时树回到树形，装饰在其他造型中不显示
+  const startDecorating = () => {
+    setDecorating(true);
+    setState(prev => ({ ...prev, mode: AppMode.TREE }));
+  };
+
+  const stopDecorating = () => {
+    setDecorating(false);
+    setSelectedDecoration(null);
+  };
+
+  // 先确认模型能被解析再保存，导入后直接选为当前物件
+  const handleModelImport = async (file: File) => {
+    setImportingModel(true);
+    try {
+      const model = await readModelFile(file);
+      await loadModel(model.data).catch(err => {
+        console.warn("Model parsing failed:", err);
+        throw new ModelImportError(file.name, 'model.error.unreadable');
+      });
+      await modelStore.add(model);
+      setDecorationModels(prev => [...prev, model]);
+      setSelectedDecoration(null);
+      setDecorationTool({ kind: 'MODEL', modelId: model.id });
+    } catch (err) {
+      console.error("Model import failed:", err);
+      alert(err instanceof ModelImportError
+        ? t('alert.modelRejected', { name: file.name, error: t(err.key, err.params) })
+        : t('alert.modelRejectedGeneric', { name: file.name }));
+    } finally {
+      setImportingModel(false);
+    }
+  };
+
+  const handleRemoveModel = (id: string) => {
+    modelStore.remove(id).catch(err => console.error("Failed to delete model:", err));
+    setDecorationModels(prev => prev.filter(model => model.id !== id));
+    handleDecorationsChange(withoutModel(decorations, id));
+    setSelectedDecoration(null);
+    if (decorationTool.modelId === id) setDecorationTool({ kind: 'BELL' });
+  };
+
+  const handleOrnamentMessage = (index: number, message: string) => {
+    const count = engineRef.current?.ornamentCount ?? 0;
+    if (!count) return;
+    const next = withOrnamentMessage(ornamentMessages, index, count, message);
+    setOrnamentMessages(next);
+    saveOrnamentMessages(next);
+  };
+
+  const handleCameraSettingsChange = (next: CameraSettings) => {
+    setCameraSettings(next);
+    saveCameraSettings(next);
+  };
+
+  const handleCameraChange = (deviceId: string) => {
+    const vision = visionServiceRef.current;
+    if (!vision) return;
+    vision.startCamera(deviceId)
+      .then(() => handleCameraSettingsChange({ ...cameraSettings, deviceId: vision.deviceId }))
+      .catch(err => {
+        console.error("Camera switch failed:", err);
+        alert(t('alert.cameraFailed'));
+      });
+  };
+
+  const handleMusicFile = (file: File) => {
+    audioEngine.loadFile(file);
+    setMusicFileName(file.name);
+    handleAudioChange({ ...audioSettings, music: 'FILE' });
+  };
+
+  // 未自定义祝福语时使用当前语言的默认祝福语；分享与导出仍保存空值，由接收方按其语言显示
+  const displayTheme = useMemo(
+    () => (theme.greeting.trim() ? theme : { ...theme, greeting: t('greeting.default') }),
+    [theme, t]
+  );
+
+  const currentConfig = (): TreeConfig => ({ ...theme, mode: state.mode });
+
   const handleShare = async () => {
+    const url = buildShareUrl(currentConfig());
     if (navigator.share) {
       try {
         await navigator.share({
-          title: '圣诞魔法互动体验',
-          text: '快来看看我的互动3D圣诞树，还能用手势控制！',
-          url: window.location.href,
+          title: t('share.title'),
+          text: t('share.text'),
+          url,
+        });
+      } catch (err) {}
+    } else {
+      await navigator.clipboard.writeText(url);
+      alert(t('alert.linkCopied'));
+    }
+  };
+
+  // 分享视频或截图；浏览器无法分享文件时直接下载
+  const handleCaptureShare = async (file: File) => {
+    if (canShareFile(file)) {
+      try {
+        await navigator.share({
+          files: [file],
+          title: t('share.title'),
+          text: t('share.text'),
         });
       } catch (err) {}
     } else {
-      await navigator.clipboard.writeText(window.location.href);
-      alert('链接已复制到剪贴板，快分享给朋友吧！');
+      downloadBlob(file, file.name);
     }
   };
 
+  const handleExport = () => {
+    downloadBlob(createBundle(currentConfig(), photos), `magical-tree-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const handleRecordToggle = () => {
+    const recorder = recorderRef.current;
+    if (recorder.recording) {
+      const session = recorder.stop();
+      setRecording(false);
+      downloadBlob(serializeSession(session), `hand-session-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.json`);
+    } else {
+      recorder.start();
+      setRecording(true);
+    }
+  };
+
+  const handleSessionLoad = async (file: File) => {
+    try {
+      const tracker = new ReplayTracker(parseSession(await file.text()));
+      if (recorderRef.current.recording) handleRecordToggle();
+      tracker.play();
+      setReplay(tracker);
+    } catch (err) {
+      console.error("Session load failed:", err);
+      alert(err instanceof SessionError ? t('alert.sessionFailed', { error: t(err.key, err.params) }) : t('alert.sessionFailedGeneric'));
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const bundle = await readBundleFile(file);
+      if (photos.length && !confirm(t('alert.importConfirm', { count: photos.length }))) return;
+      const imported: MemoryPhoto[] = [];
+      for (const [i, { src, caption, takenAt }] of bundle.photos.entries()) {
+        setUploadProgress({ done: i, total: bundle.photos.length });
+        imported.push({
+          id: crypto.randomUUID(),
+          // 贺卡包中的照片可能来自其他版本，同样裁剪、缩小；无法解码时保留原样
+          src: await normalizePhotoSrc(src).catch(() => src),
+          caption,
+          createdAt: Date.now() + i,
+          // 处理后的 JPEG 不含 EXIF，拍摄时间从原图读取
+          takenAt: takenAt ?? readExifDateFromDataUrl(src) ?? undefined
+        });
+      }
+      await photoStore.replaceAll(imported);
+      setPhotos(imported);
+      handleThemeChange(normalizeTheme(bundle));
+      setState(prev => ({ ...prev, mode: bundle.mode }));
+    } catch (err) {
+      console.error("Import failed:", err);
+      alert(err instanceof BundleError ? t('alert.importFailed', { error: t(err.key, err.params) }) : t('alert.importFailedGeneric'));
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const adventDate = (adventPreview && applyPreviewDate(adventPreview, now)) || now;
+  const advent = adventState(adventDate, adventOpened);
+  const adventKey = `${advent.day}:${advent.opened}:${advent.hour}`;
+  // 只在进度或时刻变化时交给场景，而不是每秒一次
+  const sceneAdvent = useMemo(() => advent, [adventKey]);
+
+  // 预览时打开的格子不写入存储，以免覆盖真实日期的记录
+  const handleAdventOpen = () => {
+    const key = dateKey(adventDate);
+    setAdventOpened(key);
+    if (!adventPreview) saveOpenedDate(key);
+  };
+
+  // FOCUS 序号 0 为贺卡，其后为相册照片
+  const focusTotal = photos.length + 1;
+  const focusPosition = wrapFocusIndex(state.focusIndex, focusTotal);
+  const reducedMotion = accessibility.motion === 'REDUCED' || (accessibility.motion === 'SYSTEM' && systemReducedMotion);
+  // 读屏软件通过实时区域播报当前造型，FOCUS 中还播报放大的照片
+  const focusedPhoto = focusPosition > 0 ? photos[focusPosition - 1] : null;
+  const announcement = state.mode === AppMode.FOCUS
+    ? t('a11y.photoAnnouncement', {
+      index: focusPosition + 1,
+      total: focusTotal,
+      caption: focusedPhoto ? focusedPhoto.caption || t('a11y.untitled') : t('a11y.greetingCard')
+    })
+    : t('a11y.modeAnnouncement', { mode: modeLabel(t, state.mode) });
+  // 正在编辑的留言，或悬停的装饰球上已有的留言
+  const ornamentCount = engineRef.current?.ornamentCount ?? 0;
+  const messageAt = (index: number) => ornamentMessageAt(ornamentMessages, index, ornamentCount)?.message;
+  const noteIndex = editingOrnament
+    ?? (hovered?.kind === 'ORNAMENT' && messageAt(hovered.index) ? hovered.index : null);
+
   return (
-    <div className="relative w-full h-screen bg-black overflow-hidden select-none touch-none font-['Playfair_Display']">
-      <ThreeScene 
-        mode={state.mode} 
-        handData={state.handData} 
-        onLoaded={handleLoaded} 
-      />
-
-      {/* Share Button (Left) */}
-      <button 
-        onClick={handleShare}
-        className={`fixed top-6 left-6 z-[60] w-12 h-12 flex items-center justify-center rounded-full glass-button pointer-events-auto transition-opacity duration-500 ${state.uiVisible ? 'opacity-100' : 'opacity-0'}`}
-      >
-        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#d4af37" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-          <path d="M4 12v8a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2v-8"/><polyline points="16 6 12 2 8 6"/><line x1="12" y1="2" x2="12" y2="15"/>
-        </svg>
-      </button>
-
-      {/* UI Toggle (Right) */}
-      <button 
-        onClick={() => setState(p => ({...p, uiVisible: !p.uiVisible}))}
-        className="fixed top-6 right-6 z-[60] w-12 h-12 flex items-center justify-center rounded-full glass-button pointer-events-auto"
-      >
-        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#d4af37" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-            {state.uiVisible ? (
-              <path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19m-6.72-1.07a3 3 0 1 1-4.24-4.24M1 1l22 22"/>
-            ) : (
+    <I18nContext.Provider value={i18n}>
+      <div className={`relative w-full h-screen bg-black overflow-hidden select-none touch-none font-['Playfair_Display'] ${reducedMotion ? 'reduce-motion' : ''} ${accessibility.highContrast ? 'high-contrast' : ''}`}>
+        <div aria-live="polite" aria-atomic="true" className="sr-only">{announcement}</div>
+
+        <ThreeScene 
+          ref={engineRef}
+          mode={state.mode} 
+          formation={formation}
+          handData={state.handData} 
+          photos={photos}
+          theme={displayTheme}
+          formationText={state.formationText}
+          focusIndex={state.focusIndex}
+          autoPlay={autoPlay}
+          benchmarking={benchmarking}
+          capture={capture}
+          audio={audioEngine}
+          room={room}
+          quality={qualitySettings.quality}
+          advent={sceneAdvent}
+          reducedMotion={reducedMotion}
+          decorations={decorations}
+          decorationModels={decorationModels}
+          editing={decorating}
+          selectedDecoration={selectedDecoration}
+          statsVisible={qualitySettings.stats}
+          onBenchmarkComplete={handleBenchmarkComplete}
+          onCaptureComplete={handleCaptureComplete}
+          onHover={setHovered}
+          onInputAction={handleInputAction}
+          onLoaded={handleLoaded} 
+          onQualityChange={setQualityTier}
+          onStats={setSceneStats}
+          onSelect={handleSelect}
+          onPlace={handlePlace}
+        />
+
+        {noteIndex !== null && (
+          <OrnamentNote
+            key={noteIndex}
+            locate={() => engineRef.current?.targetPosition({ kind: 'ORNAMENT', index: noteIndex }) ?? null}
+            message={messageAt(noteIndex) ?? ''}
+            editing={editingOrnament === noteIndex}
+            onChange={message => handleOrnamentMessage(noteIndex, message)}
+            onClose={() => setEditingOrnament(null)}
+          />
+        )}
+
+        {qualitySettings.stats && <StatsOverlay stats={sceneStats} />}
+
+        {/* Share Button (Left) */}
+        <button 
+          onClick={handleShare}
+          aria-label={t('a11y.share')}
+          className={`fixed top-6 left-6 z-[60] w-12 h-12 flex items-center justify-center rounded-full glass-button pointer-events-auto transition-opacity duration-500 ${state.uiVisible ? 'opacity-100' : 'opacity-0'}`}
+        >
+          <svg aria-hidden="true" className="text-gold" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M4 12v8a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2v-8"/><polyline points="16 6 12 2 8 6"/><line x1="12" y1="2" x2="12" y2="15"/>
+          </svg>
+        </button>
+
+        {/* Theme Button (Left) */}
+        <button 
+          onClick={() => setThemeEditorOpen(true)}
+          aria-label={t('a11y.theme')}
+          className={`fixed top-6 left-20 z-[60] w-12 h-12 flex items-center justify-center rounded-full glass-button pointer-events-auto transition-opacity duration-500 ${state.uiVisible ? 'opacity-100' : 'opacity-0'}`}
+        >
+          <svg aria-hidden="true" className="text-gold" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M12 22a10 10 0 1 1 10-10c0 2.8-2.2 4-4 4h-2a2 2 0 0 0-1.5 3.3A1.7 1.7 0 0 1 12 22z"/><circle cx="7.5" cy="10.5" r="1"/><circle cx="12" cy="7.5" r="1"/><circle cx="16.5" cy="10.5" r="1"/>
+          </svg>
+        </button>
+
+        {/* Capture Button (Left) */}
+        <button 
+          onClick={() => setCaptureOpen(true)}
+          aria-label={t('a11y.capture')}
+          className={`fixed top-6 left-[8.5rem] z-[60] w-12 h-12 flex items-center justify-center rounded-full glass-button pointer-events-auto transition-opacity duration-500 ${state.uiVisible ? 'opacity-100' : 'opacity-0'}`}
+        >
+          <svg aria-hidden="true" className="text-gold" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M23 19a2 2 0 0 1-2 2H3a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h4l2-3h6l2 3h4a2 2 0 0 1 2 2z"/><circle cx="12" cy="13" r="4"/>
+          </svg>
+        </button>
+
+        {/* Mute Button (Right) */}
+        <button 
+          onClick={() => handleAudioChange({ ...audioSettings, muted: audioUnlocked ? !audioSettings.muted : false })}
+          aria-label={audioSettings.muted || !audioUnlocked ? t('a11y.unmute') : t('a11y.mute')}
+          className={`fixed top-6 right-[8.5rem] z-[60] w-12 h-12 flex items-center justify-center rounded-full glass-button pointer-events-auto transition-opacity duration-500 ${state.uiVisible ? 'opacity-100' : 'opacity-0'}`}
+        >
+          <svg aria-hidden="true" className="text-gold" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"/>
+            {audioSettings.muted || !audioUnlocked ? (
               <>
-                <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"/>
-                <circle cx="12" cy="12" r="3"/>
+                <line x1="23" y1="9" x2="17" y2="15"/><line x1="17" y1="9" x2="23" y2="15"/>
               </>
+            ) : (
+              <path d="M15.54 8.46a5 5 0 0 1 0 7.07M19.07 4.93a10 10 0 0 1 0 14.14"/>
             )}
-        </svg>
-      </button>
-
-      {/* Loading Screen */}
-      {!state.isLoaded && (
-        <div className="fixed inset-0 z-[100] flex flex-col items-center justify-center bg-black transition-opacity duration-1000">
-          <div id="loader-spinner" className="mb-8"></div>
-          <p className="text-[#d4af37] font-['Cinzel'] tracking-[0.5em] text-[10px] uppercase opacity-70 animate-pulse">Initializing Holiday Magic</p>
-        </div>
-      )}
+          </svg>
+        </button>
 
-      {/* Interactive UI */}
-      <div className={`fixed inset-0 z-10 pointer-events-none transition-all duration-1000 ${state.uiVisible ? 'opacity-100' : 'ui-hidden'}`}>
-        <div className="absolute top-[18vh] left-0 w-full flex flex-col items-center px-8">
-          <h1 className="text-[36px] md:text-[72px] gold-gradient-text font-bold leading-tight text-center mb-2 drop-shadow-2xl">Merry Christmas</h1>
-          <div className="h-[1px] w-20 bg-gradient-to-r from-transparent via-[#d4af37] to-transparent opacity-50"></div>
-        </div>
+        {/* Gallery Button (Right) */}
+        <button 
+          onClick={() => setGalleryOpen(true)}
+          aria-label={t('a11y.gallery')}
+          className={`fixed top-6 right-20 z-[60] w-12 h-12 flex items-center justify-center rounded-full glass-button pointer-events-auto transition-opacity duration-500 ${state.uiVisible ? 'opacity-100' : 'opacity-0'}`}
+        >
+          <svg aria-hidden="true" className="text-gold" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <rect x="3" y="3" width="18" height="18" rx="2"/><circle cx="8.5" cy="8.5" r="1.5"/><polyline points="21 15 16 10 5 21"/>
+          </svg>
+        </button>
 
-        <div className="absolute bottom-[8vh] left-0 w-full flex flex-col items-center gap-6 pointer-events-auto px-6">
-          <div className="flex flex-col md:flex-row gap-4 w-full max-w-[280px] md:max-w-none items-center justify-center">
-              <label className="glass-button w-full md:w-auto px-10 py-4 rounded-full text-[#fceea7] text-[11px] tracking-[0.3em] cursor-pointer inline-block uppercase font-bold text-center">
-                ADD MEMORY
-                <input type="file" accept="image/*" className="hidden" onChange={handlePhotoUpload} />
-              </label>
+        {galleryOpen && (
+          <PhotoGallery
+            photos={photos}
+            onClose={() => setGalleryOpen(false)}
+            onDelete={handlePhotoDelete}
+            onMove={handlePhotoMove}
+            onReplace={handlePhotoReplace}
+            onCaptionChange={handleCaptionChange}
+            onCaptionCommit={handleCaptionCommit}
+            onExport={handleExport}
+            onImport={handleImport}
+          />
+        )}
 
-              <button 
-                onClick={initVision}
-                className={`glass-button w-full md:w-auto px-10 py-4 rounded-full text-[#fceea7] text-[11px] tracking-[0.3em] uppercase font-bold text-center transition-all ${visionActive ? 'bg-[#d4af37]/20 border-[#d4af37] shadow-[0_0_20px_rgba(212,175,55,0.3)]' : ''}`}
-              >
-                {visionActive ? 'MAGIC ACTIVE' : 'ENABLE HAND MAGIC'}
-              </button>
+        {benchmarkOpen && (
+          <BenchmarkPanel
+            running={benchmarking}
+            results={benchmarkResults}
+            onClose={() => {
+              setBenchmarking(false);
+              setBenchmarkOpen(false);
+            }}
+          />
+        )}
+
+        {themeEditorOpen && (
+          <ThemeEditor
+            theme={theme}
+            onChange={handleThemeChange}
+            onClose={() => setThemeEditorOpen(false)}
+          />
+        )}
+
+        {(captureOpen || capture?.kind === 'CLIP') && (
+          <CapturePanel
+            recordingSeconds={capture?.kind === 'CLIP' ? capture.seconds : null}
+            rendering={capture?.kind === 'SNAPSHOT'}
+            result={captureResult}
+            musicAvailable={audioUnlocked && !audioSettings.muted && audioSettings.music !== 'OFF'}
+            onRecord={(seconds, withMusic) => setCapture({ kind: 'CLIP', seconds, audio: withMusic ? audioEngine.musicStream : null })}
+            onSnapshot={longEdge => setCapture({ kind: 'SNAPSHOT', longEdge })}
+            onStop={() => setCapture(null)}
+            onShare={handleCaptureShare}
+            onDiscard={() => setCaptureResult(null)}
+            onClose={() => setCaptureOpen(false)}
+          />
+        )}
+
+        {soundOpen && (
+          <SoundPanel
+            settings={audioSettings}
+            unlocked={audioUnlocked}
+            fileName={musicFileName}
+            onChange={handleAudioChange}
+            onFileSelect={handleMusicFile}
+            onClose={() => setSoundOpen(false)}
+          />
+        )}
+
+        {decorating && (
+          <DecorationEditor
+            layout={decorations}
+            models={decorationModels}
+            tool={decorationTool}
+            selected={selectedDecoration}
+            importing={importingModel}
+            onToolChange={setDecorationTool}
+            onLayoutChange={handleDecorationsChange}
+            onSelect={setSelectedDecoration}
+            onImport={handleModelImport}
+            onRemoveModel={handleRemoveModel}
+            onClose={stopDecorating}
+          />
+        )}
+
+        {accessibilityOpen && (
+          <AccessibilityPanel
+            settings={accessibility}
+            systemReducedMotion={systemReducedMotion}
+            onChange={handleAccessibilityChange}
+            onClose={() => setAccessibilityOpen(false)}
+          />
+        )}
+
+        {qualityOpen && (
+          <QualityPanel
+            settings={qualitySettings}
+            tier={qualityTier}
+            onChange={handleQualityChange}
+            onClose={() => setQualityOpen(false)}
+          />
+        )}
+
+        {roomOpen && (
+          <RoomPanel
+            code={room?.code ?? null}
+            relayUrl={room?.relayUrl ?? null}
+            relayStatus={relayStatus}
+            onHost={relayUrl => setRoomTarget({ code: createRoomCode(), relayUrl })}
+            onJoin={(code, relayUrl) => setRoomTarget({ code, relayUrl })}
+            onLeave={() => setRoomTarget(null)}
+            onClose={() => setRoomOpen(false)}
+          />
+        )}
+
+        {gestureSettingsOpen && (
+          <GestureSettings
+            mapping={gestureMapping}
+            onChange={handleGestureMappingChange}
+            onClose={() => setGestureSettingsOpen(false)}
+          />
+        )}
+
+        {sessionsOpen && (
+          <SessionControls
+            canRecord={visionProgress?.stage === 'ready' && !replay}
+            recording={recording}
+            replay={replay}
+            onRecordToggle={handleRecordToggle}
+            onLoad={handleSessionLoad}
+            onEject={() => setReplay(null)}
+            onClose={() => setSessionsOpen(false)}
+          />
+        )}
+
+        {/* UI Toggle (Right) */}
+        <button 
+          onClick={() => setState(p => ({...p, uiVisible: !p.uiVisible}))}
+          aria-label={state.uiVisible ? t('a11y.hideUi') : t('a11y.showUi')}
+          className="fixed top-6 right-6 z-[60] w-12 h-12 flex items-center justify-center rounded-full glass-button pointer-events-auto"
+        >
+          <svg aria-hidden="true" className="text-gold" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              {state.uiVisible ? (
+                <path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19m-6.72-1.07a3 3 0 1 1-4.24-4.24M1 1l22 22"/>
+              ) : (
+                <>
+                  <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"/>
+                  <circle cx="12" cy="12" r="3"/>
+                </>
+              )}
+          </svg>
+        </button>
+
+        {dropActive && (
+          <div className="fixed inset-4 z-[90] flex items-center justify-center rounded-3xl border-2 border-dashed border-gold/70 bg-panel/60 pointer-events-none">
+            <p className="text-cream font-['Cinzel'] tracking-[0.3em] text-[12px] uppercase">{t('app.dropPhotos')}</p>
+          </div>
+        )}
+
+        {/* Loading Screen */}
+        {!state.isLoaded && (
+          <div className="fixed inset-0 z-[100] flex flex-col items-center justify-center bg-black transition-opacity duration-1000">
+            <div id="loader-spinner" className="mb-8"></div>
+            <p className="text-gold font-['Cinzel'] tracking-[0.5em] text-[10px] uppercase opacity-70 animate-pulse">{t('app.loading')}</p>
           </div>
+        )}
+
+        {/* Interactive UI：装饰编辑时让出画面 */}
+        <div inert={!state.uiVisible || decorating} className={`fixed inset-0 z-10 pointer-events-none transition-all duration-1000 ${state.uiVisible && !decorating ? 'opacity-100' : 'ui-hidden'}`}>
+          <div className="absolute top-[18vh] left-0 w-full flex flex-col items-center px-8">
+            <h1
+              className="text-[36px] md:text-[72px] gold-gradient-text font-bold leading-tight text-center mb-2 drop-shadow-2xl whitespace-pre-line"
+              style={{ fontFamily: THEME_FONTS[theme.font].family }}
+            >
+              {displayTheme.greeting}
+            </h1>
+            <div className="h-[1px] w-20 bg-gradient-to-r from-transparent via-gold to-transparent opacity-50"></div>
+          </div>
+
+          <div className="absolute bottom-[8vh] left-0 w-full flex flex-col items-center gap-6 pointer-events-auto px-6">
+            {state.mode === AppMode.FOCUS && (
+              <FocusCarousel
+                photo={focusPosition > 0 ? photos[focusPosition - 1] : null}
+                index={focusPosition}
+                total={focusTotal}
+                autoPlay={autoPlay}
+                onPrev={() => handleInputAction('FOCUS_PREV')}
+                onNext={() => handleInputAction('FOCUS_NEXT')}
+                onToggleAutoPlay={() => setAutoPlay(prev => !prev)}
+              />
+            )}
+            {state.mode === AppMode.ADVENT && (
+              <AdventCountdown
+                date={adventDate}
+                advent={advent}
+                preview={adventPreview}
+                onOpen={handleAdventOpen}
+                onPreviewChange={setAdventPreview}
+              />
+            )}
+            <FormationPicker
+              mode={state.mode}
+              formation={formation}
+              formations={unboundFormations()}
+              text={state.formationText}
+              onModeChange={mode => {
+                setFormation(null);
+                setState(prev => ({ ...prev, mode }));
+              }}
+              onFormationChange={setFormation}
+              onTextChange={formationText => setState(prev => ({ ...prev, formationText }))}
+            />
+
+            <div className="flex flex-col md:flex-row gap-4 w-full max-w-[280px] md:max-w-none items-center justify-center">
+                <label className="glass-button w-full md:w-auto px-10 py-4 rounded-full text-cream text-[11px] tracking-[0.3em] cursor-pointer inline-block uppercase font-bold text-center">
+                  {uploadProgress ? t('app.addingPhotos', { done: uploadProgress.done, total: uploadProgress.total }) : t('app.addMemory')}
+                  <input type="file" accept="image/*" multiple className="sr-only" onChange={handlePhotoUpload} />
+                </label>
 
-          <div className="flex flex-col items-center gap-3">
-            <p className="text-[#d4af37]/70 text-[9px] md:text-[12px] uppercase tracking-[0.25em] font-['Cinzel'] text-center leading-relaxed">
-              {visionActive ? (
-                <span className="flex gap-4">
-                    <span>FIST: TREE</span>
-                    <span>OPEN: SCATTER</span>
-                    <span>PINCH: FOCUS</span>
-                </span>
-              ) : 'Control the tree with gestures'}
-            </p>
-            <button onClick={toggleMode} className="md:hidden text-[#d4af37]/40 text-[9px] tracking-[0.1em] underline underline-offset-4 decoration-1 decoration-[#d4af37]/20">TAP TO CYCLE MODES</button>
+                <button 
+                  onClick={initVision}
+                  className={`glass-button w-full md:w-auto px-10 py-4 rounded-full text-cream text-[11px] tracking-[0.3em] uppercase font-bold text-center transition-all ${visionActive ? 'bg-tint/20 border-gold shadow-[0_0_20px_rgba(212,175,55,0.3)]' : ''}`}
+                >
+                  {visionActive ? describeVisionProgress(t, visionProgress ?? { stage: 'runtime' }) : t('app.enableHandMagic')}
+                </button>
+            </div>
+
+            <div className="flex flex-col items-center gap-3">
+              <p className="text-gold/70 text-[9px] md:text-[12px] uppercase tracking-[0.25em] font-['Cinzel'] text-center leading-relaxed">
+                {visionActive ? (
+                  <span className="flex flex-wrap justify-center gap-x-4">
+                    {(Object.keys(gestureMapping) as (keyof GestureMapping)[])
+                      .filter(gesture => gestureMapping[gesture] !== 'NONE')
+                      .map(gesture => (
+                        <span key={gesture}>{gestureLabel(t, gesture)}: {actionLabel(t, gestureMapping[gesture])}</span>
+                      ))}
+                  </span>
+                ) : t('app.gestureHint')}
+              </p>
+              <p className="hidden md:block text-gold/40 text-[9px] tracking-[0.1em] uppercase">
+                {t('app.manualHint', { count: Object.values(AppMode).length })}
+              </p>
+              {visionProgress?.stage === 'ready' && modelSource && (
+                <p className="text-gold/40 text-[9px] tracking-[0.1em] uppercase">
+                  {modelSource === 'cache' ? t('app.modelFromCache') : t('app.modelFromNetwork')}
+                </p>
+              )}
+              {visionActive && (
+                <button onClick={() => handleCameraSettingsChange({ ...cameraSettings, preview: !cameraSettings.preview })} className="text-gold/40 text-[9px] tracking-[0.1em] underline underline-offset-4 decoration-1 decoration-gold/20 uppercase">
+                  {cameraSettings.preview ? t('app.hideCamera') : t('app.showCamera')}
+                </button>
+              )}
+              <button onClick={() => setGestureSettingsOpen(true)} className="text-gold/40 text-[9px] tracking-[0.1em] underline underline-offset-4 decoration-1 decoration-gold/20 uppercase">{t('app.customizeGestures')}</button>
+              <button onClick={startDecorating} className="text-gold/40 text-[9px] tracking-[0.1em] underline underline-offset-4 decoration-1 decoration-gold/20 uppercase">{t('app.decorate')}</button>
+              <button onClick={() => setSoundOpen(true)} className="text-gold/40 text-[9px] tracking-[0.1em] underline underline-offset-4 decoration-1 decoration-gold/20 uppercase">{t('app.sound')}</button>
+              <button onClick={() => setQualityOpen(true)} className="text-gold/40 text-[9px] tracking-[0.1em] underline underline-offset-4 decoration-1 decoration-gold/20 uppercase">{t('app.quality')}</button>
+              <button onClick={() => setAccessibilityOpen(true)} className="text-gold/40 text-[9px] tracking-[0.1em] underline underline-offset-4 decoration-1 decoration-gold/20 uppercase">{t('a11y.title')}</button>
+              <button onClick={() => setRoomOpen(true)} className="text-gold/40 text-[9px] tracking-[0.1em] underline underline-offset-4 decoration-1 decoration-gold/20 uppercase">
+                {room ? t('app.roomCode', { code: room.code }) : t('app.room')}
+              </button>
+              <button onClick={() => setSessionsOpen(true)} className="text-gold/40 text-[9px] tracking-[0.1em] underline underline-offset-4 decoration-1 decoration-gold/20 uppercase">
+                {replay ? t('app.replaying') : recording ? t('app.recording') : t('app.recordReplay')}
+              </button>
+              <button onClick={toggleMode} className="md:hidden text-gold/40 text-[9px] tracking-[0.1em] underline underline-offset-4 decoration-1 decoration-gold/20 uppercase">{t('app.tapToCycle')}</button>
+              <label className="flex items-center gap-2 text-gold/40 text-[9px] tracking-[0.1em] uppercase">
+                {t('language.label')}
+                <select
+                  value={locale}
+                  onChange={e => i18n.setLocale(e.target.value as Locale)}
+                  className="bg-transparent border border-gold/20 rounded px-1 py-0.5 text-gold/70 outline-none"
+                >
+                  {(Object.keys(LOCALES) as Locale[]).map(code => (
+                    <option key={code} value={code} className="bg-black">{LOCALES[code].label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
           </div>
         </div>
-      </div>
 
-      <div className="fixed bottom-4 right-4 opacity-0 pointer-events-none w-[160px] h-[120px]">
-        <video ref={videoRef} autoPlay playsInline webkit-playsinline="true" muted className="w-full h-full object-cover" />
+        <CameraPreview
+          videoRef={videoRef}
+          visible={visionActive && cameraSettings.preview}
+          getHands={() => (trackerRef.current === visionServiceRef.current ? visionServiceRef.current?.hands ?? [] : [])}
+          gesture={state.handData?.gesture ?? null}
+          cameras={cameras}
+          deviceId={visionServiceRef.current?.deviceId ?? cameraSettings.deviceId}
+          onCameraChange={handleCameraChange}
+          onClose={() => handleCameraSettingsChange({ ...cameraSettings, preview: false })}
+        />
       </div>
-    </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,61 @@
+
+import React from 'react';
+import { AccessibilitySettings, MOTION_PREFERENCES } from '../services/accessibilitySettings';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './i18n';
+
+interface AccessibilityPanelProps {
+  settings: AccessibilitySettings;
+  // 系统当前是否要求减少动态效果，用于说明 SYSTEM 选项的实际效果
+  systemReducedMotion: boolean;
+  onChange: (settings: AccessibilitySettings) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'flex items-center justify-between gap-4 text-cream text-[11px] tracking-[0.15em] uppercase';
+const headingClass = 'text-gold/70 text-[10px] tracking-[0.25em] uppercase';
+
+const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({ settings, systemReducedMotion, onChange, onClose }) => {
+  const { t } = useI18n();
+  const update = (patch: Partial<AccessibilitySettings>) => onChange({ ...settings, ...patch });
+
+  const buttonClass = 'glass-button px-3 py-2 rounded-full text-cream text-[9px] tracking-[0.2em] uppercase';
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-panel/60 pointer-events-auto" onClick={onClose}>
+      <div className="w-full max-w-[360px] max-h-[90vh] overflow-y-auto p-6 rounded-2xl bg-panel/85 backdrop-blur-xl border border-gold/30" role="dialog" aria-modal="true" aria-label={t('a11y.title')} onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <h2 className="text-gold font-['Cinzel'] tracking-[0.3em] text-[12px] uppercase">{t('a11y.title')}</h2>
+          <button autoFocus onClick={onClose} className="text-gold/70 text-[11px] tracking-[0.2em] uppercase">{t('common.close')}</button>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <p className={headingClass}>{t('a11y.motion')}</p>
+          <div className="flex flex-wrap gap-2">
+            {MOTION_PREFERENCES.map(motion => (
+              <button
+                key={motion}
+                onClick={() => update({ motion })}
+                aria-pressed={settings.motion === motion}
+                className={`${buttonClass} ${settings.motion === motion ? 'bg-tint/20 border-gold' : 'text-gold/70'}`}
+              >
+                {t(`a11y.motion.${motion}` as MessageKey)}
+              </button>
+            ))}
+          </div>
+          <p className="text-gold/40 text-[9px] tracking-[0.1em]">
+            {t('a11y.motionHint')} {settings.motion === 'SYSTEM' && t(systemReducedMotion ? 'a11y.systemReduced' : 'a11y.systemFull')}
+          </p>
+
+          <label className={`${labelClass} mt-3`}>
+            {t('a11y.highContrast')}
+            <input type="checkbox" checked={settings.highContrast} onChange={e => update({ highContrast: e.target.checked })} className="accent-gold" />
+          </label>
+          <p className="text-gold/40 text-[9px] tracking-[0.1em]">{t('a11y.keyboardHint')}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccessibilityPanel;
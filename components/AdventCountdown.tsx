@@ -0,0 +1,68 @@
+import React from 'react';
+import { ADVENT_DAYS, AdventState, daysUntilChristmas, msUntilMidnight } from '../services/advent';
+import { useI18n } from './i18n';
+
+interface AdventCountdownProps {
+  // 日历所按的日期：当前时间，或带上当前时刻的预览日期
+  date: Date;
+  advent: AdventState;
+  // 预览日期（YYYY-MM-DD），未预览时为 null
+  preview: string | null;
+  onOpen: () => void;
+  onPreviewChange: (preview: string | null) => void;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+};
+
+/**
+ * The advent calendar overlay: today's day, the countdown to Christmas and
+ * to the next door, the button that opens today's ornaments, and the
+ * preview date when one is set.
+ */
+const AdventCountdown: React.FC<AdventCountdownProps> = ({ date, advent, preview, onOpen, onPreviewChange }) => {
+  const { t } = useI18n();
+  const days = daysUntilChristmas(date);
+
+  return (
+    <div className="flex flex-col items-center gap-2 text-center">
+      <p className="text-gold font-['Cinzel'] tracking-[0.3em] text-[11px] uppercase">
+        {advent.day > 0 ? t('advent.day', { day: advent.day, total: ADVENT_DAYS }) : t('advent.before')}
+      </p>
+      <p className="text-cream text-[18px] md:text-[24px] italic drop-shadow-lg">
+        {days > 0 ? t('advent.daysLeft', { count: days }) : t('advent.christmas')}
+      </p>
+      {/* 下一格在午夜打开；11 月 30 日午夜打开的是第一格 */}
+      {advent.day < ADVENT_DAYS && (advent.day > 0 || days === ADVENT_DAYS) && (
+        <p className="text-gold/60 text-[9px] tracking-[0.2em] uppercase tabular-nums">
+          {t('advent.nextDoor', { time: formatDuration(msUntilMidnight(date)) })}
+        </p>
+      )}
+      {!advent.opened && (
+        <button
+          onClick={onOpen}
+          className="glass-button px-8 py-3 rounded-full text-cream text-[10px] tracking-[0.3em] uppercase font-bold animate-pulse"
+        >
+          {t('advent.open')}
+        </button>
+      )}
+      {preview !== null && (
+        <label className="flex items-center gap-2 text-gold/50 text-[9px] tracking-[0.1em] uppercase">
+          {t('advent.preview')}
+          <input
+            type="date"
+            value={preview}
+            onChange={e => onPreviewChange(e.target.value || null)}
+            className="bg-transparent border border-gold/20 rounded px-1 py-0.5 text-gold/70 outline-none"
+          />
+          <button onClick={() => onPreviewChange(null)} className="underline underline-offset-4">{t('advent.previewReset')}</button>
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default AdventCountdown;
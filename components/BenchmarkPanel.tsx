@@ -0,0 +1,50 @@
+
+import React from 'react';
+import { BenchmarkResult } from '../scene/benchmark';
+import { useI18n } from './i18n';
+
+interface BenchmarkPanelProps {
+  running: boolean;
+  results: BenchmarkResult[] | null;
+  onClose: () => void;
+}
+
+const BenchmarkPanel: React.FC<BenchmarkPanelProps> = ({ running, results, onClose }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed bottom-6 left-6 z-[70] w-[300px] p-5 rounded-2xl bg-panel/80 backdrop-blur-xl border border-gold/30 text-cream pointer-events-auto">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-gold font-['Cinzel'] tracking-[0.3em] text-[11px] uppercase">{t('benchmark.title')}</h2>
+        <button onClick={onClose} className="text-gold/70 text-[10px] tracking-[0.2em] uppercase">{running ? t('common.stop') : t('common.close')}</button>
+      </div>
+      {running && (
+        <p className="text-[11px] opacity-70 animate-pulse">{t('benchmark.running')}</p>
+      )}
+      {results && (
+        <table className="w-full text-[11px] tabular-nums">
+          <thead>
+            <tr className="text-gold/70 text-left">
+              <th className="font-normal">{t('benchmark.scale')}</th>
+              <th className="font-normal">{t('benchmark.particles')}</th>
+              <th className="font-normal text-right">{t('benchmark.frame')}</th>
+              <th className="font-normal text-right">{t('benchmark.cpu')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map(r => (
+              <tr key={r.multiplier}>
+                <td>{r.multiplier}×</td>
+                <td>{r.particles.toLocaleString()}</td>
+                <td className="text-right">{r.frameMs.toFixed(1)} ms</td>
+                <td className="text-right">{r.cpuMs.toFixed(1)} ms</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default BenchmarkPanel;
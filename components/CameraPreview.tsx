@@ -0,0 +1,115 @@
+
+import React, { useEffect, useRef } from 'react';
+import { GestureName } from '../types';
+import { Landmark } from '../services/gestures';
+import { gestureLabel } from '../services/i18n';
+import { useI18n } from './i18n';
+
+interface CameraPreviewProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  // 关闭时视频仍需挂载，供手势识别读取画面
+  visible: boolean;
+  // 每帧读取最近检测到的关键点，每只手一组
+  getHands: () => Landmark[][];
+  gesture: GestureName | null;
+  cameras: MediaDeviceInfo[];
+  deviceId: string | null;
+  onCameraChange: (deviceId: string) => void;
+  onClose: () => void;
+}
+
+// MediaPipe 手部关键点的骨架连线
+const HAND_CONNECTIONS: [number, number][] = [
+  [0, 1], [1, 2], [2, 3], [3, 4],
+  [0, 5], [5, 6], [6, 7], [7, 8],
+  [5, 9], [9, 10], [10, 11], [11, 12],
+  [9, 13], [13, 14], [14, 15], [15, 16],
+  [13, 17], [0, 17], [17, 18], [18, 19], [19, 20]
+];
+
+const PREVIEW_WIDTH = 240;
+const PREVIEW_HEIGHT = 180;
+
+const drawHands = (canvas: HTMLCanvasElement, hands: Landmark[][]) => {
+  const ctx = canvas.getContext('2d')!;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = 'rgba(212, 175, 55, 0.9)';
+  ctx.fillStyle = '#fceea7';
+  hands.forEach(hand => {
+    ctx.beginPath();
+    HAND_CONNECTIONS.forEach(([a, b]) => {
+      ctx.moveTo(hand[a].x * canvas.width, hand[a].y * canvas.height);
+      ctx.lineTo(hand[b].x * canvas.width, hand[b].y * canvas.height);
+    });
+    ctx.stroke();
+    hand.forEach(point => {
+      ctx.beginPath();
+      ctx.arc(point.x * canvas.width, point.y * canvas.height, 2.5, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  });
+};
+
+/**
+ * The camera feed the gestures are read from, mirrored like a selfie view,
+ * with the detected hand skeletons and the current gesture drawn on top.
+ */
+const CameraPreview: React.FC<CameraPreviewProps> = ({
+  videoRef, visible, getHands, gesture, cameras, deviceId, onCameraChange, onClose
+}) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const getHandsRef = useRef(getHands);
+  getHandsRef.current = getHands;
+
+  useEffect(() => {
+    if (!visible) return;
+    let frame = 0;
+    const draw = () => {
+      if (canvasRef.current) drawHands(canvasRef.current, getHandsRef.current());
+      frame = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [visible]);
+
+  return (
+    <div
+      className={visible
+        ? 'fixed bottom-4 right-4 z-[55] rounded-xl overflow-hidden bg-panel/80 border border-gold/30 pointer-events-auto'
+        : 'fixed bottom-4 right-4 opacity-0 pointer-events-none w-[160px] h-[120px]'}
+    >
+      <div className="relative" style={visible ? { width: PREVIEW_WIDTH, height: PREVIEW_HEIGHT } : { width: '100%', height: '100%' }}>
+        <video ref={videoRef} autoPlay playsInline webkit-playsinline="true" muted className={`w-full h-full object-cover ${visible ? '-scale-x-100' : ''}`} />
+        {visible && (
+          <>
+            <canvas ref={canvasRef} width={PREVIEW_WIDTH} height={PREVIEW_HEIGHT} className="absolute inset-0 w-full h-full -scale-x-100" />
+            <span className="absolute left-2 bottom-2 px-2 py-0.5 rounded bg-panel/60 text-cream text-[9px] tracking-[0.2em] uppercase">
+              {gesture && gesture !== 'NONE' ? gestureLabel(t, gesture) : gesture ? t('camera.noGesture') : t('camera.noHand')}
+            </span>
+          </>
+        )}
+      </div>
+      {visible && (
+        <div className="flex items-center gap-2 px-2 py-1.5">
+          {cameras.length > 1 && (
+            <select
+              value={deviceId ?? ''}
+              onChange={e => onCameraChange(e.target.value)}
+              aria-label={t('camera.device')}
+              className="flex-1 min-w-0 bg-black border border-gold/40 rounded px-1 py-0.5 text-cream text-[10px] outline-none focus:border-gold"
+            >
+              {cameras.map((camera, i) => (
+                <option key={camera.deviceId} value={camera.deviceId}>{camera.label || t('camera.unnamed', { index: i + 1 })}</option>
+              ))}
+            </select>
+          )}
+          <button onClick={onClose} className="ml-auto text-gold/70 text-[9px] tracking-[0.2em] uppercase">{t('common.close')}</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraPreview;
@@ -0,0 +1,132 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { CLIP_DURATIONS, SNAPSHOT_SIZES, canShareFile, captureFile, clipSupported } from '../services/capture';
+import { useI18n } from './i18n';
+
+interface CapturePanelProps {
+  // 正在录制的片段时长（秒），未录制时为 null
+  recordingSeconds: number | null;
+  rendering: boolean;
+  result: Blob | null;
+  // 当前没有背景音乐时不显示“包含音乐”选项
+  musicAvailable: boolean;
+  onRecord: (seconds: number, withMusic: boolean) => void;
+  onSnapshot: (longEdge: number) => void;
+  onStop: () => void;
+  // 浏览器无法分享文件时由调用方改为下载
+  onShare: (file: File) => void;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+const CapturePanel: React.FC<CapturePanelProps> = ({
+  recordingSeconds, rendering, result, musicAvailable, onRecord, onSnapshot, onStop, onShare, onDiscard, onClose
+}) => {
+  const { t } = useI18n();
+  const [seconds, setSeconds] = useState(CLIP_DURATIONS[1]);
+  const [withMusic, setWithMusic] = useState(true);
+  const [longEdge, setLongEdge] = useState(SNAPSHOT_SIZES[1].longEdge);
+  const [elapsed, setElapsed] = useState(0);
+
+  useEffect(() => {
+    if (recordingSeconds === null) return;
+    const startedAt = Date.now();
+    setElapsed(0);
+    const id = setInterval(() => setElapsed(Math.floor((Date.now() - startedAt) / 1000)), 250);
+    return () => clearInterval(id);
+  }, [recordingSeconds]);
+
+  const file = useMemo(() => (result ? captureFile(result) : null), [result]);
+  const previewUrl = useMemo(() => (result ? URL.createObjectURL(result) : null), [result]);
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  const buttonClass = 'glass-button px-4 py-2 rounded-full text-cream text-[10px] tracking-[0.2em] uppercase';
+  const optionClass = (selected: boolean) => `${buttonClass} ${selected ? 'bg-tint/20 border-gold' : 'text-gold/70'}`;
+  const headingClass = 'text-gold/70 text-[10px] tracking-[0.25em] uppercase mb-3';
+
+  // 录制期间收起为顶部的小提示条，不遮挡画面
+  if (recordingSeconds !== null) {
+    return (
+      <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[80] flex items-center gap-4 px-5 py-2 rounded-full bg-panel/80 backdrop-blur-xl border border-[#9b111e] pointer-events-auto">
+        <span className="w-2 h-2 rounded-full bg-[#ff2d2d] animate-pulse"></span>
+        <span className="text-cream text-[10px] tracking-[0.2em] uppercase tabular-nums">
+          {t('capture.recording', { elapsed: Math.min(elapsed, recordingSeconds), total: recordingSeconds })}
+        </span>
+        <button onClick={onStop} className="text-gold text-[10px] tracking-[0.2em] uppercase">{t('common.stop')}</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-panel/60 pointer-events-auto" onClick={onClose}>
+      <div className="w-full max-w-[360px] max-h-[90vh] overflow-y-auto p-6 rounded-2xl bg-panel/85 backdrop-blur-xl border border-gold/30" role="dialog" aria-modal="true" aria-label={t('capture.title')} onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <h2 className="text-gold font-['Cinzel'] tracking-[0.3em] text-[12px] uppercase">{t('capture.title')}</h2>
+          <button autoFocus onClick={onClose} className="text-gold/70 text-[11px] tracking-[0.2em] uppercase">{t('common.close')}</button>
+        </div>
+
+        {result && file && previewUrl ? (
+          <div className="flex flex-col gap-4">
+            {result.type.startsWith('video/') ? (
+              <video src={previewUrl} autoPlay loop muted playsInline className="w-full rounded-lg border border-gold/20" />
+            ) : (
+              <img src={previewUrl} alt="" className="w-full rounded-lg border border-gold/20" />
+            )}
+            <div className="flex justify-center gap-2">
+              <button onClick={() => onShare(file)} className={buttonClass}>
+                {canShareFile(file) ? t('capture.share') : t('capture.download')}
+              </button>
+              <button onClick={onDiscard} className={`${buttonClass} text-gold/70`}>{t('capture.discard')}</button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <p className={headingClass}>{t('capture.clip')}</p>
+            {clipSupported() ? (
+              <div className="flex flex-col gap-3">
+                <div className="flex justify-center gap-2">
+                  {CLIP_DURATIONS.map(duration => (
+                    <button key={duration} onClick={() => setSeconds(duration)} aria-pressed={seconds === duration} className={optionClass(seconds === duration)}>
+                      {duration}s
+                    </button>
+                  ))}
+                </div>
+                {musicAvailable && (
+                  <label className="flex items-center justify-center gap-2 text-cream text-[10px] tracking-[0.15em] uppercase">
+                    <input type="checkbox" checked={withMusic} onChange={e => setWithMusic(e.target.checked)} className="accent-gold" />
+                    {t('capture.withMusic')}
+                  </label>
+                )}
+                <button onClick={() => onRecord(seconds, musicAvailable && withMusic)} className={`w-full ${buttonClass} py-3`}>
+                  {t('capture.record')}
+                </button>
+              </div>
+            ) : (
+              <p className="text-gold/40 text-[9px] tracking-[0.1em] uppercase text-center">{t('capture.unsupported')}</p>
+            )}
+
+            <div className="h-[1px] my-5 bg-tint/20"></div>
+
+            <p className={headingClass}>{t('capture.snapshot')}</p>
+            <div className="flex flex-col gap-3">
+              <div className="flex justify-center gap-2">
+                {SNAPSHOT_SIZES.map(size => (
+                  <button key={size.longEdge} onClick={() => setLongEdge(size.longEdge)} aria-pressed={longEdge === size.longEdge} className={optionClass(longEdge === size.longEdge)}>
+                    {size.label}
+                  </button>
+                ))}
+              </div>
+              <button onClick={() => onSnapshot(longEdge)} disabled={rendering} className={`w-full ${buttonClass} py-3 disabled:opacity-30`}>
+                {rendering ? t('capture.rendering') : t('capture.takeSnapshot')}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CapturePanel;
@@ -0,0 +1,141 @@
+import React from 'react';
+import { DecorationKind, DecorationLayout, DecorationModel } from '../types';
+import { DECORATION_KINDS, EMPTY_LAYOUT, MAX_DECORATIONS } from '../services/decorations';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './i18n';
+
+// 在树面上点击或捏合时放置的物件；kind 为 MODEL 时带上模型 id
+export interface DecorationTool {
+  kind: DecorationKind;
+  modelId?: string;
+}
+
+interface DecorationEditorProps {
+  layout: DecorationLayout;
+  models: DecorationModel[];
+  tool: DecorationTool;
+  // 选中的物件序号；选中后点击树面即把它移到那里
+  selected: number | null;
+  importing: boolean;
+  onToolChange: (tool: DecorationTool) => void;
+  onLayoutChange: (layout: DecorationLayout) => void;
+  onSelect: (index: number | null) => void;
+  onImport: (file: File) => void;
+  onRemoveModel: (id: string) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'flex items-center justify-between gap-4 text-cream text-[11px] tracking-[0.15em] uppercase';
+const headingClass = 'text-gold/70 text-[10px] tracking-[0.25em] uppercase';
+const linkClass = 'text-gold/60 text-[9px] tracking-[0.15em] uppercase underline underline-offset-4';
+
+/**
+ * The decoration editor: the ornament palette with imported models, string
+ * lights and the tree-top choice. It sits beside the tree so items can be
+ * placed by clicking or pinching on the tree surface.
+ */
+const DecorationEditor: React.FC<DecorationEditorProps> = ({
+  layout, models, tool, selected, importing, onToolChange, onLayoutChange, onSelect, onImport, onRemoveModel, onClose
+}) => {
+  const { t } = useI18n();
+  const buttonClass = 'glass-button px-3 py-2 rounded-full text-cream text-[9px] tracking-[0.2em] uppercase';
+  const isActive = (kind: DecorationKind, modelId?: string) => selected === null && tool.kind === kind && tool.modelId === modelId;
+  const toolButton = (active: boolean) => `${buttonClass} ${active ? 'bg-tint/20 border-gold' : 'text-gold/70'}`;
+  const pickTool = (next: DecorationTool) => {
+    onSelect(null);
+    onToolChange(next);
+  };
+
+  return (
+    <div className="fixed inset-y-0 left-0 z-[70] w-full max-w-[320px] flex flex-col bg-panel/80 backdrop-blur-xl border-r border-gold/30 pointer-events-auto" role="dialog" aria-label={t('decor.title')}>
+      <div className="flex items-center justify-between p-6 pb-4">
+        <h2 className="text-gold font-['Cinzel'] tracking-[0.3em] text-[12px] uppercase">{t('decor.title')}</h2>
+        <button autoFocus onClick={onClose} className="text-gold/70 text-[11px] tracking-[0.2em] uppercase">{t('decor.done')}</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 pb-6 flex flex-col gap-3">
+        <p className="text-gold/40 text-[9px] tracking-[0.1em]">{t('decor.hint')}</p>
+        <p className="text-gold/60 text-[9px] tracking-[0.15em] uppercase tabular-nums">
+          {t('decor.count', { count: layout.items.length, max: MAX_DECORATIONS })}
+        </p>
+
+        <p className={`${headingClass} mt-2`}>{t('decor.palette')}</p>
+        <div className="flex flex-wrap gap-2">
+          {DECORATION_KINDS.map(kind => (
+            <button key={kind} onClick={() => pickTool({ kind })} aria-pressed={isActive(kind)} className={toolButton(isActive(kind))}>
+              {t(`decor.kind.${kind}` as MessageKey)}
+            </button>
+          ))}
+        </div>
+
+        <p className={`${headingClass} mt-2`}>{t('decor.models')}</p>
+        {models.map(model => (
+          <div key={model.id} className="flex items-center gap-2">
+            <button
+              onClick={() => pickTool({ kind: 'MODEL', modelId: model.id })}
+              aria-pressed={isActive('MODEL', model.id)}
+              className={`${toolButton(isActive('MODEL', model.id))} flex-1 truncate normal-case`}
+            >
+              {model.name}
+            </button>
+            <button onClick={() => onRemoveModel(model.id)} aria-label={t('decor.removeModel', { name: model.name })} className="text-gold/50 text-[14px] px-2">×</button>
+          </div>
+        ))}
+        <label className={`${buttonClass} text-center cursor-pointer`}>
+          {importing ? t('decor.importing') : t('decor.import')}
+          <input
+            type="file"
+            accept=".glb,.gltf,model/gltf-binary,model/gltf+json"
+            className="sr-only"
+            disabled={importing}
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onImport(file);
+            }}
+          />
+        </label>
+
+        <label className={`${labelClass} mt-3`}>
+          {t('decor.stringLights')}
+          <input
+            type="checkbox"
+            checked={layout.stringLights}
+            onChange={e => onLayoutChange({ ...layout, stringLights: e.target.checked })}
+            className="accent-gold"
+          />
+        </label>
+
+        <label className={labelClass}>
+          {t('decor.topper')}
+          <select
+            value={layout.topperModelId ?? ''}
+            onChange={e => onLayoutChange({ ...layout, topperModelId: e.target.value || null })}
+            className="max-w-[140px] bg-transparent border border-gold/20 rounded px-1 py-0.5 text-gold/70 outline-none normal-case"
+          >
+            <option value="" className="bg-black">{t('decor.topperStar')}</option>
+            {models.map(model => <option key={model.id} value={model.id} className="bg-black">{model.name}</option>)}
+          </select>
+        </label>
+
+        {selected !== null && (
+          <div className="flex items-center justify-between gap-2 mt-3 p-3 rounded-xl border border-gold/30">
+            <span className="text-cream text-[10px] tracking-[0.15em] uppercase">{t('decor.selected')}</span>
+            <div className="flex gap-3">
+              <button onClick={() => onLayoutChange({ ...layout, items: layout.items.filter((_, i) => i !== selected) })} className={linkClass}>
+                {t('decor.delete')}
+              </button>
+              <button onClick={() => onSelect(null)} className={linkClass}>{t('decor.deselect')}</button>
+            </div>
+          </div>
+        )}
+
+        {(layout.items.length > 0 || layout.stringLights || layout.topperModelId) && (
+          <button onClick={() => onLayoutChange(EMPTY_LAYOUT)} className={`${linkClass} self-start mt-3`}>{t('decor.clear')}</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DecorationEditor;
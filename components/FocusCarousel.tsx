@@ -0,0 +1,46 @@
+
+import React from 'react';
+import { MemoryPhoto } from '../types';
+import { useI18n } from './i18n';
+
+interface FocusCarouselProps {
+  // 为空表示当前放大的是贺卡
+  photo: MemoryPhoto | null;
+  index: number;
+  total: number;
+  autoPlay: boolean;
+  onPrev: () => void;
+  onNext: () => void;
+  onToggleAutoPlay: () => void;
+}
+
+const formatTakenAt = (takenAt: number, locale: string) =>
+  new Date(takenAt).toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric' });
+
+const FocusCarousel: React.FC<FocusCarouselProps> = ({ photo, index, total, autoPlay, onPrev, onNext, onToggleAutoPlay }) => {
+  const { locale, t } = useI18n();
+  const arrowClass = 'glass-button w-10 h-10 flex items-center justify-center rounded-full text-gold text-[16px] shrink-0';
+
+  return (
+    <div className="flex items-center gap-4 max-w-[560px] w-full">
+      <button onClick={onPrev} className={arrowClass} aria-label={t('focus.previous')}>‹</button>
+      <div className="flex-1 min-w-0 flex flex-col items-center gap-1 text-center">
+        {photo?.caption && (
+          <p className="text-cream text-[14px] md:text-[18px] italic truncate max-w-full drop-shadow-lg">{photo.caption}</p>
+        )}
+        {photo?.takenAt !== undefined && (
+          <p className="text-gold/70 text-[9px] md:text-[10px] tracking-[0.2em] uppercase">{formatTakenAt(photo.takenAt, locale)}</p>
+        )}
+        <div className="flex items-center gap-3 text-gold/50 text-[9px] tracking-[0.2em] uppercase">
+          <span>{index + 1} / {total}</span>
+          <button onClick={onToggleAutoPlay} className={autoPlay ? 'text-cream' : 'text-gold/50'}>
+            {autoPlay ? t('focus.pause') : t('focus.play')}
+          </button>
+        </div>
+      </div>
+      <button onClick={onNext} className={arrowClass} aria-label={t('focus.next')}>›</button>
+    </div>
+  );
+};
+
+export default FocusCarousel;
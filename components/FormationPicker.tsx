@@ -0,0 +1,73 @@
+
+import React, { useState } from 'react';
+import { AppMode } from '../types';
+import { Formation, MAX_FORMATION_TEXT_LENGTH } from '../scene/formations';
+import { modeLabel } from '../services/i18n';
+import { useI18n } from './i18n';
+
+interface FormationPickerProps {
+  mode: AppMode;
+  // 按 id 选用的造型，为 null 时显示模式对应的造型
+  formation?: string | null;
+  // 没有对应模式的已注册造型，排在模式按钮之后
+  formations?: Formation[];
+  text: string;
+  onModeChange: (mode: AppMode) => void;
+  onFormationChange?: (id: string) => void;
+  onTextChange: (text: string) => void;
+}
+
+const FormationPicker: React.FC<FormationPickerProps> = ({
+  mode, formation = null, formations = [], text, onModeChange, onFormationChange, onTextChange
+}) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState(text);
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="flex flex-wrap justify-center gap-2 max-w-[560px]">
+        {Object.values(AppMode).map(m => (
+          <button
+            key={m}
+            onClick={() => onModeChange(m)}
+            aria-pressed={!formation && m === mode}
+            className={`glass-button px-4 py-2 rounded-full text-[10px] tracking-[0.2em] uppercase ${!formation && m === mode ? 'bg-tint/20 border-gold text-cream' : 'text-gold/70'}`}
+          >
+            {modeLabel(t, m)}
+          </button>
+        ))}
+        {formations.map(f => (
+          <button
+            key={f.id}
+            onClick={() => onFormationChange?.(f.id)}
+            aria-pressed={f.id === formation}
+            className={`glass-button px-4 py-2 rounded-full text-[10px] tracking-[0.2em] uppercase ${f.id === formation ? 'bg-tint/20 border-gold text-cream' : 'text-gold/70'}`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+      {!formation && mode === AppMode.TEXT && (
+        <form
+          className="flex gap-2"
+          onSubmit={e => {
+            e.preventDefault();
+            onTextChange(draft);
+          }}
+        >
+          <input
+            type="text"
+            value={draft}
+            maxLength={MAX_FORMATION_TEXT_LENGTH}
+            placeholder={t('formation.placeholder')}
+            onChange={e => setDraft(e.target.value)}
+            className="bg-transparent border-b border-gold/40 text-cream text-[12px] px-2 py-1 outline-none focus:border-gold w-[200px]"
+          />
+          <button type="submit" className="glass-button px-4 py-1 rounded-full text-cream text-[10px] tracking-[0.2em] uppercase">{t('formation.spell')}</button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default FormationPicker;
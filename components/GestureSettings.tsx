@@ -0,0 +1,51 @@
+
+import React from 'react';
+import { GestureAction, GestureMapping } from '../types';
+import { DEFAULT_GESTURE_MAPPING, GESTURE_ACTIONS } from '../services/gestureMapping';
+import { actionLabel, gestureLabel } from '../services/i18n';
+import { useI18n } from './i18n';
+
+interface GestureSettingsProps {
+  mapping: GestureMapping;
+  onChange: (mapping: GestureMapping) => void;
+  onClose: () => void;
+}
+
+const GestureSettings: React.FC<GestureSettingsProps> = ({ mapping, onChange, onClose }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-panel/60 pointer-events-auto" onClick={onClose}>
+      <div className="w-full max-w-[340px] p-6 rounded-2xl bg-panel/85 backdrop-blur-xl border border-gold/30" role="dialog" aria-modal="true" aria-label={t('gestures.title')} onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <h2 className="text-gold font-['Cinzel'] tracking-[0.3em] text-[12px] uppercase">{t('gestures.title')}</h2>
+          <button autoFocus onClick={onClose} className="text-gold/70 text-[11px] tracking-[0.2em] uppercase">{t('common.close')}</button>
+        </div>
+        <div className="flex flex-col gap-3">
+          {(Object.keys(mapping) as (keyof GestureMapping)[]).map(gesture => (
+            <label key={gesture} className="flex items-center justify-between gap-4 text-cream text-[11px] tracking-[0.15em] uppercase">
+              {gestureLabel(t, gesture)}
+              <select
+                value={mapping[gesture]}
+                onChange={e => onChange({ ...mapping, [gesture]: e.target.value as GestureAction })}
+                className="bg-black border border-gold/40 rounded px-2 py-1 text-cream text-[11px] outline-none focus:border-gold"
+              >
+                {GESTURE_ACTIONS.map(action => (
+                  <option key={action} value={action}>{actionLabel(t, action)}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+        <button
+          onClick={() => onChange({ ...DEFAULT_GESTURE_MAPPING })}
+          className="mt-6 w-full glass-button py-3 rounded-full text-cream text-[10px] tracking-[0.2em] uppercase font-bold"
+        >
+          {t('gestures.reset')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GestureSettings;
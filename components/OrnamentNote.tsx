@@ -0,0 +1,71 @@
+
+import React, { useEffect, useRef } from 'react';
+import { MAX_ORNAMENT_MESSAGE_LENGTH } from '../services/ornamentMessages';
+import { useI18n } from './i18n';
+
+interface OrnamentNoteProps {
+  // 装饰球当前在屏幕上的位置，不可见时为 null
+  locate: () => { x: number; y: number } | null;
+  message: string;
+  // 为 false 时只显示已有留言（悬停预览）
+  editing: boolean;
+  onChange: (message: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * A small note pinned above an ornament. It follows the ornament as the
+ * tree turns by repositioning itself every frame outside of React.
+ */
+const OrnamentNote: React.FC<OrnamentNoteProps> = ({ locate, message, editing, onChange, onClose }) => {
+  const { t } = useI18n();
+  const noteRef = useRef<HTMLDivElement>(null);
+  const locateRef = useRef(locate);
+  locateRef.current = locate;
+
+  useEffect(() => {
+    let frame = 0;
+    const follow = () => {
+      const note = noteRef.current;
+      const position = locateRef.current();
+      if (note) {
+        note.style.visibility = position ? 'visible' : 'hidden';
+        if (position) note.style.transform = `translate(calc(${position.x}px - 50%), calc(${position.y}px - 100% - 16px))`;
+      }
+      frame = requestAnimationFrame(follow);
+    };
+    follow();
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return (
+    <div
+      ref={noteRef}
+      className={`fixed left-0 top-0 z-[70] w-56 p-3 rounded-xl bg-panel/80 backdrop-blur-md border border-gold/40 ${editing ? 'pointer-events-auto' : 'pointer-events-none'}`}
+      style={{ visibility: 'hidden' }}
+    >
+      {editing ? (
+        <>
+          <textarea
+            autoFocus
+            value={message}
+            maxLength={MAX_ORNAMENT_MESSAGE_LENGTH}
+            placeholder={t('ornament.placeholder')}
+            onChange={e => onChange(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Escape') onClose(); }}
+            rows={3}
+            className="w-full resize-none bg-transparent text-cream text-[13px] italic placeholder:text-gold/40 outline-none"
+          />
+          <div className="flex items-center justify-between mt-1 text-[9px] tracking-[0.2em] uppercase">
+            <span className="text-gold/40">{message.length} / {MAX_ORNAMENT_MESSAGE_LENGTH}</span>
+            <button onClick={onClose} className="text-gold/70">{t('common.close')}</button>
+          </div>
+        </>
+      ) : (
+        <p className="text-cream text-[13px] italic break-words">{message}</p>
+      )}
+    </div>
+  );
+};
+
+export default OrnamentNote;
@@ -0,0 +1,80 @@
+
+import React from 'react';
+import { MemoryPhoto } from '../types';
+import { useI18n } from './i18n';
+
+interface PhotoGalleryProps {
+  photos: MemoryPhoto[];
+  onClose: () => void;
+  onDelete: (id: string) => void;
+  onMove: (id: string, offset: number) => void;
+  onReplace: (id: string, file: File) => void;
+  onCaptionChange: (id: string, caption: string) => void;
+  onCaptionCommit: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({
+  photos, onClose, onDelete, onMove, onReplace, onCaptionChange, onCaptionCommit, onExport, onImport
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-[70] w-full max-w-[360px] flex flex-col bg-panel/80 backdrop-blur-xl border-l border-gold/30 pointer-events-auto" role="dialog" aria-label={t('gallery.title', { count: photos.length })}>
+      <div className="flex items-center justify-between px-6 py-5 border-b border-gold/20">
+        <h2 className="text-gold font-['Cinzel'] tracking-[0.3em] text-[12px] uppercase">{t('gallery.title', { count: photos.length })}</h2>
+        <button autoFocus onClick={onClose} className="text-gold/70 text-[11px] tracking-[0.2em] uppercase">{t('common.close')}</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-4">
+        {photos.length === 0 && (
+          <p className="text-gold/50 text-[11px] tracking-[0.2em] uppercase text-center mt-10">{t('gallery.empty')}</p>
+        )}
+        {photos.map((photo, i) => (
+          <div key={photo.id} className="flex gap-3 items-start">
+            <img src={photo.src} alt={photo.caption} className="w-16 h-20 object-cover rounded border border-gold/40 shrink-0" />
+            <div className="flex-1 flex flex-col gap-2 min-w-0">
+              <input
+                type="text"
+                value={photo.caption}
+                placeholder={t('gallery.caption')}
+                maxLength={80}
+                onChange={e => onCaptionChange(photo.id, e.target.value)}
+                onBlur={() => onCaptionCommit(photo.id)}
+                className="w-full bg-transparent border-b border-gold/30 text-cream text-[12px] py-1 outline-none focus:border-gold"
+              />
+              <div className="flex gap-3 text-gold/70 text-[10px] tracking-[0.15em] uppercase">
+                <button disabled={i === 0} onClick={() => onMove(photo.id, -1)} className="disabled:opacity-30">{t('gallery.up')}</button>
+                <button disabled={i === photos.length - 1} onClick={() => onMove(photo.id, 1)} className="disabled:opacity-30">{t('gallery.down')}</button>
+                <label className="cursor-pointer">
+                  {t('gallery.replace')}
+                  <input type="file" accept="image/*" className="sr-only" onChange={e => {
+                    const file = e.target.files?.[0];
+                    if (file) onReplace(photo.id, file);
+                    e.target.value = '';
+                  }} />
+                </label>
+                <button onClick={() => onDelete(photo.id)} className="text-[#9b111e]">{t('gallery.delete')}</button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-3 px-6 py-5 border-t border-gold/20">
+        <button onClick={onExport} className="glass-button flex-1 py-3 rounded-full text-cream text-[10px] tracking-[0.2em] uppercase font-bold">{t('gallery.export')}</button>
+        <label className="glass-button flex-1 py-3 rounded-full text-cream text-[10px] tracking-[0.2em] uppercase font-bold text-center cursor-pointer">
+          {t('gallery.import')}
+          <input type="file" accept="application/json,.json" className="sr-only" onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }} />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoGallery;
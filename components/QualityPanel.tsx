@@ -0,0 +1,61 @@
+
+import React from 'react';
+import { QUALITY_TIERS, QualitySetting, QualityTier } from '../scene/quality';
+import { QualitySettings } from '../services/qualitySettings';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './i18n';
+
+interface QualityPanelProps {
+  settings: QualitySettings;
+  // 场景当前实际使用的档位（AUTO 时随帧率变化）
+  tier: QualityTier | null;
+  onChange: (settings: QualitySettings) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'flex items-center justify-between gap-4 text-cream text-[11px] tracking-[0.15em] uppercase';
+const headingClass = 'text-gold/70 text-[10px] tracking-[0.25em] uppercase';
+
+const QualityPanel: React.FC<QualityPanelProps> = ({ settings, tier, onChange, onClose }) => {
+  const { t } = useI18n();
+  const update = (patch: Partial<QualitySettings>) => onChange({ ...settings, ...patch });
+
+  const buttonClass = 'glass-button px-3 py-2 rounded-full text-cream text-[9px] tracking-[0.2em] uppercase';
+  const optionClass = (quality: QualitySetting) =>
+    `${buttonClass} ${settings.quality === quality ? 'bg-tint/20 border-gold' : 'text-gold/70'}`;
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-panel/60 pointer-events-auto" onClick={onClose}>
+      <div className="w-full max-w-[360px] max-h-[90vh] overflow-y-auto p-6 rounded-2xl bg-panel/85 backdrop-blur-xl border border-gold/30" role="dialog" aria-modal="true" aria-label={t('quality.title')} onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <h2 className="text-gold font-['Cinzel'] tracking-[0.3em] text-[12px] uppercase">{t('quality.title')}</h2>
+          <button autoFocus onClick={onClose} className="text-gold/70 text-[11px] tracking-[0.2em] uppercase">{t('common.close')}</button>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <p className={headingClass}>{t('quality.level')}</p>
+          <div className="flex flex-wrap gap-2">
+            {(['AUTO', ...QUALITY_TIERS] as QualitySetting[]).map(quality => (
+              <button key={quality} onClick={() => update({ quality })} aria-pressed={settings.quality === quality} className={optionClass(quality)}>
+                {t(`quality.tier.${quality}` as MessageKey)}
+              </button>
+            ))}
+          </div>
+          <p className="text-gold/40 text-[9px] tracking-[0.1em]">{t('quality.autoHint')}</p>
+          {tier && (
+            <p className="text-cream/70 text-[10px] tracking-[0.15em] uppercase">
+              {t('quality.current', { tier: t(`quality.tier.${tier}` as MessageKey) })}
+            </p>
+          )}
+
+          <label className={`${labelClass} mt-3`}>
+            {t('quality.stats')}
+            <input type="checkbox" checked={settings.stats} onChange={e => update({ stats: e.target.checked })} className="accent-gold" />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QualityPanel;
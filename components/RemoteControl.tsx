@@ -0,0 +1,156 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { InputAction } from '../types';
+import RoomConnection, { RelayStatus, SharedState } from '../services/room';
+import { PhotoIngestError, ingestPhoto } from '../services/photoIngest';
+import { MessageKey } from '../services/i18n';
+import FormationPicker from './FormationPicker';
+import { I18nContext, useLocaleState } from './i18n';
+
+interface RemoteControlProps {
+  code: string;
+  relayUrl: string | null;
+}
+
+// 拖动灵敏度：每像素旋转的弧度，与本机拖动接近
+const DRAG_SPEED = 0.006;
+// 拖动增量合并后按此间隔发送，避免中继被大量小消息淹没
+const ROTATE_INTERVAL_MS = 40;
+
+/**
+ * Phone-sized remote for a room: it renders no 3D scene, it only mirrors the
+ * shared state the displays broadcast and sends actions, rotation and photos.
+ */
+const RemoteControl: React.FC<RemoteControlProps> = ({ code, relayUrl }) => {
+  const i18n = useLocaleState();
+  const { t } = i18n;
+  const [room, setRoom] = useState<RoomConnection | null>(null);
+  const [shared, setShared] = useState<SharedState | null>(null);
+  const [relayStatus, setRelayStatus] = useState<RelayStatus>('off');
+  const [sending, setSending] = useState(false);
+  const dragRef = useRef<{ x: number; y: number; dx: number; dy: number; sentAt: number } | null>(null);
+
+  useEffect(() => {
+    const connection = new RoomConnection(code, 'remote', relayUrl);
+    setRoom(connection);
+    setRelayStatus(connection.relayStatus);
+    const offStatus = connection.onStatus(setRelayStatus);
+    const offMessage = connection.subscribe(message => {
+      if (message.type === 'state') setShared(message.state);
+    });
+    connection.send({ type: 'hello', role: 'remote' });
+    return () => {
+      offStatus();
+      offMessage();
+      connection.close();
+      setRoom(null);
+    };
+  }, [code, relayUrl]);
+
+  const send = (action: InputAction) => room?.send({ type: 'action', action });
+
+  const flushRotation = (force: boolean) => {
+    const drag = dragRef.current;
+    if (!drag || (!drag.dx && !drag.dy)) return;
+    const now = performance.now();
+    if (!force && now - drag.sentAt < ROTATE_INTERVAL_MS) return;
+    room?.send({ type: 'rotate', dx: drag.dx * DRAG_SPEED, dy: drag.dy * DRAG_SPEED });
+    drag.dx = 0;
+    drag.dy = 0;
+    drag.sentAt = now;
+  };
+
+  const handlePhoto = async (file: File) => {
+    setSending(true);
+    try {
+      // 在手机上先裁剪缩小，经中继传输的消息与本地上传的照片一致
+      room?.send({ type: 'photo', photo: await ingestPhoto(file) });
+    } catch (err) {
+      console.error("Failed to send photo:", err);
+      alert(err instanceof PhotoIngestError
+        ? t('alert.photosRejected', { count: 1, list: `${err.fileName}: ${t(err.key, err.params)}` })
+        : t('alert.photoSendFailed'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const buttonClass = 'glass-button px-4 py-3 rounded-full text-cream text-[10px] tracking-[0.2em] uppercase text-center';
+
+  return (
+    <I18nContext.Provider value={i18n}>
+      <div className="min-h-screen w-full bg-black text-cream font-['Playfair_Display'] flex flex-col items-center gap-6 px-6 py-8 select-none">
+        <div className="flex flex-col items-center gap-1">
+          <h1 className="text-gold font-['Cinzel'] tracking-[0.3em] text-[12px] uppercase">{t('remote.title')}</h1>
+          <p className="font-['Cinzel'] text-[24px] tracking-[0.4em] pl-[0.4em]">{code}</p>
+          <p className="text-gold/40 text-[9px] tracking-[0.1em] uppercase">{t(`room.status.${relayStatus}` as MessageKey)}</p>
+        </div>
+
+        {shared ? (
+          <>
+            <FormationPicker
+              mode={shared.mode}
+              text={shared.formationText}
+              onModeChange={mode => send(mode)}
+              onTextChange={formationText => room?.send({ type: 'state', state: { ...shared, formationText } })}
+            />
+
+            <div className="flex gap-3">
+              <button onClick={() => send('FOCUS_PREV')} className={buttonClass}>{t('focus.previous')}</button>
+              <button onClick={() => send('FOCUS_NEXT')} className={buttonClass}>{t('focus.next')}</button>
+            </div>
+
+            <div
+              className="w-full max-w-[320px] aspect-square rounded-2xl border border-gold/30 bg-tint/5 flex items-center justify-center touch-none"
+              onPointerDown={e => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                dragRef.current = { x: e.clientX, y: e.clientY, dx: 0, dy: 0, sentAt: 0 };
+              }}
+              onPointerMove={e => {
+                const drag = dragRef.current;
+                if (!drag) return;
+                drag.dx += e.clientX - drag.x;
+                drag.dy += e.clientY - drag.y;
+                drag.x = e.clientX;
+                drag.y = e.clientY;
+                flushRotation(false);
+              }}
+              onPointerUp={() => {
+                flushRotation(true);
+                dragRef.current = null;
+              }}
+              onPointerCancel={() => { dragRef.current = null; }}
+            >
+              <span className="text-gold/50 text-[10px] tracking-[0.2em] uppercase">{t('remote.drag')}</span>
+            </div>
+
+            <div className="flex flex-col gap-3 w-full max-w-[320px]">
+              <label className={`${buttonClass} cursor-pointer ${sending ? 'opacity-50 pointer-events-none' : ''}`}>
+                {sending ? t('remote.sending') : t('remote.sendPhoto')}
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="sr-only"
+                  onChange={e => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) handlePhoto(file);
+                  }}
+                />
+              </label>
+              <button onClick={() => send('TOGGLE_UI')} className={buttonClass}>
+                {shared.uiVisible ? t('remote.hideUi') : t('remote.showUi')}
+              </button>
+            </div>
+          </>
+        ) : (
+          <p className="text-gold/60 text-[10px] tracking-[0.2em] uppercase animate-pulse mt-10">{t('remote.waiting')}</p>
+        )}
+
+        <a href={location.pathname} className="mt-auto text-gold/40 text-[9px] tracking-[0.1em] underline underline-offset-4 uppercase">{t('room.leave')}</a>
+      </div>
+    </I18nContext.Provider>
+  );
+};
+
+export default RemoteControl;
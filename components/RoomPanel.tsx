@@ -0,0 +1,98 @@
+
+import React, { useMemo, useState } from 'react';
+import qrcode from 'qrcode-generator';
+import { ROOM_CODE_LENGTH, RelayStatus, buildJoinUrl, loadRelayUrl, normalizeRoomCode, saveRelayUrl } from '../services/room';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './i18n';
+
+interface RoomPanelProps {
+  // 当前所在房间，未加入时为 null
+  code: string | null;
+  relayUrl: string | null;
+  relayStatus: RelayStatus;
+  onHost: (relayUrl: string | null) => void;
+  onJoin: (code: string, relayUrl: string | null) => void;
+  onLeave: () => void;
+  onClose: () => void;
+}
+
+const qrDataUrl = (text: string) => {
+  const qr = qrcode(0, 'M');
+  qr.addData(text);
+  qr.make();
+  return qr.createDataURL(6, 2);
+};
+
+const fieldClass = 'bg-black border border-gold/40 rounded px-2 py-2 text-cream text-[11px] outline-none focus:border-gold';
+const headingClass = 'text-gold/70 text-[10px] tracking-[0.25em] uppercase';
+
+const RoomPanel: React.FC<RoomPanelProps> = ({ code, relayUrl, relayStatus, onHost, onJoin, onLeave, onClose }) => {
+  const { t } = useI18n();
+  const [relayInput, setRelayInput] = useState(loadRelayUrl);
+  const [joinCode, setJoinCode] = useState('');
+  const joinUrl = code ? buildJoinUrl(code, relayUrl) : null;
+  const qr = useMemo(() => (joinUrl ? qrDataUrl(joinUrl) : null), [joinUrl]);
+
+  const relay = () => {
+    const value = relayInput.trim();
+    saveRelayUrl(value);
+    return value || null;
+  };
+  const codeComplete = joinCode.length === ROOM_CODE_LENGTH;
+  const buttonClass = 'glass-button px-4 py-2 rounded-full text-cream text-[10px] tracking-[0.2em] uppercase disabled:opacity-30';
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-panel/60 pointer-events-auto" onClick={onClose}>
+      <div className="w-full max-w-[360px] max-h-[90vh] overflow-y-auto p-6 rounded-2xl bg-panel/85 backdrop-blur-xl border border-gold/30" role="dialog" aria-modal="true" aria-label={t('room.title')} onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <h2 className="text-gold font-['Cinzel'] tracking-[0.3em] text-[12px] uppercase">{t('room.title')}</h2>
+          <button autoFocus onClick={onClose} className="text-gold/70 text-[11px] tracking-[0.2em] uppercase">{t('common.close')}</button>
+        </div>
+
+        {code && joinUrl ? (
+          <div className="flex flex-col items-center gap-4">
+            <p className="text-cream font-['Cinzel'] text-[32px] tracking-[0.4em] pl-[0.4em]">{code}</p>
+            {qr && <img src={qr} alt="" className="w-[180px] h-[180px] rounded-lg [image-rendering:pixelated]" />}
+            <p className="text-gold/60 text-[9px] tracking-[0.15em] uppercase text-center">{t('room.scan')}</p>
+            <p className="text-gold/40 text-[9px] tracking-[0.1em] uppercase text-center">
+              {t(`room.status.${relayStatus}` as MessageKey)}
+            </p>
+            <button onClick={onLeave} className={buttonClass}>{t('room.leave')}</button>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-3">
+            <p className="text-cream/70 text-[11px] leading-relaxed">{t('room.intro')}</p>
+            <p className={`${headingClass} mt-2`}>{t('room.relay')}</p>
+            <input
+              value={relayInput}
+              onChange={e => setRelayInput(e.target.value)}
+              placeholder="ws://192.168.1.10:8787"
+              className={fieldClass}
+            />
+            <p className="text-gold/40 text-[9px] tracking-[0.1em]">{t('room.relayHint')}</p>
+
+            <button onClick={() => onHost(relay())} className={`w-full ${buttonClass} py-3 mt-2`}>{t('room.host')}</button>
+
+            <p className={`${headingClass} mt-3`}>{t('room.join')}</p>
+            <input
+              value={joinCode}
+              onChange={e => setJoinCode(normalizeRoomCode(e.target.value))}
+              placeholder={t('room.code')}
+              className={`${fieldClass} text-center tracking-[0.4em] uppercase`}
+            />
+            <div className="flex justify-center gap-2">
+              <button disabled={!codeComplete} onClick={() => onJoin(joinCode, relay())} className={buttonClass}>
+                {t('room.joinDisplay')}
+              </button>
+              <button disabled={!codeComplete} onClick={() => location.assign(buildJoinUrl(joinCode, relay()))} className={buttonClass}>
+                {t('room.joinRemote')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoomPanel;
@@ -0,0 +1,108 @@
+
+import React, { useEffect, useState } from 'react';
+import ReplayTracker from '../services/handSession';
+import { useI18n } from './i18n';
+
+interface SessionControlsProps {
+  canRecord: boolean;
+  recording: boolean;
+  replay: ReplayTracker | null;
+  onRecordToggle: () => void;
+  onLoad: (file: File) => void;
+  onEject: () => void;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2];
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const SessionControls: React.FC<SessionControlsProps> = ({ canRecord, recording, replay, onRecordToggle, onLoad, onEject, onClose }) => {
+  const { t } = useI18n();
+  // 回放进度保存在 ReplayTracker 内部，这里定时刷新显示
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    if (!replay) return;
+    const id = setInterval(() => setTick(n => n + 1), 200);
+    return () => clearInterval(id);
+  }, [replay]);
+
+  const buttonClass = 'glass-button px-4 py-2 rounded-full text-cream text-[10px] tracking-[0.2em] uppercase';
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-panel/60 pointer-events-auto" onClick={onClose}>
+      <div className="w-full max-w-[340px] p-6 rounded-2xl bg-panel/85 backdrop-blur-xl border border-gold/30" role="dialog" aria-modal="true" aria-label={t('sessions.title')} onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <h2 className="text-gold font-['Cinzel'] tracking-[0.3em] text-[12px] uppercase">{t('sessions.title')}</h2>
+          <button autoFocus onClick={onClose} className="text-gold/70 text-[11px] tracking-[0.2em] uppercase">{t('common.close')}</button>
+        </div>
+
+        <button
+          onClick={onRecordToggle}
+          disabled={!canRecord && !recording}
+          className={`w-full ${buttonClass} py-3 disabled:opacity-30 ${recording ? 'bg-[#9b111e]/40 border-[#9b111e] animate-pulse' : ''}`}
+        >
+          {recording ? t('sessions.stop') : t('sessions.record')}
+        </button>
+        {!canRecord && !recording && (
+          <p className="mt-2 text-gold/40 text-[9px] tracking-[0.1em] uppercase text-center">{t('sessions.needsCamera')}</p>
+        )}
+
+        <div className="h-[1px] my-5 bg-tint/20"></div>
+
+        {replay ? (
+          <div className="flex flex-col gap-4">
+            <div className="h-1 rounded-full bg-tint/20 overflow-hidden">
+              <div className="h-full bg-gold" style={{ width: `${replay.duration ? (replay.time / replay.duration) * 100 : 0}%` }}></div>
+            </div>
+            <p className="text-cream/70 text-[10px] tracking-[0.15em] text-center">
+              {formatTime(replay.time)} / {formatTime(replay.duration)}
+            </p>
+            <div className="flex justify-center gap-2">
+              <button onClick={() => (replay.playing ? replay.pause() : replay.play())} className={buttonClass}>
+                {replay.playing ? t('sessions.pause') : t('sessions.play')}
+              </button>
+              <button onClick={() => replay.seek(0)} className={buttonClass}>{t('sessions.restart')}</button>
+              <button
+                onClick={() => { replay.loop = !replay.loop; setTick(n => n + 1); }}
+                aria-pressed={replay.loop}
+                className={`${buttonClass} ${replay.loop ? 'bg-tint/20 border-gold' : 'text-gold/70'}`}
+              >
+                {t('sessions.loop')}
+              </button>
+            </div>
+            <div className="flex justify-center gap-2">
+              {SPEEDS.map(speed => (
+                <button
+                  key={speed}
+                  onClick={() => { replay.speed = speed; setTick(n => n + 1); }}
+                  aria-pressed={replay.speed === speed}
+                  className={`${buttonClass} ${replay.speed === speed ? 'bg-tint/20 border-gold' : 'text-gold/70'}`}
+                >
+                  {speed}×
+                </button>
+              ))}
+            </div>
+            <button onClick={onEject} className="text-gold/60 text-[10px] tracking-[0.2em] uppercase">{t('sessions.eject')}</button>
+          </div>
+        ) : (
+          <label className={`block text-center cursor-pointer ${buttonClass} py-3`}>
+            {t('sessions.load')}
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="sr-only"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) onLoad(file);
+              }}
+            />
+          </label>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionControls;
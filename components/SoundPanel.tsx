@@ -0,0 +1,97 @@
+
+import React from 'react';
+import { AudioSettings, MusicSource } from '../services/audio';
+import { AMBIENT_TRACKS } from '../services/ambientTracks';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './i18n';
+
+interface SoundPanelProps {
+  settings: AudioSettings;
+  // 浏览器在用户首次交互前不允许播放声音
+  unlocked: boolean;
+  fileName: string | null;
+  onChange: (settings: AudioSettings) => void;
+  onFileSelect: (file: File) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'flex items-center justify-between gap-4 text-cream text-[11px] tracking-[0.15em] uppercase';
+const headingClass = 'text-gold/70 text-[10px] tracking-[0.25em] uppercase';
+
+const SoundPanel: React.FC<SoundPanelProps> = ({ settings, unlocked, fileName, onChange, onFileSelect, onClose }) => {
+  const { t } = useI18n();
+  const update = (patch: Partial<AudioSettings>) => onChange({ ...settings, ...patch });
+
+  const buttonClass = 'glass-button px-3 py-2 rounded-full text-cream text-[9px] tracking-[0.2em] uppercase';
+  const optionClass = (music: MusicSource) =>
+    `${buttonClass} ${settings.music === music ? 'bg-tint/20 border-gold' : 'text-gold/70'}`;
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-panel/60 pointer-events-auto" onClick={onClose}>
+      <div className="w-full max-w-[360px] max-h-[90vh] overflow-y-auto p-6 rounded-2xl bg-panel/85 backdrop-blur-xl border border-gold/30" role="dialog" aria-modal="true" aria-label={t('sound.title')} onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <h2 className="text-gold font-['Cinzel'] tracking-[0.3em] text-[12px] uppercase">{t('sound.title')}</h2>
+          <button autoFocus onClick={onClose} className="text-gold/70 text-[11px] tracking-[0.2em] uppercase">{t('common.close')}</button>
+        </div>
+
+        {!unlocked && (
+          <p className="mb-4 text-gold/40 text-[9px] tracking-[0.1em] uppercase text-center">{t('sound.locked')}</p>
+        )}
+
+        <div className="flex flex-col gap-3">
+          <p className={headingClass}>{t('sound.music')}</p>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => update({ music: 'OFF' })} aria-pressed={settings.music === 'OFF'} className={optionClass('OFF')}>{t('sound.off')}</button>
+            {AMBIENT_TRACKS.map(track => (
+              <button key={track.id} onClick={() => update({ music: track.id })} aria-pressed={settings.music === track.id} className={optionClass(track.id)}>
+                {t(`sound.track.${track.id}` as MessageKey)}
+              </button>
+            ))}
+            {fileName && (
+              <button onClick={() => update({ music: 'FILE' })} aria-pressed={settings.music === 'FILE'} className={`${optionClass('FILE')} max-w-full truncate normal-case`}>
+                {fileName}
+              </button>
+            )}
+          </div>
+          <label className={`block text-center cursor-pointer ${buttonClass}`}>
+            {t('sound.upload')}
+            <input
+              type="file"
+              accept="audio/*"
+              className="sr-only"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) onFileSelect(file);
+              }}
+            />
+          </label>
+
+          <p className={`${headingClass} mt-3`}>{t('sound.output')}</p>
+          <label className={labelClass}>
+            {t('sound.volume')}
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.volume}
+              onChange={e => update({ volume: Number(e.target.value) })}
+              className="w-[140px] accent-gold"
+            />
+          </label>
+          <label className={labelClass}>
+            {t('sound.cues')}
+            <input type="checkbox" checked={settings.cues} onChange={e => update({ cues: e.target.checked })} className="accent-gold" />
+          </label>
+          <label className={labelClass}>
+            {t('sound.mute')}
+            <input type="checkbox" checked={settings.muted} onChange={e => update({ muted: e.target.checked })} className="accent-gold" />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SoundPanel;
@@ -0,0 +1,41 @@
+
+import React from 'react';
+import { SceneStats } from '../scene/quality';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './i18n';
+
+interface StatsOverlayProps {
+  stats: SceneStats | null;
+}
+
+const megabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const StatsOverlay: React.FC<StatsOverlayProps> = ({ stats }) => {
+  const { t } = useI18n();
+  if (!stats) return null;
+
+  const rows: [MessageKey, string][] = [
+    ['stats.fps', `${stats.fps.toFixed(0)} (${stats.frameMs.toFixed(1)} ms)`],
+    ['stats.drawCalls', stats.drawCalls.toLocaleString()],
+    ['stats.particles', `${stats.particles.toLocaleString()} · ${megabytes(stats.particleBytes)}`],
+    ['stats.textures', `${stats.textures} · ${megabytes(stats.textureBytes)}`],
+    ['stats.tier', `${t(`quality.tier.${stats.tier}` as MessageKey)}${stats.auto ? ` (${t('quality.tier.AUTO')})` : ''}`]
+  ];
+
+  return (
+    <div className="fixed top-20 right-6 z-[55] px-3 py-2 rounded-lg bg-panel/70 border border-gold/20 pointer-events-none">
+      <table className="text-[10px] tabular-nums text-cream">
+        <tbody>
+          {rows.map(([label, value]) => (
+            <tr key={label}>
+              <td className="pr-3 text-gold/70 uppercase tracking-[0.1em]">{t(label)}</td>
+              <td className="text-right">{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default StatsOverlay;
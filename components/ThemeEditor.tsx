@@ -0,0 +1,122 @@
+
+import React from 'react';
+import { Palette, StarShape, Theme, ThemeFont } from '../types';
+import { STAR_SHAPES, THEME_FONTS, THEME_LIMITS, THEME_PRESETS } from '../services/theme';
+import { MAX_GREETING_LENGTH } from '../services/bundle';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './i18n';
+
+interface ThemeEditorProps {
+  theme: Theme;
+  onChange: (theme: Theme) => void;
+  onClose: () => void;
+}
+
+const PALETTE_LABELS: Record<keyof Palette, MessageKey> = { gold: 'theme.accent', emerald: 'theme.tree', ruby: 'theme.ornament' };
+
+const SLIDERS: { key: keyof typeof THEME_LIMITS; label: MessageKey; step: number }[] = [
+  { key: 'metalness', label: 'theme.metalness', step: 0.05 },
+  { key: 'roughness', label: 'theme.roughness', step: 0.05 },
+  { key: 'bloom', label: 'theme.glow', step: 0.05 },
+  { key: 'snow', label: 'theme.snow', step: 0.1 }
+];
+
+const labelClass = 'flex items-center justify-between gap-4 text-cream text-[11px] tracking-[0.15em] uppercase';
+const fieldClass = 'bg-black border border-gold/40 rounded px-2 py-1 text-cream text-[11px] outline-none focus:border-gold';
+const headingClass = 'text-gold/70 text-[10px] tracking-[0.25em] uppercase';
+
+const ThemeEditor: React.FC<ThemeEditorProps> = ({ theme, onChange, onClose }) => {
+  const { t } = useI18n();
+  const update = (patch: Partial<Theme>) => onChange({ ...theme, ...patch });
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-panel/60 pointer-events-auto" onClick={onClose}>
+      <div className="w-full max-w-[360px] max-h-[90vh] overflow-y-auto p-6 rounded-2xl bg-panel/85 backdrop-blur-xl border border-gold/30" role="dialog" aria-modal="true" aria-label={t('theme.title')} onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <h2 className="text-gold font-['Cinzel'] tracking-[0.3em] text-[12px] uppercase">{t('theme.title')}</h2>
+          <button autoFocus onClick={onClose} className="text-gold/70 text-[11px] tracking-[0.2em] uppercase">{t('common.close')}</button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          {THEME_PRESETS.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => onChange({ ...preset.theme, greeting: preset.greetingKey ? t(preset.greetingKey) : preset.theme.greeting })}
+              className="glass-button px-3 py-2 rounded-full text-cream text-[9px] tracking-[0.2em] uppercase"
+            >
+              {t(preset.label)}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <p className={headingClass}>{t('theme.greeting')}</p>
+          <textarea
+            value={theme.greeting}
+            maxLength={MAX_GREETING_LENGTH}
+            rows={2}
+            placeholder={t('greeting.default')}
+            onChange={e => update({ greeting: e.target.value })}
+            className={`${fieldClass} resize-none text-[13px] normal-case`}
+          />
+          <p className="text-gold/40 text-[9px] tracking-[0.1em]">{t('theme.greetingHint')}</p>
+          <label className={labelClass}>
+            {t('theme.font')}
+            <select value={theme.font} onChange={e => update({ font: e.target.value as ThemeFont })} className={fieldClass}>
+              {(Object.keys(THEME_FONTS) as ThemeFont[]).map(font => (
+                <option key={font} value={font}>{THEME_FONTS[font].label}</option>
+              ))}
+            </select>
+          </label>
+
+          <p className={`${headingClass} mt-3`}>{t('theme.colors')}</p>
+          {(Object.keys(PALETTE_LABELS) as (keyof Palette)[]).map(key => (
+            <label key={key} className={labelClass}>
+              {t(PALETTE_LABELS[key])}
+              <input
+                type="color"
+                value={theme.palette[key]}
+                onChange={e => update({ palette: { ...theme.palette, [key]: e.target.value } })}
+                className="w-10 h-6 bg-transparent border-0 cursor-pointer"
+              />
+            </label>
+          ))}
+          <label className={labelClass}>
+            {t('theme.light')}
+            <input type="color" value={theme.light} onChange={e => update({ light: e.target.value })} className="w-10 h-6 bg-transparent border-0 cursor-pointer" />
+          </label>
+          <label className={labelClass}>
+            {t('theme.floor')}
+            <input type="color" value={theme.floor} onChange={e => update({ floor: e.target.value })} className="w-10 h-6 bg-transparent border-0 cursor-pointer" />
+          </label>
+
+          <p className={`${headingClass} mt-3`}>{t('theme.scene')}</p>
+          <label className={labelClass}>
+            {t('theme.topper')}
+            <select value={theme.star} onChange={e => update({ star: e.target.value as StarShape })} className={fieldClass}>
+              {STAR_SHAPES.map(shape => (
+                <option key={shape} value={shape}>{t(`star.${shape}` as MessageKey)}</option>
+              ))}
+            </select>
+          </label>
+          {SLIDERS.map(({ key, label, step }) => (
+            <label key={key} className={labelClass}>
+              {t(label)}
+              <input
+                type="range"
+                min={THEME_LIMITS[key][0]}
+                max={THEME_LIMITS[key][1]}
+                step={step}
+                value={theme[key]}
+                onChange={e => update({ [key]: Number(e.target.value) })}
+                className="w-[140px] accent-gold"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThemeEditor;
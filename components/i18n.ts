@@ -0,0 +1,29 @@
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale, Translate, createTranslator, detectLocale, saveLocale } from '../services/i18n';
+
+export interface I18n {
+  locale: Locale;
+  t: Translate;
+  setLocale: (locale: Locale) => void;
+}
+
+export const I18nContext = createContext<I18n>({ locale: 'en', t: createTranslator('en'), setLocale: () => {} });
+
+export const useI18n = () => useContext(I18nContext);
+
+// 由根组件持有当前语言，通过 I18nContext 提供给子组件；切换时保存选择并同步 <html lang>
+export const useLocaleState = (): I18n => {
+  const [locale, setLocale] = useState<Locale>(detectLocale);
+  const t = useMemo(() => createTranslator(locale), [locale]);
+  const changeLocale = useCallback((next: Locale) => {
+    setLocale(next);
+    saveLocale(next);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return useMemo(() => ({ locale, t, setLocale: changeLocale }), [locale, t, changeLocale]);
+};
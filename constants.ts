@@ -0,0 +1,10 @@
+import { Palette } from './types';
+
+// FOCUS 自动播放时每张照片停留的时间
+export const FOCUS_SLIDE_MS = 7000;
+
+export const DEFAULT_PALETTE: Palette = {
+  gold: '#d4af37',
+  emerald: '#014421',
+  ruby: '#9b111e'
+};
@@ -0,0 +1,14 @@
+// <magic-tree> 的独立入口：导入即注册自定义元素，不依赖 React
+import { defineMagicTree } from './magicTreeElement';
+
+defineMagicTree();
+
+export { default as MagicTreeElement, defineMagicTree } from './magicTreeElement';
+export { default as TreeEngine } from '../scene/treeEngine';
+export type { AudioSource, TreeEngineEventMap, TreeEngineOptions } from '../scene/treeEngine';
+export type { QualitySetting, QualityTier, SceneStats } from '../scene/quality';
+export type { SceneTarget } from '../scene/picking';
+export { listFormations, registerFormation } from '../scene/formations';
+export type { Formation, FormationContext, FormationLayout, ParticleTargets } from '../scene/formations';
+export { AppMode } from '../types';
+export type { DecorationLayout, DecorationModel, HandData, MemoryPhoto, Theme } from '../types';
@@ -0,0 +1,176 @@
+import { AppMode, HandData, MemoryPhoto, Theme } from '../types';
+import TreeEngine from '../scene/treeEngine';
+import { QUALITY_TIERS, QualitySetting } from '../scene/quality';
+import { DEFAULT_THEME } from '../services/theme';
+import { applyInputAction, isMode } from '../services/input';
+
+const TAG_NAME = 'magic-tree';
+
+const STYLE = `
+  :host { display: block; position: relative; height: 480px; background: #000; touch-action: none; outline: none; }
+  div { width: 100%; height: 100%; }
+`;
+
+const isQuality = (value: string): value is QualitySetting =>
+  value === 'AUTO' || (QUALITY_TIERS as string[]).includes(value);
+
+/**
+ * `<magic-tree>`: the particle tree as a custom element. Attributes `mode`,
+ * `formation`, `quality`, `formation-text` and `greeting` cover declarative
+ * use; the methods mirror TreeEngine. The engine exists only while the
+ * element is connected, and the element keeps its state across reconnects.
+ * Engine events are re-dispatched as DOM events; `action` and `select` are
+ * cancelable, and unless a listener calls preventDefault() the element
+ * applies the action to its own mode, or focuses the selected photo.
+ */
+export default class MagicTreeElement extends HTMLElement {
+  static observedAttributes = ['mode', 'formation', 'quality', 'formation-text', 'greeting'];
+
+  private container: HTMLDivElement;
+  private current: TreeEngine | null = null;
+  private state = { mode: AppMode.TREE, focusIndex: 0, uiVisible: true };
+  private treePhotos: MemoryPhoto[] = [];
+  private treeTheme: Theme = DEFAULT_THEME;
+  private formation: string | null = null;
+  private formationText = '';
+  private quality: QualitySetting = 'AUTO';
+  private handData: HandData | null = null;
+
+  constructor() {
+    super();
+    const root = this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = STYLE;
+    this.container = document.createElement('div');
+    root.append(style, this.container);
+  }
+
+  get engine() {
+    return this.current;
+  }
+
+  get mode() {
+    return this.state.mode;
+  }
+
+  get photos() {
+    return this.treePhotos;
+  }
+
+  set photos(photos: MemoryPhoto[]) {
+    this.treePhotos = photos;
+    this.current?.setPhotos(photos);
+  }
+
+  get theme() {
+    return this.treeTheme;
+  }
+
+  set theme(theme: Theme) {
+    this.treeTheme = theme;
+    this.current?.setTheme(theme);
+  }
+
+  connectedCallback() {
+    // 可聚焦后键盘快捷键只在树获得焦点时生效
+    if (!this.hasAttribute('tabindex')) this.tabIndex = 0;
+    const engine = new TreeEngine(this.container, {
+      mode: this.state.mode,
+      theme: this.treeTheme,
+      photos: this.treePhotos,
+      formation: this.formation,
+      formationText: this.formationText,
+      focusIndex: this.state.focusIndex,
+      quality: this.quality,
+      keyTarget: this
+    });
+    engine.setHandData(this.handData);
+    engine.on('ready', () => this.dispatchEvent(new CustomEvent('ready')));
+    engine.on('qualitychange', tier => this.dispatchEvent(new CustomEvent('qualitychange', { detail: tier })));
+    engine.on('dispose', () => this.dispatchEvent(new CustomEvent('dispose')));
+    engine.on('action', action => {
+      if (!this.dispatchEvent(new CustomEvent('action', { detail: action, cancelable: true }))) return;
+      this.applyState(applyInputAction(this.state, action));
+    });
+    engine.on('hover', target => this.dispatchEvent(new CustomEvent('hover', { detail: target })));
+    engine.on('select', target => {
+      if (!this.dispatchEvent(new CustomEvent('select', { detail: target, cancelable: true }))) return;
+      if (target.kind === 'PHOTO') this.applyState({ ...this.state, mode: AppMode.FOCUS, focusIndex: target.index });
+    });
+    this.current = engine;
+  }
+
+  disconnectedCallback() {
+    this.current?.dispose();
+    this.current = null;
+  }
+
+  attributeChangedCallback(name: string, _previous: string | null, value: string | null) {
+    switch (name) {
+      case 'mode': {
+        const mode = value?.toUpperCase() ?? AppMode.TREE;
+        if (isMode(mode)) this.setMode(mode);
+        break;
+      }
+      // 已注册造型的 id；移除属性后回到 mode 对应的造型
+      case 'formation':
+        this.formation = value || null;
+        this.current?.setFormation(this.formation);
+        break;
+      case 'quality': {
+        const quality = value?.toUpperCase() ?? 'AUTO';
+        if (!isQuality(quality)) break;
+        this.quality = quality;
+        this.current?.setQuality(quality);
+        break;
+      }
+      case 'formation-text':
+        this.formationText = value ?? '';
+        this.current?.setFormationText(this.formationText);
+        break;
+      case 'greeting':
+        this.theme = { ...this.treeTheme, greeting: value ?? '' };
+        break;
+    }
+  }
+
+  setMode(mode: AppMode) {
+    this.applyState({ ...this.state, mode });
+  }
+
+  // 传入网址时生成 id；返回照片 id，供 removePhoto 使用
+  addPhoto(photo: MemoryPhoto | string) {
+    const entry = typeof photo === 'string'
+      ? { id: crypto.randomUUID(), src: photo, caption: '', createdAt: Date.now() }
+      : photo;
+    const exists = this.treePhotos.some(p => p.id === entry.id);
+    this.photos = exists ? this.treePhotos.map(p => (p.id === entry.id ? entry : p)) : [...this.treePhotos, entry];
+    return entry.id;
+  }
+
+  removePhoto(id: string) {
+    this.photos = this.treePhotos.filter(p => p.id !== id);
+  }
+
+  // 外部手部追踪的结果，x、y 为 0–1 的画面坐标
+  setHandData(handData: HandData | null) {
+    this.handData = handData;
+    this.current?.setHandData(handData);
+  }
+
+  private applyState(state: typeof this.state) {
+    this.state = state;
+    this.current?.setMode(state.mode);
+    this.current?.setFocusIndex(state.focusIndex);
+  }
+}
+
+export const defineMagicTree = () => {
+  if (!customElements.get(TAG_NAME)) customElements.define(TAG_NAME, MagicTreeElement);
+};
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'magic-tree': MagicTreeElement;
+  }
+}
@@ -0,0 +1,9 @@
+// React 入口：React 与 ReactDOM 由宿主应用提供
+export { default as MagicTree } from '../components/ThreeScene';
+export { default as TreeEngine } from '../scene/treeEngine';
+export type { AudioSource, TreeEngineEventMap, TreeEngineOptions } from '../scene/treeEngine';
+export type { QualitySetting, QualityTier, SceneStats } from '../scene/quality';
+export { listFormations, registerFormation } from '../scene/formations';
+export type { Formation, FormationContext, FormationLayout, ParticleTargets } from '../scene/formations';
+export { AppMode } from '../types';
+export type { DecorationLayout, DecorationModel, HandData, MemoryPhoto, Theme } from '../types';
@@ -2,15 +2,27 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import RemoteControl from './components/RemoteControl';
+import { readRoomParams } from './services/room';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// 扫码加入房间的手机只显示遥控界面，不渲染 3D 场景
+const roomParams = readRoomParams();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {roomParams?.role === 'remote' ? <RemoteControl code={roomParams.code} relayUrl={roomParams.relayUrl} /> : <App />}
   </React.StrictMode>
 );
+
+// 仅在生产构建中注册，避免开发服务器的模块请求被缓存
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('./sw.js').catch(err => console.error("Service worker registration failed:", err));
+  });
+}
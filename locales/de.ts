@@ -0,0 +1,312 @@
+import { Messages } from './en';
+
+const de: Partial<Messages> = {
+  'common.close': 'Schließen',
+  'common.stop': 'Stopp',
+  'language.label': 'Sprache',
+
+  'greeting.default': 'Frohe Weihnachten',
+  'share.title': 'Weihnachtszauber',
+  'share.text': 'Schau dir meinen interaktiven 3D-Weihnachtsbaum an. Du kannst ihn mit Handgesten steuern!',
+
+  'app.loading': 'Festtagszauber wird vorbereitet',
+  'app.addMemory': 'Erinnerung hinzufügen',
+  'app.addingPhotos': 'Wird hinzugefügt {done}/{total}',
+  'app.dropPhotos': 'Fotos hier ablegen, um sie an den Baum zu hängen',
+  'app.enableHandMagic': 'Handzauber aktivieren',
+  'app.gestureHint': 'Steuere den Baum mit Gesten',
+  'app.manualHint': 'Ziehen zum Drehen · Scrollen zum Zoomen · 1–{count} Formen · ← → Fotos',
+  'app.modelFromCache': 'Modell aus dem Offline-Cache geladen',
+  'app.modelFromNetwork': 'Modell aus dem Netz geladen',
+  'app.customizeGestures': 'Gesten anpassen',
+  'app.sound': 'Ton',
+  'app.quality': 'Qualität',
+  'app.room': 'Raum',
+  'app.showCamera': 'Kamera anzeigen',
+  'app.hideCamera': 'Kamera ausblenden',
+  'app.roomCode': 'Raum {code}',
+  'app.recordReplay': 'Aufnehmen / Abspielen',
+  'app.recording': 'Aufnahme läuft…',
+  'app.replaying': 'Aufnahme wird abgespielt',
+  'app.tapToCycle': 'Tippen zum Wechseln der Form',
+  'app.decorate': 'Schmücken',
+
+  'vision.runtime': 'Laufzeit wird geladen',
+  'vision.model': 'Modell wird geladen{percent} · {source}',
+  'vision.cache': 'Cache',
+  'vision.network': 'Netz',
+  'vision.camera': 'Kamera startet',
+  'vision.ready': 'Zauber aktiv',
+
+  'alert.cameraFailed': 'Bitte öffne die Seite über HTTPS und erlaube den Kamerazugriff.',
+  'alert.sharedLinkInvalid': 'Dieser geteilte Link ist ungültig, daher wurde der Standardbaum geladen: {error}',
+  'alert.linkCopied': 'Link in die Zwischenablage kopiert. Teile ihn mit deinen Freunden!',
+  'alert.importConfirm': 'Der Import ersetzt deine {count} aktuellen Fotos. Fortfahren?',
+  'alert.importFailed': 'Import fehlgeschlagen: {error}',
+  'alert.importFailedGeneric': 'Import fehlgeschlagen. Bitte versuche es später erneut.',
+  'alert.sessionFailed': 'Aufnahme konnte nicht geladen werden: {error}',
+  'alert.sessionFailedGeneric': 'Aufnahme konnte nicht geladen werden. Bitte versuche es später erneut.',
+  'alert.captureFailed': 'Aufnahme fehlgeschlagen. Bitte versuche es erneut.',
+  'alert.photoSendFailed': 'Das Foto konnte nicht gesendet werden. Bitte versuche es erneut.',
+  'alert.photosRejected': '{count} Datei(en) konnten nicht hinzugefügt werden:\n{list}',
+  'alert.modelRejected': '{name} konnte nicht importiert werden: {error}',
+  'alert.modelRejectedGeneric': '{name} konnte nicht importiert werden. Bitte versuche es später erneut.',
+  'alert.decorationsFull': 'Der Baum trägt höchstens {max} Dekorationen. Entferne zuerst eine.',
+
+  'bundle.error.invalidJson': 'Diese Datei ist kein Baum-Paket (ungültiges JSON).',
+  'bundle.error.notBundle': 'Diese Datei ist kein Baum-Paket.',
+  'bundle.error.newerVersion': 'Dieses Paket wurde mit einer neueren Version der App erstellt.',
+  'bundle.error.photosMissing': 'Im Paket fehlen die Fotos.',
+  'bundle.error.tooManyPhotos': 'Das Paket enthält {count} Fotos; erlaubt sind höchstens {max}.',
+  'bundle.error.photoFormat': 'Foto {index} ist kein PNG-, JPEG-, WebP- oder GIF-Bild.',
+  'bundle.error.photoTooLarge': 'Foto {index} ist größer als {max} MB.',
+  'bundle.error.unknownMode': 'Unbekannter Modus „{mode}“.',
+  'bundle.error.greetingNotText': 'Der Gruß muss Text sein.',
+  'bundle.error.greetingTooLong': 'Der Gruß ist länger als {max} Zeichen.',
+  'bundle.error.paletteMissing': 'Die Farbpalette fehlt.',
+  'bundle.error.paletteColor': 'Die Palettenfarbe „{color}“ muss ein Hex-Wert wie #d4af37 sein.',
+  'bundle.error.tooLarge': 'Das Paket ist größer als {max} MB.',
+  'bundle.error.linkTooLong': 'Der geteilte Link ist zu lang.',
+  'bundle.error.linkDamaged': 'Der geteilte Link ist beschädigt oder unvollständig.',
+
+  'session.error.invalidJson': 'Diese Datei ist keine Handaufnahme (ungültiges JSON).',
+  'session.error.notSession': 'Diese Datei ist keine Handaufnahme.',
+  'session.error.newerVersion': 'Diese Aufnahme wurde mit einer neueren Version der App erstellt.',
+  'session.error.noFrames': 'Diese Aufnahme enthält keine Frames.',
+  'session.error.frameTimestamp': 'Frame {frame} hat einen ungültigen Zeitstempel.',
+  'session.error.frameLandmarks': 'Frame {frame} hat ungültige Landmarken.',
+  'session.error.frameHand': 'Frame {frame} hat ungültige Handdaten.',
+
+  'photo.error.heic': 'HEIC-Fotos werden nicht unterstützt; exportiere sie zuerst als JPEG.',
+  'photo.error.unsupportedType': '{type} ist kein unterstütztes Bildformat (verwende JPEG, PNG, WebP, GIF oder AVIF).',
+  'photo.error.notImage': 'Diese Datei ist kein erkanntes Bild.',
+  'photo.error.tooLarge': 'Die Datei ist größer als {max} MB.',
+  'photo.error.undecodable': 'Das Bild konnte nicht dekodiert werden; die Datei ist möglicherweise beschädigt.',
+  'photo.error.failed': 'Das Foto konnte nicht hinzugefügt werden.',
+
+  'model.error.unsupportedType': 'Nur glTF-Modelle (.glb oder .gltf) können importiert werden.',
+  'model.error.tooLarge': 'Die Datei ist größer als {max} MB.',
+  'model.error.invalidGlb': 'Diese Datei ist kein gültiges GLB-Modell.',
+  'model.error.invalidGltf': 'Diese Datei ist kein gültiges glTF.',
+  'model.error.externalFiles': 'Das Modell verweist auf separate Dateien; exportiere es stattdessen als einzelne .glb-Datei.',
+  'model.error.unreadable': 'Das Modell konnte nicht gelesen werden; komprimierte Modelle (Draco oder Meshopt) werden nicht unterstützt.',
+
+  'mode.TREE': 'Baum',
+  'mode.SCATTER': 'Verstreuen',
+  'mode.FOCUS': 'Fokus',
+  'mode.HEART': 'Herz',
+  'mode.STAR': 'Stern',
+  'mode.GALAXY': 'Galaxie',
+  'mode.WREATH': 'Kranz',
+  'mode.TEXT': 'Text',
+  'mode.ADVENT': 'Advent',
+  'formation.placeholder': 'Nachricht eingeben',
+  'formation.spell': 'Schreiben',
+
+  'gesture.FIST': 'Faust',
+  'gesture.OPEN': 'Offene Hand',
+  'gesture.PINCH': 'Zusammenkneifen',
+  'gesture.POINT': 'Zeigen',
+  'gesture.THUMBS_UP': 'Daumen hoch',
+  'gesture.SWIPE_LEFT': 'Nach links wischen',
+  'gesture.SWIPE_RIGHT': 'Nach rechts wischen',
+  'action.NONE': 'Nichts',
+  'action.NEXT_MODE': 'Nächste Form',
+  'action.PREV_MODE': 'Vorherige Form',
+  'action.TOGGLE_UI': 'Oberfläche ein/aus',
+  'gestures.title': 'Gesten',
+  'gestures.reset': 'Standard wiederherstellen',
+
+  'gallery.title': 'Erinnerungen ({count})',
+  'gallery.empty': 'Noch keine Erinnerungen',
+  'gallery.caption': 'Beschriftung',
+  'gallery.up': 'Hoch',
+  'gallery.down': 'Runter',
+  'gallery.replace': 'Ersetzen',
+  'gallery.delete': 'Löschen',
+  'gallery.export': 'Baum exportieren',
+  'gallery.import': 'Baum importieren',
+
+  'benchmark.title': 'Benchmark',
+  'benchmark.running': 'Bildzeit wird bei 1× – 10× Partikeln gemessen…',
+  'benchmark.scale': 'Faktor',
+  'benchmark.particles': 'Partikel',
+  'benchmark.frame': 'Bild',
+  'benchmark.cpu': 'CPU',
+
+  'sessions.title': 'Handaufnahmen',
+  'sessions.record': 'Live aufnehmen',
+  'sessions.stop': 'Stoppen & herunterladen',
+  'sessions.needsCamera': 'Zum Aufnehmen Handzauber aktivieren',
+  'sessions.play': 'Abspielen',
+  'sessions.pause': 'Pause',
+  'sessions.restart': 'Neustart',
+  'sessions.loop': 'Schleife',
+  'sessions.eject': 'Zurück zur Kamera',
+  'sessions.load': 'Aufnahme laden',
+
+  'focus.previous': 'Vorheriges Foto',
+  'focus.next': 'Nächstes Foto',
+  'focus.play': 'Diashow starten',
+  'focus.pause': 'Diashow anhalten',
+
+  'capture.title': 'Aufnahme',
+  'capture.clip': 'Videogruß',
+  'capture.withMusic': 'Musik einbeziehen',
+  'capture.record': 'Clip aufnehmen',
+  'capture.recording': 'Aufnahme {elapsed} / {total} s',
+  'capture.unsupported': 'Dieser Browser kann keine Videos aufnehmen',
+  'capture.snapshot': 'Schnappschuss',
+  'capture.takeSnapshot': 'Schnappschuss machen',
+  'capture.rendering': 'Wird gerendert…',
+  'capture.share': 'Teilen',
+  'capture.download': 'Herunterladen',
+  'capture.discard': 'Verwerfen',
+
+  'sound.title': 'Ton',
+  'sound.locked': 'Tippe irgendwo, um den Ton zu aktivieren',
+  'sound.music': 'Musik',
+  'sound.off': 'Aus',
+  'sound.track.MUSIC_BOX': 'Spieluhr',
+  'sound.track.SLEIGH_BELLS': 'Schlittenglocken',
+  'sound.track.WINTER_PAD': 'Winterklang',
+  'sound.upload': 'Musik hochladen',
+  'sound.output': 'Ausgabe',
+  'sound.volume': 'Lautstärke',
+  'sound.cues': 'Töne beim Formwechsel',
+  'sound.mute': 'Stumm',
+
+  'ornament.placeholder': 'Schreib eine Nachricht für diese Kugel…',
+
+  'camera.device': 'Kamera',
+  'camera.unnamed': 'Kamera {index}',
+  'camera.noHand': 'Keine Hand',
+  'camera.noGesture': 'Keine Geste',
+
+  'advent.day': 'Tag {day} von {total}',
+  'advent.before': 'Der Kalender öffnet am 1. Dezember',
+  'advent.daysLeft': 'Noch {count} Tage bis Weihnachten',
+  'advent.christmas': 'Frohe Weihnachten!',
+  'advent.nextDoor': 'Nächstes Türchen öffnet in {time}',
+  'advent.open': 'Heutiges Türchen öffnen',
+  'advent.preview': 'Vorschaudatum',
+  'advent.previewReset': 'Heute',
+
+  'a11y.title': 'Barrierefreiheit',
+  'a11y.motion': 'Bewegung',
+  'a11y.motion.SYSTEM': 'System',
+  'a11y.motion.REDUCED': 'Reduziert',
+  'a11y.motion.FULL': 'Voll',
+  'a11y.motionHint': 'Reduzierte Bewegung stoppt die automatische Drehung und das Kreiseln, dämpft das Funkeln und schaltet das Blitzen im Takt ab.',
+  'a11y.systemReduced': 'Dein System wünscht derzeit reduzierte Bewegung.',
+  'a11y.systemFull': 'Dein System erlaubt derzeit volle Bewegung.',
+  'a11y.highContrast': 'Hoher Kontrast',
+  'a11y.keyboardHint': 'Tab wechselt zwischen Bedienelementen, Esc schließt Fenster.',
+  'a11y.share': 'Teilen',
+  'a11y.theme': 'Design',
+  'a11y.capture': 'Aufnahme',
+  'a11y.mute': 'Stumm',
+  'a11y.unmute': 'Ton an',
+  'a11y.gallery': 'Fotogalerie',
+  'a11y.hideUi': 'Oberfläche ausblenden',
+  'a11y.showUi': 'Oberfläche einblenden',
+  'a11y.modeAnnouncement': 'Form: {mode}',
+  'a11y.photoAnnouncement': 'Foto {index} von {total}: {caption}',
+  'a11y.greetingCard': 'Grußkarte',
+  'a11y.untitled': 'Ohne Titel',
+
+  'decor.title': 'Schmücken',
+  'decor.done': 'Fertig',
+  'decor.hint': 'Klicke auf den Baum oder kneife die Finger darauf zusammen, um den gewählten Schmuck aufzuhängen. Wähle ein Teil aus und klicke an eine andere Stelle, um es zu verschieben; Entf entfernt es.',
+  'decor.count': '{count} von {max} aufgehängt',
+  'decor.palette': 'Schmuck',
+  'decor.kind.BELL': 'Glocke',
+  'decor.kind.CANDY_CANE': 'Zuckerstange',
+  'decor.kind.GIFT': 'Geschenk',
+  'decor.kind.LIGHT': 'Lämpchen',
+  'decor.models': 'Eigene Modelle',
+  'decor.import': 'glTF-Modell importieren',
+  'decor.importing': 'Importiere…',
+  'decor.removeModel': '{name} entfernen',
+  'decor.stringLights': 'Lichterkette',
+  'decor.topper': 'Baumspitze',
+  'decor.topperStar': 'Stern',
+  'decor.selected': 'Ausgewählt',
+  'decor.delete': 'Entfernen',
+  'decor.deselect': 'Abwählen',
+  'decor.clear': 'Alle entfernen',
+
+  'quality.title': 'Qualität',
+  'quality.level': 'Stufe',
+  'quality.tier.AUTO': 'Auto',
+  'quality.tier.LOW': 'Niedrig',
+  'quality.tier.MEDIUM': 'Mittel',
+  'quality.tier.HIGH': 'Hoch',
+  'quality.tier.ULTRA': 'Ultra',
+  'quality.autoHint': 'Auto beobachtet die Bildrate und passt Partikel, Bloom, Schatten und Auflösung an, damit alles flüssig bleibt.',
+  'quality.current': 'Aktuelle Stufe: {tier}',
+  'quality.stats': 'Leistungsstatistik anzeigen',
+
+  'stats.fps': 'FPS',
+  'stats.drawCalls': 'Draw Calls',
+  'stats.particles': 'Partikel',
+  'stats.textures': 'Texturen',
+  'stats.tier': 'Qualität',
+
+  'room.title': 'Raum',
+  'room.intro': 'Eröffne einen Raum, um den Baum mit dem Handy zu steuern oder mehrere Bildschirme synchron zu halten. Tabs auf diesem Computer treten ohne Relay bei, andere Geräte brauchen die Relay-Adresse.',
+  'room.relay': 'Relay',
+  'room.relayHint': 'Starte eines mit npm run relay. Leer lassen, um nur Tabs auf diesem Computer zu verbinden.',
+  'room.host': 'Raum eröffnen',
+  'room.join': 'Raum beitreten',
+  'room.code': 'Raumcode',
+  'room.joinDisplay': 'Als Bildschirm',
+  'room.joinRemote': 'Als Fernbedienung',
+  'room.scan': 'Mit dem Handy scannen, um es als Fernbedienung zu nutzen',
+  'room.leave': 'Raum verlassen',
+  'room.status.off': 'Nur lokale Tabs',
+  'room.status.connecting': 'Verbinde mit Relay…',
+  'room.status.open': 'Relay verbunden',
+  'room.status.closed': 'Relay nicht erreichbar, neuer Versuch…',
+
+  'remote.title': 'Fernbedienung',
+  'remote.drag': 'Ziehen zum Drehen',
+  'remote.sendPhoto': 'Foto senden',
+  'remote.sending': 'Wird gesendet…',
+  'remote.hideUi': 'UI ausblenden',
+  'remote.showUi': 'UI einblenden',
+  'remote.waiting': 'Warte auf einen Bildschirm…',
+
+  'theme.title': 'Design',
+  'theme.greeting': 'Grußtext',
+  'theme.greetingHint': 'Eine Zeile pro Kartenzeile, höchstens vier. Leer lassen für den Standardgruß.',
+  'theme.font': 'Schrift',
+  'theme.colors': 'Farben',
+  'theme.accent': 'Akzent',
+  'theme.tree': 'Baum',
+  'theme.ornament': 'Kugeln',
+  'theme.light': 'Licht',
+  'theme.floor': 'Boden',
+  'theme.scene': 'Szene',
+  'theme.topper': 'Baumspitze',
+  'theme.metalness': 'Metallisch',
+  'theme.roughness': 'Rauheit',
+  'theme.glow': 'Leuchten',
+  'theme.snow': 'Schnee',
+  'theme.preset.christmas': 'Weihnachten',
+  'theme.preset.new-year': 'Neujahr',
+  'theme.preset.lunar-new-year': 'Mondneujahr',
+  'theme.preset.hanukkah': 'Chanukka',
+  'theme.preset.winter': 'Winter',
+  'theme.greeting.new-year': 'Frohes\nneues Jahr',
+  'theme.greeting.lunar-new-year': 'Frohes\nMondneujahr',
+  'theme.greeting.hanukkah': 'Frohes\nChanukka',
+  'theme.greeting.winter': 'Frohe\nFesttage',
+  'star.GEM': 'Edelstein',
+  'star.STAR': 'Stern',
+  'star.HEXAGRAM': 'Davidstern',
+  'star.SNOWFLAKE': 'Schneeflocke',
+  'star.LANTERN': 'Laterne'
+};
+
+export default de;
@@ -0,0 +1,314 @@
+// 英文为基准语言：其他语言缺少的键都回退到这里
+const en = {
+  'common.close': 'Close',
+  'common.stop': 'Stop',
+  'language.label': 'Language',
+
+  'greeting.default': 'Merry Christmas',
+  'share.title': 'Christmas Magic',
+  'share.text': 'Check out my interactive 3D Christmas tree. You can control it with hand gestures!',
+
+  'app.loading': 'Initializing Holiday Magic',
+  'app.addMemory': 'Add Memory',
+  'app.addingPhotos': 'Adding {done}/{total}',
+  'app.dropPhotos': 'Drop photos to hang them on the tree',
+  'app.enableHandMagic': 'Enable Hand Magic',
+  'app.gestureHint': 'Control the tree with gestures',
+  'app.manualHint': 'Drag to rotate · Scroll to zoom · 1–{count} shapes · ← → photos',
+  'app.modelFromCache': 'Model loaded from offline cache',
+  'app.modelFromNetwork': 'Model downloaded from network',
+  'app.customizeGestures': 'Customize Gestures',
+  'app.sound': 'Sound',
+  'app.quality': 'Quality',
+  'app.room': 'Room',
+  'app.showCamera': 'Show Camera',
+  'app.hideCamera': 'Hide Camera',
+  'app.roomCode': 'Room {code}',
+  'app.recordReplay': 'Record / Replay',
+  'app.recording': 'Recording…',
+  'app.replaying': 'Replaying Session',
+  'app.tapToCycle': 'Tap to cycle modes',
+  'app.decorate': 'Decorate',
+
+  'vision.runtime': 'Loading Runtime',
+  'vision.model': 'Loading Model{percent} · {source}',
+  'vision.cache': 'Cache',
+  'vision.network': 'Network',
+  'vision.camera': 'Starting Camera',
+  'vision.ready': 'Magic Active',
+
+  'alert.cameraFailed': 'Please open the page over HTTPS and allow camera access.',
+  'alert.sharedLinkInvalid': 'This share link is invalid, so the default tree was loaded: {error}',
+  'alert.linkCopied': 'Link copied to the clipboard. Share it with your friends!',
+  'alert.importConfirm': 'Importing will replace your {count} current photos. Continue?',
+  'alert.importFailed': 'Import failed: {error}',
+  'alert.importFailedGeneric': 'Import failed. Please try again later.',
+  'alert.sessionFailed': 'Could not load the session: {error}',
+  'alert.sessionFailedGeneric': 'Could not load the session. Please try again later.',
+  'alert.captureFailed': 'Capture failed. Please try again.',
+  'alert.photoSendFailed': 'The photo could not be sent. Please try again.',
+  'alert.photosRejected': '{count} file(s) could not be added:\n{list}',
+  'alert.modelRejected': '{name} could not be imported: {error}',
+  'alert.modelRejectedGeneric': '{name} could not be imported. Please try again later.',
+  'alert.decorationsFull': 'The tree holds at most {max} decorations. Remove one before adding more.',
+
+  'bundle.error.invalidJson': 'This file is not a tree bundle (invalid JSON).',
+  'bundle.error.notBundle': 'This file is not a tree bundle.',
+  'bundle.error.newerVersion': 'This bundle was made by a newer version of the app.',
+  'bundle.error.photosMissing': 'Bundle photos are missing.',
+  'bundle.error.tooManyPhotos': 'Bundle has {count} photos; the limit is {max}.',
+  'bundle.error.photoFormat': 'Photo {index} is not a PNG, JPEG, WebP or GIF image.',
+  'bundle.error.photoTooLarge': 'Photo {index} is larger than {max} MB.',
+  'bundle.error.unknownMode': 'Unknown mode "{mode}".',
+  'bundle.error.greetingNotText': 'Greeting must be text.',
+  'bundle.error.greetingTooLong': 'Greeting is longer than {max} characters.',
+  'bundle.error.paletteMissing': 'Palette is missing.',
+  'bundle.error.paletteColor': 'Palette colour "{color}" must be a hex value like #d4af37.',
+  'bundle.error.tooLarge': 'Bundle is larger than {max} MB.',
+  'bundle.error.linkTooLong': 'Shared link is too long.',
+  'bundle.error.linkDamaged': 'Shared link is damaged or incomplete.',
+
+  'session.error.invalidJson': 'This file is not a hand session (invalid JSON).',
+  'session.error.notSession': 'This file is not a hand session.',
+  'session.error.newerVersion': 'This session was recorded by a newer version of the app.',
+  'session.error.noFrames': 'This session has no frames.',
+  'session.error.frameTimestamp': 'Frame {frame} has an invalid timestamp.',
+  'session.error.frameLandmarks': 'Frame {frame} has invalid landmarks.',
+  'session.error.frameHand': 'Frame {frame} has invalid hand data.',
+
+  'photo.error.heic': 'HEIC photos are not supported; export them as JPEG first.',
+  'photo.error.unsupportedType': '{type} is not a supported image format (use JPEG, PNG, WebP, GIF or AVIF).',
+  'photo.error.notImage': 'This file is not a recognised image.',
+  'photo.error.tooLarge': 'The file is larger than {max} MB.',
+  'photo.error.undecodable': 'The image could not be decoded; the file may be damaged.',
+  'photo.error.failed': 'The photo could not be added.',
+
+  'model.error.unsupportedType': 'Only glTF models (.glb or .gltf) can be imported.',
+  'model.error.tooLarge': 'The file is larger than {max} MB.',
+  'model.error.invalidGlb': 'This file is not a valid GLB model.',
+  'model.error.invalidGltf': 'This file is not valid glTF.',
+  'model.error.externalFiles': 'The model refers to separate files; export it as a single .glb instead.',
+  'model.error.unreadable': 'The model could not be read; compressed (Draco or Meshopt) models are not supported.',
+
+  'mode.TREE': 'Tree',
+  'mode.SCATTER': 'Scatter',
+  'mode.FOCUS': 'Focus',
+  'mode.HEART': 'Heart',
+  'mode.STAR': 'Star',
+  'mode.GALAXY': 'Galaxy',
+  'mode.WREATH': 'Wreath',
+  'mode.TEXT': 'Text',
+  'mode.ADVENT': 'Advent',
+  'formation.placeholder': 'Type a message',
+  'formation.spell': 'Spell',
+
+  'gesture.FIST': 'Fist',
+  'gesture.OPEN': 'Open Hand',
+  'gesture.PINCH': 'Pinch',
+  'gesture.POINT': 'Point',
+  'gesture.THUMBS_UP': 'Thumbs Up',
+  'gesture.SWIPE_LEFT': 'Swipe Left',
+  'gesture.SWIPE_RIGHT': 'Swipe Right',
+  'action.NONE': 'Nothing',
+  'action.NEXT_MODE': 'Next Shape',
+  'action.PREV_MODE': 'Previous Shape',
+  'action.TOGGLE_UI': 'Toggle UI',
+  'gestures.title': 'Gestures',
+  'gestures.reset': 'Reset to defaults',
+
+  'gallery.title': 'Memories ({count})',
+  'gallery.empty': 'No memories yet',
+  'gallery.caption': 'Caption',
+  'gallery.up': 'Up',
+  'gallery.down': 'Down',
+  'gallery.replace': 'Replace',
+  'gallery.delete': 'Delete',
+  'gallery.export': 'Export Tree',
+  'gallery.import': 'Import Tree',
+
+  'benchmark.title': 'Benchmark',
+  'benchmark.running': 'Measuring frame time at 1× – 10× particle counts…',
+  'benchmark.scale': 'Scale',
+  'benchmark.particles': 'Particles',
+  'benchmark.frame': 'Frame',
+  'benchmark.cpu': 'CPU',
+
+  'sessions.title': 'Hand Sessions',
+  'sessions.record': 'Record Live Session',
+  'sessions.stop': 'Stop & Download',
+  'sessions.needsCamera': 'Enable hand magic to record',
+  'sessions.play': 'Play',
+  'sessions.pause': 'Pause',
+  'sessions.restart': 'Restart',
+  'sessions.loop': 'Loop',
+  'sessions.eject': 'Back to Camera',
+  'sessions.load': 'Load Session',
+
+  'focus.previous': 'Previous photo',
+  'focus.next': 'Next photo',
+  'focus.play': 'Play Slideshow',
+  'focus.pause': 'Pause Slideshow',
+
+  'capture.title': 'Capture',
+  'capture.clip': 'Video Greeting',
+  'capture.withMusic': 'Include music',
+  'capture.record': 'Record Clip',
+  'capture.recording': 'Rec {elapsed}s / {total}s',
+  'capture.unsupported': 'Video recording is not supported in this browser',
+  'capture.snapshot': 'Snapshot',
+  'capture.takeSnapshot': 'Take Snapshot',
+  'capture.rendering': 'Rendering…',
+  'capture.share': 'Share',
+  'capture.download': 'Download',
+  'capture.discard': 'Discard',
+
+  'sound.title': 'Sound',
+  'sound.locked': 'Tap anywhere to enable sound',
+  'sound.music': 'Music',
+  'sound.off': 'Off',
+  'sound.track.MUSIC_BOX': 'Music Box',
+  'sound.track.SLEIGH_BELLS': 'Sleigh Bells',
+  'sound.track.WINTER_PAD': 'Winter Pad',
+  'sound.upload': 'Upload Music',
+  'sound.output': 'Output',
+  'sound.volume': 'Volume',
+  'sound.cues': 'Mode change sounds',
+  'sound.mute': 'Mute',
+
+  'ornament.placeholder': 'Write a message for this ornament…',
+
+  'camera.device': 'Camera',
+  'camera.unnamed': 'Camera {index}',
+  'camera.noHand': 'No hand',
+  'camera.noGesture': 'No gesture',
+
+  'advent.day': 'Day {day} of {total}',
+  'advent.before': 'The calendar opens on 1 December',
+  'advent.daysLeft': '{count} days until Christmas',
+  'advent.christmas': 'Merry Christmas!',
+  'advent.nextDoor': 'Next door opens in {time}',
+  'advent.open': 'Open Today’s Ornament',
+  'advent.preview': 'Preview date',
+  'advent.previewReset': 'Today',
+
+  'a11y.title': 'Accessibility',
+  'a11y.motion': 'Motion',
+  'a11y.motion.SYSTEM': 'System',
+  'a11y.motion.REDUCED': 'Reduced',
+  'a11y.motion.FULL': 'Full',
+  'a11y.motionHint': 'Reduced motion stops the automatic rotation and spinning, keeps twinkling subtle and turns off flashes on the beat.',
+  'a11y.systemReduced': 'Your system currently asks for reduced motion.',
+  'a11y.systemFull': 'Your system currently allows full motion.',
+  'a11y.highContrast': 'High contrast',
+  'a11y.keyboardHint': 'Tab moves between controls and Esc closes panels.',
+  'a11y.share': 'Share',
+  'a11y.theme': 'Theme',
+  'a11y.capture': 'Capture',
+  'a11y.mute': 'Mute',
+  'a11y.unmute': 'Unmute',
+  'a11y.gallery': 'Photo gallery',
+  'a11y.hideUi': 'Hide interface',
+  'a11y.showUi': 'Show interface',
+  'a11y.modeAnnouncement': 'Shape: {mode}',
+  'a11y.photoAnnouncement': 'Photo {index} of {total}: {caption}',
+  'a11y.greetingCard': 'Greeting card',
+  'a11y.untitled': 'Untitled',
+
+  'decor.title': 'Decorate',
+  'decor.done': 'Done',
+  'decor.hint': 'Click or pinch on the tree to place the chosen ornament. Select a placed item, then click elsewhere on the tree to move it; Delete removes it.',
+  'decor.count': '{count} of {max} placed',
+  'decor.palette': 'Ornaments',
+  'decor.kind.BELL': 'Bell',
+  'decor.kind.CANDY_CANE': 'Candy Cane',
+  'decor.kind.GIFT': 'Gift Box',
+  'decor.kind.LIGHT': 'Light',
+  'decor.models': 'Your Models',
+  'decor.import': 'Import glTF Model',
+  'decor.importing': 'Importing…',
+  'decor.removeModel': 'Remove {name}',
+  'decor.stringLights': 'String Lights',
+  'decor.topper': 'Tree Top',
+  'decor.topperStar': 'Star',
+  'decor.selected': 'Item Selected',
+  'decor.delete': 'Delete',
+  'decor.deselect': 'Deselect',
+  'decor.clear': 'Remove All',
+
+  'quality.title': 'Quality',
+  'quality.level': 'Level',
+  'quality.tier.AUTO': 'Auto',
+  'quality.tier.LOW': 'Low',
+  'quality.tier.MEDIUM': 'Medium',
+  'quality.tier.HIGH': 'High',
+  'quality.tier.ULTRA': 'Ultra',
+  'quality.autoHint': 'Auto watches the frame rate and adjusts particles, bloom, shadows and resolution to keep motion smooth.',
+  'quality.current': 'Now rendering: {tier}',
+  'quality.stats': 'Show performance stats',
+
+  'stats.fps': 'FPS',
+  'stats.drawCalls': 'Draw calls',
+  'stats.particles': 'Particles',
+  'stats.textures': 'Textures',
+  'stats.tier': 'Quality',
+
+  'room.title': 'Room',
+  'room.intro': 'Host a room to steer this tree from your phone, or to keep several screens in sync. Tabs on this computer join without a relay; other devices need the relay address.',
+  'room.relay': 'Relay',
+  'room.relayHint': 'Start one with npm run relay. Leave empty to only link tabs on this computer.',
+  'room.host': 'Host a Room',
+  'room.join': 'Join a Room',
+  'room.code': 'Room code',
+  'room.joinDisplay': 'As Display',
+  'room.joinRemote': 'As Remote',
+  'room.scan': 'Scan with a phone to use it as a remote',
+  'room.leave': 'Leave Room',
+  'room.status.off': 'Local tabs only',
+  'room.status.connecting': 'Connecting to relay…',
+  'room.status.open': 'Relay connected',
+  'room.status.closed': 'Relay unreachable, retrying…',
+
+  'remote.title': 'Remote',
+  'remote.drag': 'Drag to rotate',
+  'remote.sendPhoto': 'Send Photo',
+  'remote.sending': 'Sending…',
+  'remote.hideUi': 'Hide UI',
+  'remote.showUi': 'Show UI',
+  'remote.waiting': 'Waiting for a display…',
+
+  'theme.title': 'Theme',
+  'theme.greeting': 'Greeting',
+  'theme.greetingHint': 'One line per row on the card, up to four. Leave empty for the default greeting.',
+  'theme.font': 'Font',
+  'theme.colors': 'Colors',
+  'theme.accent': 'Accent',
+  'theme.tree': 'Tree',
+  'theme.ornament': 'Ornament',
+  'theme.light': 'Light',
+  'theme.floor': 'Floor',
+  'theme.scene': 'Scene',
+  'theme.topper': 'Tree Topper',
+  'theme.metalness': 'Metalness',
+  'theme.roughness': 'Roughness',
+  'theme.glow': 'Glow',
+  'theme.snow': 'Snow',
+  'theme.preset.christmas': 'Christmas',
+  'theme.preset.new-year': 'New Year',
+  'theme.preset.lunar-new-year': 'Lunar New Year',
+  'theme.preset.hanukkah': 'Hanukkah',
+  'theme.preset.winter': 'Winter',
+  'theme.greeting.new-year': 'Happy\nNew Year',
+  'theme.greeting.lunar-new-year': 'Happy\nLunar New Year',
+  'theme.greeting.hanukkah': 'Happy\nHanukkah',
+  'theme.greeting.winter': 'Happy\nHolidays',
+  'star.GEM': 'Gem',
+  'star.STAR': 'Star',
+  'star.HEXAGRAM': 'Star of David',
+  'star.SNOWFLAKE': 'Snowflake',
+  'star.LANTERN': 'Lantern'
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+
+export default en as Messages;
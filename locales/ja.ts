@@ -0,0 +1,312 @@
+import { Messages } from './en';
+
+const ja: Partial<Messages> = {
+  'common.close': '閉じる',
+  'common.stop': '停止',
+  'language.label': '言語',
+
+  'greeting.default': 'メリークリスマス',
+  'share.title': 'クリスマスマジック',
+  'share.text': 'ジェスチャーで操作できる、わたしのインタラクティブな3Dクリスマスツリーを見てね！',
+
+  'app.loading': 'ホリデーマジックを準備中',
+  'app.addMemory': '思い出を追加',
+  'app.addingPhotos': '追加中 {done}/{total}',
+  'app.dropPhotos': 'ドロップして写真をツリーに飾る',
+  'app.enableHandMagic': 'ハンドマジックを有効にする',
+  'app.gestureHint': 'ジェスチャーでツリーを操作',
+  'app.manualHint': 'ドラッグで回転 · スクロールでズーム · 1–{count} で形を変更 · ← → で写真',
+  'app.modelFromCache': 'オフラインキャッシュからモデルを読み込みました',
+  'app.modelFromNetwork': 'ネットワークからモデルをダウンロードしました',
+  'app.customizeGestures': 'ジェスチャーを設定',
+  'app.sound': 'サウンド',
+  'app.quality': '画質',
+  'app.room': 'ルーム',
+  'app.showCamera': 'カメラを表示',
+  'app.hideCamera': 'カメラを隠す',
+  'app.roomCode': 'ルーム {code}',
+  'app.recordReplay': '録画 / 再生',
+  'app.recording': '録画中…',
+  'app.replaying': 'セッションを再生中',
+  'app.tapToCycle': 'タップで形を切り替え',
+  'app.decorate': '飾り付け',
+
+  'vision.runtime': 'ランタイムを読み込み中',
+  'vision.model': 'モデルを読み込み中{percent} · {source}',
+  'vision.cache': 'キャッシュ',
+  'vision.network': 'ネットワーク',
+  'vision.camera': 'カメラを起動中',
+  'vision.ready': 'マジック有効',
+
+  'alert.cameraFailed': 'HTTPS でページを開き、カメラへのアクセスを許可してください。',
+  'alert.sharedLinkInvalid': '共有リンクが無効なため、デフォルトのツリーを表示しています：{error}',
+  'alert.linkCopied': 'リンクをクリップボードにコピーしました。友だちにシェアしよう！',
+  'alert.importConfirm': 'インポートすると現在の {count} 枚の写真が置き換えられます。続けますか？',
+  'alert.importFailed': 'インポートに失敗しました：{error}',
+  'alert.importFailedGeneric': 'インポートに失敗しました。しばらくしてからもう一度お試しください。',
+  'alert.sessionFailed': 'セッションを読み込めませんでした：{error}',
+  'alert.sessionFailedGeneric': 'セッションを読み込めませんでした。しばらくしてからもう一度お試しください。',
+  'alert.captureFailed': 'キャプチャに失敗しました。もう一度お試しください。',
+  'alert.photoSendFailed': '写真を送信できませんでした。もう一度お試しください。',
+  'alert.photosRejected': '{count} 件のファイルを追加できませんでした：\n{list}',
+  'alert.modelRejected': '{name} を読み込めませんでした：{error}',
+  'alert.modelRejectedGeneric': '{name} を読み込めませんでした。しばらくしてからもう一度お試しください。',
+  'alert.decorationsFull': '飾りは最大 {max} 個までです。追加する前にいくつか外してください。',
+
+  'bundle.error.invalidJson': 'このファイルはツリーのバンドルではありません（JSON が不正です）。',
+  'bundle.error.notBundle': 'このファイルはツリーのバンドルではありません。',
+  'bundle.error.newerVersion': 'このバンドルは新しいバージョンのアプリで作成されています。',
+  'bundle.error.photosMissing': 'バンドルに写真の一覧がありません。',
+  'bundle.error.tooManyPhotos': 'バンドルに {count} 枚の写真があります。上限は {max} 枚です。',
+  'bundle.error.photoFormat': '{index} 枚目の写真は PNG、JPEG、WebP、GIF 画像ではありません。',
+  'bundle.error.photoTooLarge': '{index} 枚目の写真が {max} MB を超えています。',
+  'bundle.error.unknownMode': '不明なモード「{mode}」です。',
+  'bundle.error.greetingNotText': 'メッセージはテキストである必要があります。',
+  'bundle.error.greetingTooLong': 'メッセージが {max} 文字を超えています。',
+  'bundle.error.paletteMissing': '配色がありません。',
+  'bundle.error.paletteColor': '配色「{color}」は #d4af37 のような 16 進数の色で指定してください。',
+  'bundle.error.tooLarge': 'バンドルが {max} MB を超えています。',
+  'bundle.error.linkTooLong': '共有リンクが長すぎます。',
+  'bundle.error.linkDamaged': '共有リンクが壊れているか不完全です。',
+
+  'session.error.invalidJson': 'このファイルはハンドセッションではありません（JSON が不正です）。',
+  'session.error.notSession': 'このファイルはハンドセッションではありません。',
+  'session.error.newerVersion': 'このセッションは新しいバージョンのアプリで記録されています。',
+  'session.error.noFrames': 'このセッションにはフレームがありません。',
+  'session.error.frameTimestamp': 'フレーム {frame} のタイムスタンプが不正です。',
+  'session.error.frameLandmarks': 'フレーム {frame} のランドマークが不正です。',
+  'session.error.frameHand': 'フレーム {frame} の手のデータが不正です。',
+
+  'photo.error.heic': 'HEIC 形式の写真には対応していません。先に JPEG で書き出してください。',
+  'photo.error.unsupportedType': '{type} は対応していない画像形式です（JPEG、PNG、WebP、GIF、AVIF を使ってください）。',
+  'photo.error.notImage': '画像として認識できないファイルです。',
+  'photo.error.tooLarge': 'ファイルが {max} MB を超えています。',
+  'photo.error.undecodable': '画像をデコードできませんでした。ファイルが壊れている可能性があります。',
+  'photo.error.failed': '写真を追加できませんでした。',
+
+  'model.error.unsupportedType': '読み込めるのは glTF モデル（.glb または .gltf）だけです。',
+  'model.error.tooLarge': 'ファイルが {max} MB を超えています。',
+  'model.error.invalidGlb': '有効な GLB モデルではありません。',
+  'model.error.invalidGltf': '有効な glTF ファイルではありません。',
+  'model.error.externalFiles': 'モデルが別のファイルを参照しています。1 つの .glb として書き出してください。',
+  'model.error.unreadable': 'モデルを読み込めませんでした。圧縮（Draco や Meshopt）されたモデルには対応していません。',
+
+  'mode.TREE': 'ツリー',
+  'mode.SCATTER': '散らす',
+  'mode.FOCUS': 'フォーカス',
+  'mode.HEART': 'ハート',
+  'mode.STAR': 'スター',
+  'mode.GALAXY': 'ギャラクシー',
+  'mode.WREATH': 'リース',
+  'mode.TEXT': '文字',
+  'mode.ADVENT': 'アドベント',
+  'formation.placeholder': 'メッセージを入力',
+  'formation.spell': '表示',
+
+  'gesture.FIST': 'グー',
+  'gesture.OPEN': 'パー',
+  'gesture.PINCH': 'つまむ',
+  'gesture.POINT': '指さし',
+  'gesture.THUMBS_UP': 'サムズアップ',
+  'gesture.SWIPE_LEFT': '左にスワイプ',
+  'gesture.SWIPE_RIGHT': '右にスワイプ',
+  'action.NONE': 'なし',
+  'action.NEXT_MODE': '次の形',
+  'action.PREV_MODE': '前の形',
+  'action.TOGGLE_UI': 'UI の表示切替',
+  'gestures.title': 'ジェスチャー',
+  'gestures.reset': 'デフォルトに戻す',
+
+  'gallery.title': '思い出（{count}）',
+  'gallery.empty': 'まだ写真がありません',
+  'gallery.caption': 'キャプション',
+  'gallery.up': '上へ',
+  'gallery.down': '下へ',
+  'gallery.replace': '差し替え',
+  'gallery.delete': '削除',
+  'gallery.export': 'ツリーを書き出す',
+  'gallery.import': 'ツリーを読み込む',
+
+  'benchmark.title': 'ベンチマーク',
+  'benchmark.running': 'パーティクル数 1× – 10× でフレーム時間を測定中…',
+  'benchmark.scale': '倍率',
+  'benchmark.particles': 'パーティクル',
+  'benchmark.frame': 'フレーム',
+  'benchmark.cpu': 'CPU',
+
+  'sessions.title': 'ハンドセッション',
+  'sessions.record': 'ライブで録画',
+  'sessions.stop': '停止してダウンロード',
+  'sessions.needsCamera': '録画するにはハンドマジックを有効にしてください',
+  'sessions.play': '再生',
+  'sessions.pause': '一時停止',
+  'sessions.restart': '最初から',
+  'sessions.loop': 'ループ',
+  'sessions.eject': 'カメラに戻る',
+  'sessions.load': 'セッションを読み込む',
+
+  'focus.previous': '前の写真',
+  'focus.next': '次の写真',
+  'focus.play': 'スライドショー再生',
+  'focus.pause': 'スライドショー停止',
+
+  'capture.title': 'キャプチャ',
+  'capture.clip': 'ビデオグリーティング',
+  'capture.withMusic': 'BGM を含める',
+  'capture.record': '録画開始',
+  'capture.recording': '録画中 {elapsed} / {total} 秒',
+  'capture.unsupported': 'このブラウザは動画の録画に対応していません',
+  'capture.snapshot': 'スナップショット',
+  'capture.takeSnapshot': 'スナップショットを撮る',
+  'capture.rendering': 'レンダリング中…',
+  'capture.share': '共有',
+  'capture.download': 'ダウンロード',
+  'capture.discard': '破棄',
+
+  'sound.title': 'サウンド',
+  'sound.locked': 'どこかをタップするとサウンドが有効になります',
+  'sound.music': '音楽',
+  'sound.off': 'オフ',
+  'sound.track.MUSIC_BOX': 'オルゴール',
+  'sound.track.SLEIGH_BELLS': 'そりの鈴',
+  'sound.track.WINTER_PAD': '冬の夜',
+  'sound.upload': '音楽をアップロード',
+  'sound.output': '出力',
+  'sound.volume': '音量',
+  'sound.cues': 'モード切替の効果音',
+  'sound.mute': 'ミュート',
+
+  'ornament.placeholder': 'このオーナメントにメッセージを書く…',
+
+  'camera.device': 'カメラ',
+  'camera.unnamed': 'カメラ {index}',
+  'camera.noHand': '手が見つかりません',
+  'camera.noGesture': 'ジェスチャーなし',
+
+  'advent.day': '{total} 日中 {day} 日目',
+  'advent.before': 'カレンダーは 12 月 1 日に始まります',
+  'advent.daysLeft': 'クリスマスまであと {count} 日',
+  'advent.christmas': 'メリークリスマス！',
+  'advent.nextDoor': '次の扉が開くまで {time}',
+  'advent.open': '今日のオーナメントを開ける',
+  'advent.preview': 'プレビュー日付',
+  'advent.previewReset': '今日',
+
+  'a11y.title': 'アクセシビリティ',
+  'a11y.motion': '動き',
+  'a11y.motion.SYSTEM': 'システム',
+  'a11y.motion.REDUCED': '控えめ',
+  'a11y.motion.FULL': 'すべて',
+  'a11y.motionHint': '動きを控えめにすると、自動回転と粒子の回転を止め、きらめきを穏やかにし、ビートに合わせた点滅をオフにします。',
+  'a11y.systemReduced': 'システムは現在、視差効果を減らす設定です。',
+  'a11y.systemFull': 'システムは現在、すべての動きを許可しています。',
+  'a11y.highContrast': 'ハイコントラスト',
+  'a11y.keyboardHint': 'Tab キーで操作部品を移動し、Esc キーでパネルを閉じます。',
+  'a11y.share': '共有',
+  'a11y.theme': 'テーマ',
+  'a11y.capture': '撮影',
+  'a11y.mute': 'ミュート',
+  'a11y.unmute': 'ミュート解除',
+  'a11y.gallery': '写真ギャラリー',
+  'a11y.hideUi': 'UI を隠す',
+  'a11y.showUi': 'UI を表示',
+  'a11y.modeAnnouncement': '形：{mode}',
+  'a11y.photoAnnouncement': '写真 {index} / {total}：{caption}',
+  'a11y.greetingCard': 'グリーティングカード',
+  'a11y.untitled': '無題',
+
+  'decor.title': '飾り付け',
+  'decor.done': '完了',
+  'decor.hint': 'ツリーをクリックするか指でつまむと、選んだ飾りを置けます。置いた飾りを選んでからツリーの別の場所をクリックすると移動し、Delete で外せます。',
+  'decor.count': '{count} / {max} 個',
+  'decor.palette': '飾り',
+  'decor.kind.BELL': 'ベル',
+  'decor.kind.CANDY_CANE': 'キャンディケイン',
+  'decor.kind.GIFT': 'プレゼント',
+  'decor.kind.LIGHT': '電球',
+  'decor.models': 'マイモデル',
+  'decor.import': 'glTF モデルを読み込む',
+  'decor.importing': '読み込み中…',
+  'decor.removeModel': '{name} を削除',
+  'decor.stringLights': 'イルミネーション',
+  'decor.topper': 'ツリートップ',
+  'decor.topperStar': '星',
+  'decor.selected': '選択中',
+  'decor.delete': '外す',
+  'decor.deselect': '選択解除',
+  'decor.clear': 'すべて外す',
+
+  'quality.title': '画質',
+  'quality.level': 'レベル',
+  'quality.tier.AUTO': '自動',
+  'quality.tier.LOW': '低',
+  'quality.tier.MEDIUM': '中',
+  'quality.tier.HIGH': '高',
+  'quality.tier.ULTRA': '最高',
+  'quality.autoHint': '自動ではフレームレートに合わせて、パーティクル数、ブルーム、影、解像度を調整し、動きを滑らかに保ちます。',
+  'quality.current': '現在の画質：{tier}',
+  'quality.stats': 'パフォーマンス統計を表示',
+
+  'stats.fps': 'FPS',
+  'stats.drawCalls': '描画コール',
+  'stats.particles': 'パーティクル',
+  'stats.textures': 'テクスチャ',
+  'stats.tier': '画質',
+
+  'room.title': 'ルーム',
+  'room.intro': 'ルームを作成すると、スマートフォンからツリーを操作したり、複数の画面を同期したりできます。このコンピューターのタブはリレーなしで参加できます。他の端末にはリレーのアドレスが必要です。',
+  'room.relay': 'リレー',
+  'room.relayHint': 'npm run relay で起動します。空欄の場合はこのコンピューターのタブのみを接続します。',
+  'room.host': 'ルームを作成',
+  'room.join': 'ルームに参加',
+  'room.code': 'ルームコード',
+  'room.joinDisplay': 'ディスプレイとして',
+  'room.joinRemote': 'リモコンとして',
+  'room.scan': 'スマートフォンで読み取るとリモコンになります',
+  'room.leave': 'ルームを退出',
+  'room.status.off': 'このコンピューターのタブのみ',
+  'room.status.connecting': 'リレーに接続中…',
+  'room.status.open': 'リレーに接続済み',
+  'room.status.closed': 'リレーに接続できません。再試行中…',
+
+  'remote.title': 'リモコン',
+  'remote.drag': 'ドラッグで回転',
+  'remote.sendPhoto': '写真を送る',
+  'remote.sending': '送信中…',
+  'remote.hideUi': 'UI を隠す',
+  'remote.showUi': 'UI を表示',
+  'remote.waiting': 'ディスプレイを待っています…',
+
+  'theme.title': 'テーマ',
+  'theme.greeting': 'メッセージ',
+  'theme.greetingHint': '1 行がカードの 1 行になります（最大 4 行）。空欄の場合はデフォルトのメッセージを使います。',
+  'theme.font': 'フォント',
+  'theme.colors': 'カラー',
+  'theme.accent': 'アクセント',
+  'theme.tree': 'ツリー',
+  'theme.ornament': 'オーナメント',
+  'theme.light': 'ライト',
+  'theme.floor': '床',
+  'theme.scene': 'シーン',
+  'theme.topper': 'ツリートップ',
+  'theme.metalness': '金属感',
+  'theme.roughness': '粗さ',
+  'theme.glow': 'グロー',
+  'theme.snow': '雪',
+  'theme.preset.christmas': 'クリスマス',
+  'theme.preset.new-year': '新年',
+  'theme.preset.lunar-new-year': '旧正月',
+  'theme.preset.hanukkah': 'ハヌカ',
+  'theme.preset.winter': '冬',
+  'theme.greeting.new-year': 'あけまして\nおめでとう',
+  'theme.greeting.lunar-new-year': '春節\nおめでとう',
+  'theme.greeting.hanukkah': 'ハッピー\nハヌカ',
+  'theme.greeting.winter': 'ハッピー\nホリデー',
+  'star.GEM': 'ジェム',
+  'star.STAR': '星',
+  'star.HEXAGRAM': 'ダビデの星',
+  'star.SNOWFLAKE': '雪の結晶',
+  'star.LANTERN': 'ランタン'
+};
+
+export default ja;
@@ -0,0 +1,312 @@
+import { Messages } from './en';
+
+const zhCN: Partial<Messages> = {
+  'common.close': '关闭',
+  'common.stop': '停止',
+  'language.label': '语言',
+
+  'greeting.default': '圣诞快乐',
+  'share.title': '圣诞魔法互动体验',
+  'share.text': '快来看看我的互动3D圣诞树，还能用手势控制！',
+
+  'app.loading': '正在准备节日魔法',
+  'app.addMemory': '添加回忆',
+  'app.addingPhotos': '正在添加 {done}/{total}',
+  'app.dropPhotos': '松开即可把照片挂到树上',
+  'app.enableHandMagic': '开启手势魔法',
+  'app.gestureHint': '用手势控制圣诞树',
+  'app.manualHint': '拖动旋转 · 滚轮缩放 · 1–{count} 切换造型 · ← → 切换照片',
+  'app.modelFromCache': '模型已从离线缓存加载',
+  'app.modelFromNetwork': '模型已从网络下载',
+  'app.customizeGestures': '自定义手势',
+  'app.sound': '声音',
+  'app.quality': '画质',
+  'app.room': '房间',
+  'app.showCamera': '显示摄像头',
+  'app.hideCamera': '隐藏摄像头',
+  'app.roomCode': '房间 {code}',
+  'app.recordReplay': '录制 / 回放',
+  'app.recording': '录制中…',
+  'app.replaying': '正在回放',
+  'app.tapToCycle': '轻点切换造型',
+  'app.decorate': '装饰圣诞树',
+
+  'vision.runtime': '正在加载运行时',
+  'vision.model': '正在加载模型{percent} · {source}',
+  'vision.cache': '缓存',
+  'vision.network': '网络',
+  'vision.camera': '正在启动摄像头',
+  'vision.ready': '魔法已开启',
+
+  'alert.cameraFailed': '请确保在 HTTPS 环境下打开，并授予摄像头权限。',
+  'alert.sharedLinkInvalid': '分享链接无效，已加载默认圣诞树：{error}',
+  'alert.linkCopied': '链接已复制到剪贴板，快分享给朋友吧！',
+  'alert.importConfirm': '导入后将替换当前的 {count} 张照片，是否继续？',
+  'alert.importFailed': '导入失败：{error}',
+  'alert.importFailedGeneric': '导入失败，请稍后再试。',
+  'alert.sessionFailed': '加载失败：{error}',
+  'alert.sessionFailedGeneric': '加载失败，请稍后再试。',
+  'alert.captureFailed': '录制失败，请稍后再试。',
+  'alert.photoSendFailed': '照片发送失败，请稍后再试。',
+  'alert.photosRejected': '有 {count} 个文件无法添加：\n{list}',
+  'alert.modelRejected': '无法导入 {name}：{error}',
+  'alert.modelRejectedGeneric': '无法导入 {name}，请稍后再试。',
+  'alert.decorationsFull': '树上最多放 {max} 个装饰，请先移除一些。',
+
+  'bundle.error.invalidJson': '该文件不是圣诞树包（JSON 无效）。',
+  'bundle.error.notBundle': '该文件不是圣诞树包。',
+  'bundle.error.newerVersion': '该文件由更新版本的应用导出。',
+  'bundle.error.photosMissing': '文件中缺少照片列表。',
+  'bundle.error.tooManyPhotos': '文件包含 {count} 张照片，最多 {max} 张。',
+  'bundle.error.photoFormat': '第 {index} 张照片不是 PNG、JPEG、WebP 或 GIF 图片。',
+  'bundle.error.photoTooLarge': '第 {index} 张照片超过 {max} MB。',
+  'bundle.error.unknownMode': '未知的造型“{mode}”。',
+  'bundle.error.greetingNotText': '祝福语必须是文字。',
+  'bundle.error.greetingTooLong': '祝福语超过 {max} 个字符。',
+  'bundle.error.paletteMissing': '缺少配色。',
+  'bundle.error.paletteColor': '配色“{color}”必须是 #d4af37 这样的十六进制颜色。',
+  'bundle.error.tooLarge': '文件超过 {max} MB。',
+  'bundle.error.linkTooLong': '分享链接过长。',
+  'bundle.error.linkDamaged': '分享链接已损坏或不完整。',
+
+  'session.error.invalidJson': '该文件不是手势录制（JSON 无效）。',
+  'session.error.notSession': '该文件不是手势录制。',
+  'session.error.newerVersion': '该录制由更新版本的应用生成。',
+  'session.error.noFrames': '该录制中没有任何帧。',
+  'session.error.frameTimestamp': '第 {frame} 帧的时间戳无效。',
+  'session.error.frameLandmarks': '第 {frame} 帧的关键点无效。',
+  'session.error.frameHand': '第 {frame} 帧的手部数据无效。',
+
+  'photo.error.heic': '不支持 HEIC 照片，请先导出为 JPEG。',
+  'photo.error.unsupportedType': '不支持 {type} 格式（请使用 JPEG、PNG、WebP、GIF 或 AVIF）。',
+  'photo.error.notImage': '无法识别该文件的图片格式。',
+  'photo.error.tooLarge': '文件超过 {max} MB。',
+  'photo.error.undecodable': '无法解码该图片，文件可能已损坏。',
+  'photo.error.failed': '无法添加该照片。',
+
+  'model.error.unsupportedType': '只能导入 glTF 模型（.glb 或 .gltf）。',
+  'model.error.tooLarge': '文件超过 {max} MB。',
+  'model.error.invalidGlb': '该文件不是有效的 GLB 模型。',
+  'model.error.invalidGltf': '该文件不是有效的 glTF。',
+  'model.error.externalFiles': '模型引用了其他文件，请改为导出单个 .glb 文件。',
+  'model.error.unreadable': '无法读取该模型；不支持压缩（Draco 或 Meshopt）的模型。',
+
+  'mode.TREE': '圣诞树',
+  'mode.SCATTER': '散开',
+  'mode.FOCUS': '聚焦',
+  'mode.HEART': '爱心',
+  'mode.STAR': '星星',
+  'mode.GALAXY': '星系',
+  'mode.WREATH': '花环',
+  'mode.TEXT': '文字',
+  'mode.ADVENT': '降临节',
+  'formation.placeholder': '输入文字',
+  'formation.spell': '拼写',
+
+  'gesture.FIST': '握拳',
+  'gesture.OPEN': '张开手掌',
+  'gesture.PINCH': '捏合',
+  'gesture.POINT': '食指指向',
+  'gesture.THUMBS_UP': '竖大拇指',
+  'gesture.SWIPE_LEFT': '向左挥手',
+  'gesture.SWIPE_RIGHT': '向右挥手',
+  'action.NONE': '无',
+  'action.NEXT_MODE': '下一个造型',
+  'action.PREV_MODE': '上一个造型',
+  'action.TOGGLE_UI': '显示 / 隐藏界面',
+  'gestures.title': '手势',
+  'gestures.reset': '恢复默认',
+
+  'gallery.title': '回忆（{count}）',
+  'gallery.empty': '还没有照片',
+  'gallery.caption': '说明文字',
+  'gallery.up': '上移',
+  'gallery.down': '下移',
+  'gallery.replace': '替换',
+  'gallery.delete': '删除',
+  'gallery.export': '导出圣诞树',
+  'gallery.import': '导入圣诞树',
+
+  'benchmark.title': '性能测试',
+  'benchmark.running': '正在测量 1× – 10× 粒子数量下的帧时间…',
+  'benchmark.scale': '倍数',
+  'benchmark.particles': '粒子数',
+  'benchmark.frame': '帧时间',
+  'benchmark.cpu': 'CPU',
+
+  'sessions.title': '手势录制',
+  'sessions.record': '录制实时手势',
+  'sessions.stop': '停止并下载',
+  'sessions.needsCamera': '开启手势魔法后才能录制',
+  'sessions.play': '播放',
+  'sessions.pause': '暂停',
+  'sessions.restart': '从头播放',
+  'sessions.loop': '循环',
+  'sessions.eject': '返回摄像头',
+  'sessions.load': '加载录制文件',
+
+  'focus.previous': '上一张',
+  'focus.next': '下一张',
+  'focus.play': '自动播放',
+  'focus.pause': '暂停播放',
+
+  'capture.title': '拍摄',
+  'capture.clip': '视频贺卡',
+  'capture.withMusic': '包含背景音乐',
+  'capture.record': '开始录制',
+  'capture.recording': '录制中 {elapsed} / {total} 秒',
+  'capture.unsupported': '当前浏览器不支持录制视频',
+  'capture.snapshot': '截图',
+  'capture.takeSnapshot': '保存截图',
+  'capture.rendering': '渲染中…',
+  'capture.share': '分享',
+  'capture.download': '下载',
+  'capture.discard': '丢弃',
+
+  'sound.title': '声音',
+  'sound.locked': '轻触任意位置以启用声音',
+  'sound.music': '音乐',
+  'sound.off': '关闭',
+  'sound.track.MUSIC_BOX': '八音盒',
+  'sound.track.SLEIGH_BELLS': '雪橇铃',
+  'sound.track.WINTER_PAD': '冬夜氛围',
+  'sound.upload': '上传音乐',
+  'sound.output': '输出',
+  'sound.volume': '音量',
+  'sound.cues': '切换造型提示音',
+  'sound.mute': '静音',
+
+  'ornament.placeholder': '为这颗装饰球写一句留言…',
+
+  'camera.device': '摄像头',
+  'camera.unnamed': '摄像头 {index}',
+  'camera.noHand': '未检测到手',
+  'camera.noGesture': '无手势',
+
+  'advent.day': '第 {day} / {total} 天',
+  'advent.before': '日历将于 12 月 1 日开启',
+  'advent.daysLeft': '距圣诞节还有 {count} 天',
+  'advent.christmas': '圣诞快乐！',
+  'advent.nextDoor': '下一格将在 {time} 后打开',
+  'advent.open': '打开今天的装饰',
+  'advent.preview': '预览日期',
+  'advent.previewReset': '今天',
+
+  'a11y.title': '无障碍',
+  'a11y.motion': '动态效果',
+  'a11y.motion.SYSTEM': '跟随系统',
+  'a11y.motion.REDUCED': '减少',
+  'a11y.motion.FULL': '完整',
+  'a11y.motionHint': '减少动态效果时停止自动旋转与粒子自转，闪烁更柔和，并关闭随节拍的闪光。',
+  'a11y.systemReduced': '系统当前要求减少动态效果。',
+  'a11y.systemFull': '系统当前允许完整的动态效果。',
+  'a11y.highContrast': '高对比度',
+  'a11y.keyboardHint': 'Tab 键在控件间切换，Esc 键关闭面板。',
+  'a11y.share': '分享',
+  'a11y.theme': '主题',
+  'a11y.capture': '拍摄',
+  'a11y.mute': '静音',
+  'a11y.unmute': '取消静音',
+  'a11y.gallery': '相册',
+  'a11y.hideUi': '隐藏界面',
+  'a11y.showUi': '显示界面',
+  'a11y.modeAnnouncement': '造型：{mode}',
+  'a11y.photoAnnouncement': '第 {index} / {total} 张：{caption}',
+  'a11y.greetingCard': '贺卡',
+  'a11y.untitled': '无标题',
+
+  'decor.title': '装饰',
+  'decor.done': '完成',
+  'decor.hint': '在树上点击或捏合即可放置所选装饰。选中已放置的装饰后点击树上别处即可移动，按 Delete 删除。',
+  'decor.count': '已放置 {count} / {max}',
+  'decor.palette': '装饰',
+  'decor.kind.BELL': '铃铛',
+  'decor.kind.CANDY_CANE': '拐杖糖',
+  'decor.kind.GIFT': '礼物盒',
+  'decor.kind.LIGHT': '彩灯',
+  'decor.models': '我的模型',
+  'decor.import': '导入 glTF 模型',
+  'decor.importing': '导入中…',
+  'decor.removeModel': '移除 {name}',
+  'decor.stringLights': '灯串',
+  'decor.topper': '树顶',
+  'decor.topperStar': '星星',
+  'decor.selected': '已选中',
+  'decor.delete': '删除',
+  'decor.deselect': '取消选中',
+  'decor.clear': '全部移除',
+
+  'quality.title': '画质',
+  'quality.level': '档位',
+  'quality.tier.AUTO': '自动',
+  'quality.tier.LOW': '低',
+  'quality.tier.MEDIUM': '中',
+  'quality.tier.HIGH': '高',
+  'quality.tier.ULTRA': '极高',
+  'quality.autoHint': '自动模式会根据帧率调整粒子数量、泛光、阴影与分辨率，保持画面流畅。',
+  'quality.current': '当前画质：{tier}',
+  'quality.stats': '显示性能统计',
+
+  'stats.fps': '帧率',
+  'stats.drawCalls': '绘制调用',
+  'stats.particles': '粒子',
+  'stats.textures': '纹理',
+  'stats.tier': '画质',
+
+  'room.title': '房间',
+  'room.intro': '创建房间后可以用手机遥控这棵树，或让多块屏幕保持同步。本机的标签页无需中继即可加入；其他设备需要填写中继地址。',
+  'room.relay': '中继',
+  'room.relayHint': '使用 npm run relay 启动。留空则只连接本机的标签页。',
+  'room.host': '创建房间',
+  'room.join': '加入房间',
+  'room.code': '房间码',
+  'room.joinDisplay': '作为显示屏',
+  'room.joinRemote': '作为遥控器',
+  'room.scan': '用手机扫码即可作为遥控器',
+  'room.leave': '离开房间',
+  'room.status.off': '仅本机标签页',
+  'room.status.connecting': '正在连接中继…',
+  'room.status.open': '中继已连接',
+  'room.status.closed': '无法连接中继，正在重试…',
+
+  'remote.title': '遥控器',
+  'remote.drag': '拖动以旋转',
+  'remote.sendPhoto': '发送照片',
+  'remote.sending': '发送中…',
+  'remote.hideUi': '隐藏界面',
+  'remote.showUi': '显示界面',
+  'remote.waiting': '等待显示屏…',
+
+  'theme.title': '主题',
+  'theme.greeting': '祝福语',
+  'theme.greetingHint': '每行对应贺卡上的一行，最多四行。留空则使用默认祝福语。',
+  'theme.font': '字体',
+  'theme.colors': '颜色',
+  'theme.accent': '主色',
+  'theme.tree': '树叶',
+  'theme.ornament': '装饰球',
+  'theme.light': '灯光',
+  'theme.floor': '地面',
+  'theme.scene': '场景',
+  'theme.topper': '树顶装饰',
+  'theme.metalness': '金属度',
+  'theme.roughness': '粗糙度',
+  'theme.glow': '光晕',
+  'theme.snow': '雪量',
+  'theme.preset.christmas': '圣诞',
+  'theme.preset.new-year': '新年',
+  'theme.preset.lunar-new-year': '春节',
+  'theme.preset.hanukkah': '光明节',
+  'theme.preset.winter': '冬日',
+  'theme.greeting.new-year': '新年快乐',
+  'theme.greeting.lunar-new-year': '新春快乐',
+  'theme.greeting.hanukkah': '光明节快乐',
+  'theme.greeting.winter': '节日快乐',
+  'star.GEM': '宝石',
+  'star.STAR': '五角星',
+  'star.HEXAGRAM': '大卫之星',
+  'star.SNOWFLAKE': '雪花',
+  'star.LANTERN': '灯笼'
+};
+
+export default zhCN;
@@ -0,0 +1,42 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { Plugin } from 'vite';
+
+// 只需要 FilesetResolver 默认加载的两套运行时（SIMD 与非 SIMD）
+export const MEDIAPIPE_WASM_FILES = [
+  'vision_wasm_internal.js',
+  'vision_wasm_internal.wasm',
+  'vision_wasm_nosimd_internal.js',
+  'vision_wasm_nosimd_internal.wasm'
+];
+
+const wasmDir = fileURLToPath(new URL('../node_modules/@mediapipe/tasks-vision/wasm', import.meta.url));
+
+/**
+ * Serves the MediaPipe WASM runtime from node_modules during development and
+ * emits it under `mediapipe/wasm/` in the build, so the version always matches
+ * the installed @mediapipe/tasks-vision package.
+ */
+export default function mediapipeAssets(): Plugin {
+  return {
+    name: 'mediapipe-assets',
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const match = req.url?.match(/\/mediapipe\/wasm\/([^/?]+)/);
+        if (!match || !MEDIAPIPE_WASM_FILES.includes(match[1])) return next();
+        res.setHeader('Content-Type', match[1].endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+        fs.createReadStream(path.join(wasmDir, match[1])).pipe(res);
+      });
+    },
+    generateBundle() {
+      MEDIAPIPE_WASM_FILES.forEach(file => {
+        this.emitFile({
+          type: 'asset',
+          fileName: `mediapipe/wasm/${file}`,
+          source: fs.readFileSync(path.join(wasmDir, file))
+        });
+      });
+    }
+  };
+}
@@ -0,0 +1,66 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+const template = fileURLToPath(new URL('./sw.js', import.meta.url));
+
+// 模型与 WASM 运行时放进单独的缓存，只在文件内容变化时重新下载
+const isModelFile = (file: string) => file.startsWith('mediapipe/');
+
+const listFiles = (dir: string, prefix = ''): string[] => {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory()
+      ? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)
+      : [`${prefix}${entry.name}`]
+  );
+};
+
+const hashOf = (files: Map<string, string | Uint8Array>, names: string[]) => {
+  const hash = crypto.createHash('sha256');
+  names.forEach(name => hash.update(name).update(files.get(name) ?? ''));
+  return hash.digest('hex').slice(0, 12);
+};
+
+/**
+ * Emits `sw.js` from `plugins/sw.js`, filling in the list of built files to
+ * precache and cache names derived from their contents, so every deploy
+ * installs a fresh cache and removes the previous one.
+ */
+export default function serviceWorker(): Plugin {
+  let config: ResolvedConfig;
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    // 放在最后执行，index.html 此时才会出现在产物中
+    generateBundle: {
+      order: 'post',
+      handler(_, bundle) {
+        const files = new Map<string, string | Uint8Array>();
+        Object.values(bundle).forEach(output => {
+          files.set(output.fileName, output.type === 'chunk' ? output.code : output.source);
+        });
+        if (config.publicDir) {
+          listFiles(config.publicDir).forEach(file => {
+            files.set(file, fs.readFileSync(path.join(config.publicDir, file)));
+          });
+        }
+
+        const names = [...files.keys()].filter(file => file !== 'sw.js' && !file.endsWith('.map')).sort();
+        const shell = names.filter(file => !isModelFile(file));
+        const models = names.filter(isModelFile);
+        const source = fs.readFileSync(template, 'utf8')
+          .replace('__BUILD__', () => JSON.stringify(hashOf(files, shell)))
+          .replace('__MODELS_VERSION__', () => JSON.stringify(hashOf(files, models)))
+          .replace('__SHELL__', () => JSON.stringify(['./', ...shell.map(file => `./${file}`)], null, 2))
+          .replace('__MODELS__', () => JSON.stringify(models.map(file => `./${file}`), null, 2));
+        this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+      }
+    }
+  };
+}
@@ -0,0 +1,91 @@
+// 离线缓存：应用外壳、字体与手势识别模型
+// 以下占位符由 plugins/serviceWorker.ts 在构建时替换：版本号取自文件内容的哈希
+const BUILD = __BUILD__;
+const SHELL_CACHE = `shell-${BUILD}`;
+const RUNTIME_CACHE = `runtime-${BUILD}`;
+// 模型体积大且极少变化，只在模型或 WASM 运行时变化时重新下载
+const MODEL_CACHE = `models-${__MODELS_VERSION__}`;
+
+// 构建产物（含带哈希的脚本与样式）和 public 目录中的文件
+const SHELL = __SHELL__;
+
+const MODELS = __MODELS__;
+
+const RUNTIME_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com', 'cdn.tailwindcss.com'];
+
+const isModelRequest = (url) =>
+  url.pathname.includes('/mediapipe/') || url.pathname.endsWith('.task') || url.pathname.endsWith('.wasm');
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    // 绕过 HTTP 缓存，确保取到的是本次部署的文件
+    const shell = await caches.open(SHELL_CACHE);
+    await shell.addAll(SHELL.map(url => new Request(url, { cache: 'reload' })));
+    // 模型预缓存失败不影响安装，首次使用时会再次缓存
+    const models = await caches.open(MODEL_CACHE);
+    await Promise.allSettled(MODELS.map(async (url) => {
+      if (!(await models.match(url))) await models.add(new Request(url, { cache: 'reload' }));
+    }));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keep = [SHELL_CACHE, RUNTIME_CACHE, MODEL_CACHE];
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => !keep.includes(name)).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) (await caches.open(cacheName)).put(request, response.clone());
+  return response;
+};
+
+const staleWhileRevalidate = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+const networkFirst = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) (await caches.open(SHELL_CACHE)).put('./index.html', response.clone());
+    return response;
+  } catch (err) {
+    const cached = await caches.match('./index.html');
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (isModelRequest(url)) {
+    event.respondWith(cacheFirst(request, MODEL_CACHE));
+  } else if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request, RUNTIME_CACHE));
+  } else if (url.origin === self.location.origin) {
+    // 预缓存的构建产物随版本更新；其余同源文件先用缓存，同时后台刷新
+    event.respondWith(caches.open(SHELL_CACHE).then(async shell =>
+      (await shell.match(request)) || staleWhileRevalidate(request, RUNTIME_CACHE)
+    ));
+  }
+});
@@ -0,0 +1,60 @@
+import * as THREE from 'three';
+import { ADVENT_DAYS, AdventState } from '../services/advent';
+
+const GOLDEN_RATIO = 0.618033988749895;
+
+// 贺卡与树顶的星星留到圣诞节当天
+export const CHRISTMAS_DAY = ADVENT_DAYS;
+
+// 装饰球按黄金比例散列到 1–25 日，每天打开的一批均匀分布在整棵树上，与画质档位无关
+export const ornamentDay = (index: number) => 1 + Math.floor(((index * GOLDEN_RATIO) % 1) * ADVENT_DAYS);
+
+// 相册照片按顺序均匀分布在 1–24 日
+export const photoDay = (index: number, count: number) => 1 + Math.floor((index * (ADVENT_DAYS - 1)) / Math.max(count, 1));
+
+// 已打开的天数：当天的格子打开之前不算在内
+export const unlockedDays = ({ day, opened }: AdventState) => (opened ? day : Math.max(day - 1, 0));
+
+interface LightKey {
+  hour: number;
+  // 与主题灯光色相乘的色调、核心光亮度倍数，以及地面向 floor 混合的程度
+  tint: string;
+  intensity: number;
+  floor: string;
+  floorMix: number;
+}
+
+// 夜里灯光最亮、地面偏深蓝；清晨偏粉，正午像雪地，傍晚偏橙
+const LIGHT_KEYS: LightKey[] = [
+  { hour: 0, tint: '#ffd9a0', intensity: 1.3, floor: '#0a1633', floorMix: 0.5 },
+  { hour: 7, tint: '#ffc7b8', intensity: 0.9, floor: '#3a2a40', floorMix: 0.35 },
+  { hour: 12, tint: '#ffffff', intensity: 0.7, floor: '#dfe8f0', floorMix: 0.25 },
+  { hour: 17, tint: '#ffb070', intensity: 1, floor: '#40203a', floorMix: 0.35 },
+  { hour: 21, tint: '#ffd9a0', intensity: 1.3, floor: '#0a1633', floorMix: 0.5 },
+  { hour: 24, tint: '#ffd9a0', intensity: 1.3, floor: '#0a1633', floorMix: 0.5 }
+];
+
+export interface TimeOfDayLight {
+  tint: THREE.Color;
+  intensity: number;
+  floor: THREE.Color;
+  floorMix: number;
+}
+
+const _from = new THREE.Color();
+const _to = new THREE.Color();
+
+// 在相邻两个关键时刻之间线性插值；hour 为 0–24 的本地时间
+export const timeOfDayLight = (hour: number): TimeOfDayLight => {
+  const h = ((hour % 24) + 24) % 24;
+  const next = LIGHT_KEYS.findIndex(key => key.hour > h);
+  const a = LIGHT_KEYS[next - 1];
+  const b = LIGHT_KEYS[next];
+  const f = (h - a.hour) / (b.hour - a.hour);
+  return {
+    tint: new THREE.Color().lerpColors(_from.set(a.tint), _to.set(b.tint), f),
+    intensity: a.intensity + (b.intensity - a.intensity) * f,
+    floor: new THREE.Color().lerpColors(_from.set(a.floor), _to.set(b.floor), f),
+    floorMix: a.floorMix + (b.floorMix - a.floorMix) * f
+  };
+};
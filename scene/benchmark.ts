@@ -0,0 +1,76 @@
+export interface BenchmarkResult {
+  multiplier: number;
+  particles: number;
+  frameMs: number;
+  cpuMs: number;
+}
+
+export const BENCHMARK_MULTIPLIERS = [1, 2, 5, 10];
+const WARMUP_FRAMES = 30;
+const SAMPLE_FRAMES = 120;
+
+/**
+ * Steps the scene through increasing particle counts and records the average
+ * frame interval and the CPU time spent in update + render at each step.
+ */
+export default class ParticleBenchmark {
+  private step = -1;
+  private frame = 0;
+  private particles = 0;
+  private frameTotal = 0;
+  private cpuTotal = 0;
+  private results: BenchmarkResult[] = [];
+
+  constructor(
+    private rebuild: (multiplier: number) => number,
+    private onComplete: (results: BenchmarkResult[]) => void,
+    private multipliers = BENCHMARK_MULTIPLIERS
+  ) {}
+
+  get running() {
+    return this.step >= 0;
+  }
+
+  start() {
+    this.results = [];
+    this.nextStep(0);
+  }
+
+  cancel() {
+    if (!this.running) return;
+    this.step = -1;
+    this.rebuild(1);
+  }
+
+  // 每帧调用一次：frameMs 为两帧间隔，cpuMs 为更新与渲染耗时
+  record(frameMs: number, cpuMs: number) {
+    if (!this.running) return;
+    this.frame++;
+    if (this.frame <= WARMUP_FRAMES) return;
+    this.frameTotal += frameMs;
+    this.cpuTotal += cpuMs;
+    if (this.frame < WARMUP_FRAMES + SAMPLE_FRAMES) return;
+
+    this.results.push({
+      multiplier: this.multipliers[this.step],
+      particles: this.particles,
+      frameMs: this.frameTotal / SAMPLE_FRAMES,
+      cpuMs: this.cpuTotal / SAMPLE_FRAMES
+    });
+    if (this.step + 1 < this.multipliers.length) {
+      this.nextStep(this.step + 1);
+    } else {
+      this.step = -1;
+      this.rebuild(1);
+      this.onComplete(this.results);
+    }
+  }
+
+  private nextStep(step: number) {
+    this.step = step;
+    this.frame = 0;
+    this.frameTotal = 0;
+    this.cpuTotal = 0;
+    this.particles = this.rebuild(this.multipliers[step]);
+  }
+}
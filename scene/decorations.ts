@@ -0,0 +1,333 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+import { clone as cloneSkinned } from 'three/addons/utils/SkeletonUtils.js';
+import { Decoration, DecorationLayout, DecorationModel } from '../types';
+
+// 与树形造型一致：树底 y = -12，高 28，装饰球所在的圆锥面底部半径 9.5
+const TREE_BOTTOM = -12;
+const TREE_HEIGHT = 28;
+const SURFACE_RADIUS = 9.5;
+// 树顶星星的位置
+const TOPPER_Y = 16.5;
+const ITEM_SCALE = 1.4;
+const TOPPER_SIZE = 3;
+const STRING_LIGHT_COUNT = 300;
+// 针叶螺旋的圈数（弧度为 t * 50π）
+const NEEDLE_SPIRAL = 50 * Math.PI;
+const SHOW_LERP = 0.1;
+
+const LIGHT_COLORS = ['#ff4d4d', '#ffd54d', '#4dff88', '#4db8ff', '#ff8cf0'];
+const GIFT_COLORS = ['#1d3a8a', '#e8edf5', '#6a1b9a'];
+
+const _color = new THREE.Color();
+
+const surfaceRadius = (y: number) => SURFACE_RADIUS * Math.pow(Math.max(1 - (y - TREE_BOTTOM) / TREE_HEIGHT, 0), 1.3);
+
+// 由 id 得到稳定的序号，同一物件每次加载颜色相同
+const hashId = (id: string) => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  return Math.abs(hash);
+};
+
+// 缩放到最长边为 1，并以包围盒中心为原点，不同来源的模型大小一致
+const normalizeModel = (scene: THREE.Object3D) => {
+  const box = new THREE.Box3().setFromObject(scene);
+  const size = box.getSize(new THREE.Vector3());
+  const longest = Math.max(size.x, size.y, size.z);
+  if (!Number.isFinite(longest) || longest <= 0) throw new Error('The model has no visible geometry.');
+  scene.position.sub(box.getCenter(new THREE.Vector3()));
+  const root = new THREE.Group();
+  root.add(scene);
+  root.scale.setScalar(1 / longest);
+  root.traverse(obj => { obj.castShadow = true; });
+  return root;
+};
+
+export const loadModel = (data: ArrayBuffer) =>
+  new Promise<THREE.Object3D>((resolve, reject) => {
+    new GLTFLoader().parse(data, '', gltf => {
+      try {
+        resolve(normalizeModel(gltf.scene));
+      } catch (err) {
+        reject(err);
+      }
+    }, reject);
+  });
+
+const disposeModel = (model: THREE.Object3D) => {
+  model.traverse(obj => {
+    if (!(obj instanceof THREE.Mesh)) return;
+    obj.geometry.dispose();
+    (Array.isArray(obj.material) ? obj.material : [obj.material]).forEach((material: THREE.Material) => {
+      Object.values(material).forEach(value => { if (value instanceof THREE.Texture) value.dispose(); });
+      material.dispose();
+    });
+  });
+};
+
+const createStripeTexture = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 64; canvas.height = 16;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#fdf6f0'; ctx.fillRect(0, 0, 64, 16);
+  ctx.fillStyle = '#c8102e';
+  // 斜向条纹，沿管长方向重复
+  for (let x = -16; x < 64; x += 32) {
+    ctx.beginPath();
+    ctx.moveTo(x, 16); ctx.lineTo(x + 12, 16); ctx.lineTo(x + 28, 0); ctx.lineTo(x + 16, 0);
+    ctx.fill();
+  }
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.repeat.set(6, 1);
+  return texture;
+};
+
+const createGeometries = () => {
+  const bellProfile = [[0, 0.5], [0.08, 0.5], [0.12, 0.42], [0.2, 0.3], [0.24, 0.05], [0.3, -0.18], [0.42, -0.34], [0.45, -0.4], [0, -0.4]]
+    .map(([x, y]) => new THREE.Vector2(x, y));
+  const caneCurve = new THREE.CatmullRomCurve3([
+    [0, -0.6], [0, 0], [0, 0.3], [0.06, 0.47], [0.2, 0.54], [0.34, 0.47], [0.4, 0.32]
+  ].map(([x, y]) => new THREE.Vector3(x - 0.2, y, 0)));
+  return {
+    bell: new THREE.LatheGeometry(bellProfile, 16),
+    clapper: new THREE.SphereGeometry(0.09, 8, 8),
+    cane: new THREE.TubeGeometry(caneCurve, 48, 0.07, 8),
+    gift: new THREE.BoxGeometry(0.7, 0.7, 0.7),
+    ribbon: new THREE.BoxGeometry(0.72, 0.72, 0.14),
+    bow: new THREE.TorusGeometry(0.12, 0.035, 6, 12),
+    bulb: new THREE.SphereGeometry(0.18, 12, 12),
+    cap: new THREE.CylinderGeometry(0.08, 0.08, 0.12, 8),
+    stringBulb: new THREE.SphereGeometry(0.12, 6, 6)
+  };
+};
+
+/**
+ * The decorations a user places on the tree: procedural bells, candy canes,
+ * gifts and lights, imported glTF models, the string lights along the needle
+ * spiral and an optional tree-top model. Positions are in the tree's local
+ * space. The layer also owns the invisible cone used to place items on the
+ * tree surface.
+ */
+export default class DecorationLayer {
+  readonly group = new THREE.Group();
+  // 选中物件的包围框，以世界坐标计算，需直接加到场景中
+  readonly selection: THREE.BoxHelper;
+  private items = new THREE.Group();
+  private surface: THREE.Mesh;
+  private lights: THREE.InstancedMesh;
+  private lightColors: THREE.Color[] = [];
+  private topper: THREE.Object3D | null = null;
+  private layout: DecorationLayout = { items: [], stringLights: false, topperModelId: null };
+  private templates = new Map<string, THREE.Object3D>();
+  private loading = new Set<string>();
+  private selected: number | null = null;
+  private geometries = createGeometries();
+  private stripes = createStripeTexture();
+  private materials: {
+    gold: THREE.Material;
+    ruby: THREE.Material;
+    cane: THREE.MeshStandardMaterial;
+    gifts: THREE.MeshStandardMaterial[];
+    bulbs: THREE.MeshBasicMaterial[];
+    surface: THREE.MeshBasicMaterial;
+    string: THREE.MeshBasicMaterial;
+  };
+  private disposed = false;
+
+  // gold 与 ruby 为主题材质，随主题配色变化
+  constructor(theme: { gold: THREE.Material; ruby: THREE.Material }) {
+    this.materials = {
+      ...theme,
+      cane: new THREE.MeshStandardMaterial({ map: this.stripes, roughness: 0.35 }),
+      gifts: GIFT_COLORS.map(color => new THREE.MeshStandardMaterial({ color, roughness: 0.5, metalness: 0.2 })),
+      bulbs: LIGHT_COLORS.map(color => new THREE.MeshBasicMaterial({ color })),
+      surface: new THREE.MeshBasicMaterial({ side: THREE.DoubleSide }),
+      string: new THREE.MeshBasicMaterial({ color: 0xffffff })
+    };
+    this.group.add(this.items);
+
+    // 放置物件用的圆锥面，只参与射线检测，不渲染
+    const profile: THREE.Vector2[] = [];
+    for (let i = 0; i <= 28; i++) {
+      const y = TREE_BOTTOM + (i / 28) * TREE_HEIGHT;
+      profile.push(new THREE.Vector2(surfaceRadius(y), y));
+    }
+    this.surface = new THREE.Mesh(new THREE.LatheGeometry(profile, 32), this.materials.surface);
+    this.surface.visible = false;
+    this.group.add(this.surface);
+
+    this.lights = new THREE.InstancedMesh(this.geometries.stringBulb, this.materials.string, STRING_LIGHT_COUNT);
+    const matrix = new THREE.Matrix4();
+    for (let i = 0; i < STRING_LIGHT_COUNT; i++) {
+      const t = 0.02 + (i / STRING_LIGHT_COUNT) * 0.93;
+      const y = TREE_BOTTOM + t * TREE_HEIGHT;
+      const angle = t * NEEDLE_SPIRAL;
+      const radius = surfaceRadius(y);
+      this.lights.setMatrixAt(i, matrix.makeTranslation(Math.cos(angle) * radius, y, Math.sin(angle) * radius));
+      this.lightColors.push(new THREE.Color(LIGHT_COLORS[i % LIGHT_COLORS.length]));
+      this.lights.setColorAt(i, this.lightColors[i]);
+    }
+    this.lights.visible = false;
+    this.group.add(this.lights);
+
+    this.selection = new THREE.BoxHelper(this.items, 0xfceea7);
+    this.selection.visible = false;
+    this.group.scale.setScalar(0);
+    this.group.visible = false;
+  }
+
+  get hasTopper() {
+    return !!this.topper && this.group.visible;
+  }
+
+  setLayout(layout: DecorationLayout) {
+    if (layout === this.layout) return;
+    this.layout = layout;
+    this.lights.visible = layout.stringLights;
+    this.rebuild();
+  }
+
+  // 解析新导入的模型，移除已删除的模型；解析完成后重建引用它的物件
+  setModels(models: DecorationModel[]) {
+    const ids = new Set(models.map(model => model.id));
+    this.templates.forEach((template, id) => {
+      if (ids.has(id)) return;
+      disposeModel(template);
+      this.templates.delete(id);
+    });
+    models.forEach(model => {
+      if (this.templates.has(model.id) || this.loading.has(model.id)) return;
+      this.loading.add(model.id);
+      loadModel(model.data).then(template => {
+        this.loading.delete(model.id);
+        if (this.disposed) {
+          disposeModel(template);
+          return;
+        }
+        this.templates.set(model.id, template);
+        this.rebuild();
+      }, err => {
+        this.loading.delete(model.id);
+        console.warn(`Model "${model.name}" could not be loaded:`, err);
+      });
+    });
+    this.rebuild();
+  }
+
+  setSelected(index: number | null) {
+    this.selected = index;
+  }
+
+  // 返回指针下的物件序号（与 layout.items 一致）
+  pick(raycaster: THREE.Raycaster) {
+    if (!this.group.visible) return null;
+    const hit = raycaster.intersectObject(this.items, true)[0];
+    if (!hit) return null;
+    let object = hit.object;
+    while (object.parent && object.parent !== this.items) object = object.parent;
+    const index = this.items.children.indexOf(object);
+    return index >= 0 ? index : null;
+  }
+
+  // 指针落在树面上的位置（树的局部坐标）
+  pickSurface(raycaster: THREE.Raycaster) {
+    if (!this.group.visible) return null;
+    const hit = raycaster.intersectObject(this.surface)[0];
+    return hit ? this.group.worldToLocal(hit.point) : null;
+  }
+
+  // shown 为 false 时整层缩回树心并隐藏；灯串依次明暗流动，减少动态效果时常亮
+  update(time: number, shown: boolean, reducedMotion: boolean) {
+    const { group, lights } = this;
+    const scale = THREE.MathUtils.lerp(group.scale.x, shown ? 1 : 0, SHOW_LERP);
+    group.scale.setScalar(scale);
+    group.visible = scale > 0.01;
+    if (group.visible && lights.visible) {
+      this.lightColors.forEach((base, i) => {
+        const level = reducedMotion ? 1 : 0.35 + 0.65 * (0.5 + 0.5 * Math.sin(time * 4 - i * 0.6));
+        lights.setColorAt(i, _color.copy(base).multiplyScalar(level));
+      });
+      lights.instanceColor!.needsUpdate = true;
+    }
+    if (this.topper && !reducedMotion) this.topper.rotation.y += 0.02;
+    const object = this.selected !== null ? this.items.children[this.selected] : undefined;
+    this.selection.visible = !!object && group.visible;
+    if (object && group.visible) {
+      object.updateWorldMatrix(true, true);
+      this.selection.setFromObject(object);
+    }
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.templates.forEach(disposeModel);
+    this.templates.clear();
+    Object.values(this.geometries).forEach(geometry => geometry.dispose());
+    const { cane, gifts, bulbs, surface, string } = this.materials;
+    [cane, ...gifts, ...bulbs, surface, string].forEach(material => material.dispose());
+    this.stripes.dispose();
+    this.lights.dispose();
+    this.selection.dispose();
+  }
+
+  // 物件只引用共享的几何体与材质，重建时直接丢弃旧对象
+  private rebuild() {
+    this.items.clear();
+    this.layout.items.forEach(item => this.items.add(this.createItem(item)));
+    if (this.topper) this.group.remove(this.topper);
+    const template = this.layout.topperModelId ? this.templates.get(this.layout.topperModelId) : undefined;
+    this.topper = template ? cloneSkinned(template) : null;
+    if (this.topper) {
+      this.topper.scale.multiplyScalar(TOPPER_SIZE);
+      this.topper.position.set(0, TOPPER_Y, 0);
+      this.group.add(this.topper);
+    }
+  }
+
+  private createItem(item: Decoration) {
+    const object = new THREE.Group();
+    const { geometries: g, materials: m } = this;
+    const variant = hashId(item.id);
+    const mesh = (geometry: THREE.BufferGeometry, material: THREE.Material) => {
+      const part = new THREE.Mesh(geometry, material);
+      part.castShadow = true;
+      object.add(part);
+      return part;
+    };
+    switch (item.kind) {
+      case 'BELL':
+        mesh(g.bell, m.gold);
+        mesh(g.clapper, m.ruby).position.y = -0.42;
+        break;
+      case 'CANDY_CANE':
+        mesh(g.cane, m.cane);
+        break;
+      case 'GIFT':
+        mesh(g.gift, m.gifts[variant % m.gifts.length]);
+        mesh(g.ribbon, m.gold);
+        mesh(g.ribbon, m.gold).rotation.y = Math.PI / 2;
+        mesh(g.bow, m.gold).position.set(-0.1, 0.42, 0);
+        mesh(g.bow, m.gold).position.set(0.1, 0.42, 0);
+        break;
+      case 'LIGHT':
+        mesh(g.bulb, m.bulbs[variant % m.bulbs.length]).scale.y = 1.4;
+        mesh(g.cap, m.gold).position.y = 0.28;
+        break;
+      case 'MODEL': {
+        const template = item.modelId ? this.templates.get(item.modelId) : undefined;
+        // 模型尚未解析完成时先占位，保持序号与布局一致
+        if (template) object.add(cloneSkinned(template));
+        break;
+      }
+    }
+    const [x, y, z] = item.position;
+    object.position.set(x, y, z);
+    // 正面朝向树外
+    object.rotation.y = Math.atan2(x, z);
+    object.scale.setScalar(ITEM_SCALE);
+    return object;
+  }
+}
@@ -0,0 +1,424 @@
+import { AppMode } from '../types';
+import { SnowSurface } from './physics';
+
+export type ParticleKind = 'NEEDLE' | 'SHAPE' | 'DUST' | 'PHOTO' | 'STAR';
+
+/**
+ * Target transforms for every particle of one kind. Arrays are packed per
+ * particle: positions and rotations (Euler XYZ) hold 3 floats, scales 1.
+ * Omitted rotations or scales leave the particles' current targets alone.
+ */
+export interface ParticleTargets {
+  positions: Float32Array;
+  rotations?: Float32Array;
+  scales?: Float32Array;
+}
+
+// 未返回的粒子类型保持当前目标不变（例如 TREE 中的雪花继续飘落）
+export type FormationLayout = Partial<Record<ParticleKind, ParticleTargets>>;
+
+export interface FormationContext {
+  counts: Record<ParticleKind, number>;
+  isMobile: boolean;
+  text: string;
+  focusIndex: number;
+}
+
+export interface FormationMotion {
+  lerp: number;
+  spin: boolean;
+  snowFalls: boolean;
+  autoRotate: boolean;
+}
+
+export interface Formation {
+  id: string;
+  label: string;
+  build: (ctx: FormationContext) => FormationLayout;
+  motion?: Partial<FormationMotion>;
+  morphDuration?: number;
+  // 雪花可以停留的表面（组局部坐标）；未提供时雪只积在地面上
+  snowSurface?: SnowSurface;
+}
+
+export const DEFAULT_MOTION: FormationMotion = {
+  lerp: 0.05,
+  spin: false,
+  snowFalls: true,
+  autoRotate: true
+};
+
+export const DEFAULT_MORPH_DURATION = 1.6;
+
+const registry = new Map<string, Formation>();
+
+export const registerFormation = (formation: Formation) => {
+  registry.set(formation.id, formation);
+};
+
+export const getFormation = (id: string) => registry.get(id);
+
+export const listFormations = () => Array.from(registry.values());
+
+export const formationMotion = (formation: Formation): FormationMotion => ({
+  ...DEFAULT_MOTION,
+  ...formation.motion
+});
+
+const modeBindings = new Map<AppMode, string>([
+  [AppMode.TREE, 'tree'],
+  [AppMode.SCATTER, 'scatter'],
+  [AppMode.FOCUS, 'focus'],
+  [AppMode.HEART, 'heart'],
+  [AppMode.STAR, 'star'],
+  [AppMode.GALAXY, 'galaxy'],
+  [AppMode.WREATH, 'wreath'],
+  [AppMode.TEXT, 'text'],
+  // 降临节日历沿用树形，未打开的装饰与照片由引擎隐藏
+  [AppMode.ADVENT, 'tree']
+]);
+
+export const bindModeFormation = (mode: AppMode, formationId: string) => {
+  if (!registry.has(formationId)) throw new Error(`Unknown formation "${formationId}"`);
+  modeBindings.set(mode, formationId);
+};
+
+export const formationForMode = (mode: AppMode): Formation =>
+  registry.get(modeBindings.get(mode) ?? '') ?? registry.get('tree')!;
+
+// 没有绑定到任何模式的造型（例如嵌入方新注册的），只能按 id 直接选用
+export const unboundFormations = () => {
+  const bound = new Set(modeBindings.values());
+  return listFormations().filter(formation => !bound.has(formation.id));
+};
+
+const targets = (count: number, opts: { rotations?: boolean; scales?: boolean } = {}): ParticleTargets => ({
+  positions: new Float32Array(count * 3),
+  rotations: opts.rotations ? new Float32Array(count * 3) : undefined,
+  scales: opts.scales ? new Float32Array(count) : undefined
+});
+
+const set3 = (arr: Float32Array, i: number, x: number, y: number, z: number) => {
+  arr[i * 3] = x;
+  arr[i * 3 + 1] = y;
+  arr[i * 3 + 2] = z;
+};
+
+const randomRotations = (t: ParticleTargets, count: number) => {
+  for (let i = 0; i < count; i++) set3(t.rotations!, i, Math.random() * Math.PI, Math.random() * Math.PI, Math.random() * Math.PI);
+};
+
+const scatterPoint = (arr: Float32Array, i: number) => {
+  const r = 10 + Math.random() * 25;
+  const theta = Math.random() * Math.PI * 2;
+  const phi = Math.acos(2 * Math.random() - 1);
+  set3(arr, i, r * Math.sin(phi) * Math.cos(theta), r * Math.sin(phi) * Math.sin(theta), r * Math.cos(phi));
+};
+
+// 照片围成一圈立在造型周围
+const photoRing = (count: number, radius: number, y: number, scale = 0.6) => {
+  const t = targets(count, { rotations: true, scales: true });
+  for (let i = 0; i < count; i++) {
+    const a = (i / count) * Math.PI * 2;
+    set3(t.positions, i, Math.cos(a) * radius, y + Math.random() * 5, Math.sin(a) * radius);
+    set3(t.rotations!, i, 0, -a + Math.PI, 0);
+    t.scales![i] = scale;
+  }
+  return t;
+};
+
+// 照片排成一面墙放在造型后方
+const photoBackdrop = (count: number, z: number) => {
+  const t = targets(count, { rotations: true, scales: true });
+  const perRow = Math.max(1, Math.ceil(Math.sqrt(count * 2)));
+  for (let i = 0; i < count; i++) {
+    const row = Math.floor(i / perRow);
+    const col = i % perRow;
+    const rowCount = Math.min(perRow, count - row * perRow);
+    set3(t.positions, i, (col - (rowCount - 1) / 2) * 5, 14 - row * 6, z);
+    t.scales![i] = 0.6;
+  }
+  return t;
+};
+
+const single = (x: number, y: number, z: number) => {
+  const t = targets(1);
+  set3(t.positions, 0, x, y, z);
+  return t;
+};
+
+const tree: Formation = {
+  id: 'tree',
+  label: 'Tree',
+  build: ({ counts, isMobile }) => {
+    const needles = targets(counts.NEEDLE, { rotations: true });
+    for (let i = 0; i < counts.NEEDLE; i++) {
+      const t = i / counts.NEEDLE;
+      const radius = 9 * Math.pow(1 - t, 1.3);
+      const angle = t * 50 * Math.PI;
+      set3(needles.positions, i, Math.cos(angle) * radius, t * 28 - 12, Math.sin(angle) * radius);
+      set3(needles.rotations!, i, Math.random(), angle, Math.random());
+    }
+    const shapes = targets(counts.SHAPE);
+    for (let i = 0; i < counts.SHAPE; i++) {
+      const t = i / counts.SHAPE;
+      const radius = 9.5 * Math.pow(1 - t, 1.3);
+      const angle = t * 35 * Math.PI + Math.PI;
+      set3(shapes.positions, i, Math.cos(angle) * radius, t * 28 - 12, Math.sin(angle) * radius);
+    }
+    return {
+      NEEDLE: needles,
+      SHAPE: shapes,
+      PHOTO: photoRing(counts.PHOTO, isMobile ? 12 : 16, 2),
+      STAR: single(0, 16.5, 0)
+    };
+  },
+  // 与针叶相同的圆锥面，留一点厚度让雪落在枝叶之间
+  snowSurface: (x, y, z) => {
+    if (y < -12 || y > 16) return false;
+    const radius = 9 * Math.pow(1 - (y + 12) / 28, 1.3);
+    return Math.abs(Math.hypot(x, z) - radius) < 0.8;
+  }
+};
+
+const scatter: Formation = {
+  id: 'scatter',
+  label: 'Scatter',
+  motion: { spin: true },
+  build: ({ counts }) => {
+    const layout: FormationLayout = {};
+    (['NEEDLE', 'SHAPE', 'DUST', 'PHOTO', 'STAR'] as ParticleKind[]).forEach(kind => {
+      const t = targets(counts[kind]);
+      for (let i = 0; i < counts[kind]; i++) scatterPoint(t.positions, i);
+      layout[kind] = t;
+    });
+    return layout;
+  }
+};
+
+const focus: Formation = {
+  id: 'focus',
+  label: 'Focus',
+  motion: { lerp: 0.08, snowFalls: false, autoRotate: false },
+  build: ({ counts, isMobile, focusIndex }) => {
+    const photos = targets(counts.PHOTO, { rotations: true, scales: true });
+    const focusIdx = ((focusIndex % counts.PHOTO) + counts.PHOTO) % counts.PHOTO;
+    for (let i = 0; i < counts.PHOTO; i++) {
+      if (i === focusIdx) {
+        // 略高于画面中心，下方留出说明文字的位置
+        set3(photos.positions, i, 0, isMobile ? 7 : 6, isMobile ? 30 : 25);
+        photos.scales![i] = isMobile ? 3.5 : 2.6;
+      } else {
+        set3(photos.positions, i, (Math.random()-0.5)*80, (Math.random()-0.5)*80, -40);
+        photos.scales![i] = 0.6;
+      }
+    }
+    return { PHOTO: photos, STAR: single(0, 40, -50) };
+  }
+};
+
+const heartPoint = (t: number) => ({
+  x: 16 * Math.pow(Math.sin(t), 3),
+  y: 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)
+});
+
+const heart: Formation = {
+  id: 'heart',
+  label: 'Heart',
+  motion: { autoRotate: false },
+  build: ({ counts, isMobile }) => {
+    const scale = 0.9;
+    const needles = targets(counts.NEEDLE, { rotations: true });
+    for (let i = 0; i < counts.NEEDLE; i++) {
+      const fill = Math.sqrt(Math.random());
+      const { x, y } = heartPoint(Math.random() * Math.PI * 2);
+      set3(needles.positions, i, x * fill * scale, y * fill * scale + 3, (Math.random() - 0.5) * 6 * (1 - fill * 0.7));
+    }
+    randomRotations(needles, counts.NEEDLE);
+    const shapes = targets(counts.SHAPE);
+    for (let i = 0; i < counts.SHAPE; i++) {
+      const { x, y } = heartPoint((i / counts.SHAPE) * Math.PI * 2);
+      const depth = (Math.random() - 0.5) * 2;
+      set3(shapes.positions, i, x * scale, y * scale + 3, depth);
+    }
+    return {
+      NEEDLE: needles,
+      SHAPE: shapes,
+      PHOTO: photoRing(counts.PHOTO, isMobile ? 18 : 24, 0),
+      STAR: single(0, 3, 4)
+    };
+  }
+};
+
+const starVertex = (k: number) => {
+  const radius = k % 2 === 0 ? 16 : 6.5;
+  const angle = Math.PI / 2 + (k * Math.PI) / 5;
+  return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+};
+
+const star: Formation = {
+  id: 'star',
+  label: 'Star',
+  motion: { autoRotate: false },
+  build: ({ counts, isMobile }) => {
+    const needles = targets(counts.NEEDLE, { rotations: true });
+    for (let i = 0; i < counts.NEEDLE; i++) {
+      // 在中心与相邻两个顶点构成的三角形内均匀取点
+      const k = Math.floor(Math.random() * 10);
+      const a = starVertex(k);
+      const b = starVertex(k + 1);
+      let u = Math.random();
+      let v = Math.random();
+      if (u + v > 1) { u = 1 - u; v = 1 - v; }
+      set3(needles.positions, i, a.x * u + b.x * v, a.y * u + b.y * v + 3, (Math.random() - 0.5) * 3);
+    }
+    randomRotations(needles, counts.NEEDLE);
+    const shapes = targets(counts.SHAPE);
+    for (let i = 0; i < counts.SHAPE; i++) {
+      const edge = (i / counts.SHAPE) * 10;
+      const k = Math.floor(edge);
+      const f = edge - k;
+      const a = starVertex(k);
+      const b = starVertex(k + 1);
+      set3(shapes.positions, i, a.x + (b.x - a.x) * f, a.y + (b.y - a.y) * f + 3, (Math.random() - 0.5) * 1.5);
+    }
+    return {
+      NEEDLE: needles,
+      SHAPE: shapes,
+      PHOTO: photoRing(counts.PHOTO, isMobile ? 20 : 26, 0),
+      STAR: single(0, 3, 3)
+    };
+  }
+};
+
+const galaxy: Formation = {
+  id: 'galaxy',
+  label: 'Galaxy',
+  build: ({ counts, isMobile }) => {
+    const arms = 3;
+    const tilt = 0.45;
+    const place = (arr: Float32Array, i: number, t: number, arm: number, spread: number) => {
+      const radius = 2 + t * 22;
+      const angle = t * Math.PI * 4 + (arm * Math.PI * 2) / arms + (Math.random() - 0.5) * spread;
+      const x = Math.cos(angle) * radius + (Math.random() - 0.5) * spread * 3;
+      const z = Math.sin(angle) * radius + (Math.random() - 0.5) * spread * 3;
+      const y = (Math.random() - 0.5) * 2 * (1 - t);
+      set3(arr, i, x, y * Math.cos(tilt) - z * Math.sin(tilt) + 2, y * Math.sin(tilt) + z * Math.cos(tilt));
+    };
+    const needles = targets(counts.NEEDLE, { rotations: true });
+    for (let i = 0; i < counts.NEEDLE; i++) place(needles.positions, i, Math.random(), i % arms, 0.9);
+    randomRotations(needles, counts.NEEDLE);
+    const shapes = targets(counts.SHAPE);
+    for (let i = 0; i < counts.SHAPE; i++) place(shapes.positions, i, i / counts.SHAPE, i % arms, 0.3);
+    return {
+      NEEDLE: needles,
+      SHAPE: shapes,
+      PHOTO: photoRing(counts.PHOTO, isMobile ? 22 : 28, 4),
+      STAR: single(0, 2, 0)
+    };
+  }
+};
+
+const wreath: Formation = {
+  id: 'wreath',
+  label: 'Wreath',
+  motion: { autoRotate: false },
+  build: ({ counts }) => {
+    const major = 13;
+    const minor = 3;
+    const needles = targets(counts.NEEDLE, { rotations: true });
+    for (let i = 0; i < counts.NEEDLE; i++) {
+      const u = Math.random() * Math.PI * 2;
+      const v = Math.random() * Math.PI * 2;
+      const r = major + Math.cos(v) * minor;
+      set3(needles.positions, i, Math.cos(u) * r, Math.sin(u) * r + 3, Math.sin(v) * minor);
+      set3(needles.rotations!, i, v, 0, u);
+    }
+    const shapes = targets(counts.SHAPE);
+    for (let i = 0; i < counts.SHAPE; i++) {
+      const u = (i / counts.SHAPE) * Math.PI * 2 * 7;
+      const v = Math.PI / 4 + (Math.random() - 0.5) * 1.2;
+      const r = major + Math.cos(v) * (minor + 0.3);
+      set3(shapes.positions, i, Math.cos(u) * r, Math.sin(u) * r + 3, Math.sin(v) * (minor + 0.3));
+    }
+    return {
+      NEEDLE: needles,
+      SHAPE: shapes,
+      PHOTO: photoBackdrop(counts.PHOTO, -25),
+      STAR: single(0, 3 + major + minor, minor)
+    };
+  }
+};
+
+export const MAX_FORMATION_TEXT_LENGTH = 24;
+
+const TEXT_CANVAS_WIDTH = 512;
+const TEXT_CANVAS_HEIGHT = 128;
+const TEXT_WORLD_WIDTH = 44;
+
+// 将文字绘制到离屏画布上，取不透明像素作为装饰球的落点
+const sampleText = (text: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = TEXT_CANVAS_WIDTH;
+  canvas.height = TEXT_CANVAS_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = 'bold 96px Cinzel, serif';
+  const width = ctx.measureText(text).width;
+  if (width > TEXT_CANVAS_WIDTH - 16) ctx.font = `bold ${Math.floor(96 * (TEXT_CANVAS_WIDTH - 16) / width)}px Cinzel, serif`;
+  ctx.fillText(text, TEXT_CANVAS_WIDTH / 2, TEXT_CANVAS_HEIGHT / 2);
+
+  const { data } = ctx.getImageData(0, 0, TEXT_CANVAS_WIDTH, TEXT_CANVAS_HEIGHT);
+  const points: number[] = [];
+  const step = 3;
+  const unit = TEXT_WORLD_WIDTH / TEXT_CANVAS_WIDTH;
+  for (let y = 0; y < TEXT_CANVAS_HEIGHT; y += step) {
+    for (let x = 0; x < TEXT_CANVAS_WIDTH; x += step) {
+      if (data[(y * TEXT_CANVAS_WIDTH + x) * 4 + 3] > 128) {
+        points.push((x - TEXT_CANVAS_WIDTH / 2) * unit, (TEXT_CANVAS_HEIGHT / 2 - y) * unit);
+      }
+    }
+  }
+  return points;
+};
+
+const text: Formation = {
+  id: 'text',
+  label: 'Text',
+  motion: { autoRotate: false },
+  build: ({ counts, text: message }) => {
+    const points = sampleText(message.trim() || 'NOEL');
+    const pointCount = points.length / 2;
+    const shapes = targets(counts.SHAPE);
+    for (let i = 0; i < counts.SHAPE; i++) {
+      if (!pointCount) {
+        scatterPoint(shapes.positions, i);
+        continue;
+      }
+      // 装饰球多于采样点时在笔画附近轻微抖动，避免重叠
+      const p = Math.floor((i / counts.SHAPE) * pointCount) * 2;
+      const jitter = i >= pointCount ? 0.3 : 0;
+      set3(shapes.positions, i,
+        points[p] + (Math.random() - 0.5) * jitter,
+        points[p + 1] + 4 + (Math.random() - 0.5) * jitter,
+        (Math.random() - 0.5) * 0.6);
+    }
+    const needles = targets(counts.NEEDLE, { rotations: true });
+    for (let i = 0; i < counts.NEEDLE; i++) {
+      const a = Math.random() * Math.PI * 2;
+      const r = 26 + Math.random() * 8;
+      set3(needles.positions, i, Math.cos(a) * r, Math.sin(a) * r * 0.6 + 4, -15 - Math.random() * 10);
+    }
+    randomRotations(needles, counts.NEEDLE);
+    return {
+      NEEDLE: needles,
+      SHAPE: shapes,
+      PHOTO: photoBackdrop(counts.PHOTO, -30),
+      STAR: single(0, 14, 0)
+    };
+  }
+};
+
+[tree, scatter, focus, heart, star, galaxy, wreath, text].forEach(registerFormation);
@@ -0,0 +1,411 @@
+import * as THREE from 'three';
+import { FormationMotion, ParticleTargets } from './formations';
+import { morphProgress } from './morph';
+import { PhysicsFrame } from './physics';
+
+export type InstancedParticleType = 'NEEDLE' | 'SHAPE' | 'DUST';
+
+export interface InstancedParticleOptions {
+  type: InstancedParticleType;
+  count: number;
+  geometry: THREE.BufferGeometry;
+  // 每个粒子随机分配到其中一种材质，每种材质对应一个 InstancedMesh
+  materials: THREE.Material[];
+  pickMaterial?: (i: number) => number;
+  initialPosition?: (i: number, out: THREE.Vector3) => void;
+}
+
+// 闪烁参数：time 为闪烁时钟（随音乐加快），scale 为闪烁尺寸的整体倍数（随节拍放大），amplitude 为明暗起伏的幅度
+export interface Twinkle {
+  time: number;
+  scale: number;
+  amplitude: number;
+}
+
+// 复用的临时对象，避免每帧分配
+const _pos = new THREE.Vector3();
+const _scale = new THREE.Vector3();
+const _quat = new THREE.Quaternion();
+const _targetQuat = new THREE.Quaternion();
+const _spinQuat = new THREE.Quaternion();
+const _euler = new THREE.Euler();
+const _matrix = new THREE.Matrix4();
+
+// 积雪停留时间（秒）与最后的融化时长
+const SETTLE_MIN = 8;
+const SETTLE_RANGE = 6;
+const MELT_TIME = 2;
+// 超过此风速时积雪会被逐渐吹走
+const BLOW_OFF_WIND = 8;
+// 装饰球挂在枝头时的弹簧刚度与阻尼；脱落后回位使用临界阻尼的软弹簧
+const SWAY_STIFFNESS = 18;
+const SWAY_DAMPING = 2.5;
+const RETURN_STIFFNESS = 6;
+const RETURN_DAMPING = 2 * Math.sqrt(RETURN_STIFFNESS);
+const GRAVITY = 20;
+// 显示或隐藏时的渐变速度（每帧）
+const REVEAL_LERP = 0.05;
+
+/**
+ * One particle type rendered as InstancedMeshes. Per-particle state lives in
+ * typed arrays, so a frame update touches no garbage-collected objects.
+ */
+export default class InstancedParticles {
+  readonly type: InstancedParticleType;
+  readonly count: number;
+  readonly meshes: THREE.InstancedMesh[];
+
+  private variant: Uint8Array;
+  private slot: Uint32Array;
+  private position: Float32Array;
+  private targetPos: Float32Array;
+  private quaternion: Float32Array;
+  private targetQuat: Float32Array;
+  private scale: Float32Array;
+  private targetScale: Float32Array;
+  private velocity: Float32Array;
+  private spin: Float32Array;
+  private twinkleOffset: Float32Array;
+  private twinkleSpeed: Float32Array;
+  private morphFrom: Float32Array;
+  private morphFromQuat: Float32Array;
+  // 物理层：相对目标位置的偏移与速度（秒制），以及每粒子的状态
+  // 雪花：0 飘落，>0 为积雪剩余时间；装饰球：0 挂在枝头，>0 为脱落剩余时间，<0 正在回位
+  private offset: Float32Array;
+  private offsetVel: Float32Array;
+  private physicsState: Float32Array;
+  // 是否显示（目标）与当前的显示比例；隐藏的粒子缩为 0，例如降临节日历中尚未打开的装饰球
+  private revealed: Uint8Array;
+  private reveal: Float32Array;
+  private morphStart = NaN;
+  private morphDuration = 0;
+  private morphPending = false;
+
+  constructor({ type, count, geometry, materials, pickMaterial, initialPosition }: InstancedParticleOptions) {
+    this.type = type;
+    this.count = count;
+    this.variant = new Uint8Array(count);
+    this.slot = new Uint32Array(count);
+    this.position = new Float32Array(count * 3);
+    this.targetPos = new Float32Array(count * 3);
+    this.quaternion = new Float32Array(count * 4);
+    this.targetQuat = new Float32Array(count * 4);
+    this.scale = new Float32Array(count).fill(1);
+    this.targetScale = new Float32Array(count).fill(1);
+    this.velocity = new Float32Array(count * 3);
+    this.spin = new Float32Array(count * 4);
+    this.twinkleOffset = new Float32Array(count);
+    this.twinkleSpeed = new Float32Array(count);
+    this.morphFrom = new Float32Array(count * 3);
+    this.morphFromQuat = new Float32Array(count * 4);
+    this.offset = new Float32Array(count * 3);
+    this.offsetVel = new Float32Array(count * 3);
+    this.physicsState = new Float32Array(count);
+    this.revealed = new Uint8Array(count).fill(1);
+    this.reveal = new Float32Array(count).fill(1);
+
+    const perVariant = new Array(materials.length).fill(0);
+    for (let i = 0; i < count; i++) {
+      const v = pickMaterial ? pickMaterial(i) : 0;
+      this.variant[i] = v;
+      this.slot[i] = perVariant[v]++;
+
+      _pos.set(0, 0, 0);
+      initialPosition?.(i, _pos);
+      _pos.toArray(this.position, i * 3);
+      _pos.toArray(this.targetPos, i * 3);
+      _quat.identity().toArray(this.quaternion, i * 4);
+      _quat.toArray(this.targetQuat, i * 4);
+
+      this.twinkleOffset[i] = Math.random() * Math.PI * 2;
+      this.twinkleSpeed[i] = 0.5 + Math.random() * 2;
+      this.velocity[i * 3] = (Math.random() - 0.5) * 0.02;
+      this.velocity[i * 3 + 1] = -0.01 - Math.random() * 0.03;
+      this.velocity[i * 3 + 2] = (Math.random() - 0.5) * 0.02;
+      // SCATTER 模式下每帧叠加的自转增量
+      _spinQuat.setFromEuler(_euler.set(this.velocity[i * 3] * 5, this.velocity[i * 3 + 1] * 5, 0))
+        .toArray(this.spin, i * 4);
+    }
+
+    this.meshes = materials.map((material, v) => {
+      const mesh = new THREE.InstancedMesh(geometry, material, perVariant[v]);
+      mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+      // 实例散布在整个场景中，包围球不可靠
+      mesh.frustumCulled = false;
+      return mesh;
+    });
+    this.writeMatrices();
+  }
+
+  // 每粒子状态数组与实例矩阵占用的字节数，供性能面板显示
+  get byteLength() {
+    const state = [
+      this.variant, this.slot, this.position, this.targetPos, this.quaternion, this.targetQuat, this.scale,
+      this.targetScale, this.velocity, this.spin, this.twinkleOffset, this.twinkleSpeed, this.morphFrom, this.morphFromQuat,
+      this.offset, this.offsetVel, this.physicsState, this.revealed, this.reveal
+    ];
+    return state.reduce((sum, array) => sum + array.byteLength, 0)
+      + this.meshes.reduce((sum, mesh) => sum + mesh.instanceMatrix.array.byteLength, 0);
+  }
+
+  // 由射线检测命中的实例反查粒子序号，未找到时为 -1
+  particleAt(mesh: THREE.Object3D, instanceId: number) {
+    const v = this.meshes.indexOf(mesh as THREE.InstancedMesh);
+    if (v < 0) return -1;
+    for (let i = 0; i < this.count; i++) {
+      if (this.variant[i] === v && this.slot[i] === instanceId) return i;
+    }
+    return -1;
+  }
+
+  // 粒子当前的局部变换，含物理偏移
+  matrixAt(i: number, out: THREE.Matrix4) {
+    this.meshes[this.variant[i]].getMatrixAt(this.slot[i], out);
+    return out;
+  }
+
+  isRevealed(i: number) {
+    return this.revealed[i] === 1;
+  }
+
+  setRevealed(revealed: (i: number) => boolean) {
+    for (let i = 0; i < this.count; i++) this.revealed[i] = revealed(i) ? 1 : 0;
+  }
+
+  // 停止物理模拟前复位：摆动或掉落的装饰球回到原位，积雪重新飘落
+  settle() {
+    this.offset.fill(0);
+    this.offsetVel.fill(0);
+    this.physicsState.fill(0);
+  }
+
+  // 从指定位置重新显示并飞回目标位置，用于打开降临节日历当天的装饰球
+  launchFrom(i: number, x: number, y: number, z: number) {
+    this.position[i * 3] = x;
+    this.position[i * 3 + 1] = y;
+    this.position[i * 3 + 2] = z;
+    this.revealed[i] = 1;
+    this.reveal[i] = 0;
+  }
+
+  setTargetPosition(i: number, x: number, y: number, z: number) {
+    this.targetPos[i * 3] = x;
+    this.targetPos[i * 3 + 1] = y;
+    this.targetPos[i * 3 + 2] = z;
+  }
+
+  setTargetRotation(i: number, x: number, y: number, z: number) {
+    _targetQuat.setFromEuler(_euler.set(x, y, z)).toArray(this.targetQuat, i * 4);
+  }
+
+  setTargetScale(i: number, s: number) {
+    this.targetScale[i] = s;
+  }
+
+  setTargets({ positions, rotations, scales }: ParticleTargets) {
+    this.targetPos.set(positions.subarray(0, this.count * 3));
+    if (rotations) {
+      for (let i = 0; i < this.count; i++) {
+        this.setTargetRotation(i, rotations[i * 3], rotations[i * 3 + 1], rotations[i * 3 + 2]);
+      }
+    }
+    if (scales) this.targetScale.set(scales.subarray(0, this.count));
+    // 雪花换了造型后重新飘落
+    if (this.type === 'DUST') this.physicsState.fill(0);
+  }
+
+  // 从当前姿态出发，在 duration 秒内按缓动曲线移动到新目标
+  beginMorph(duration: number) {
+    this.morphFrom.set(this.position);
+    this.morphFromQuat.set(this.quaternion);
+    this.morphDuration = duration;
+    this.morphPending = true;
+  }
+
+  // physics 为空时沿用逐帧的固定飘落，不计风、积雪与摇晃
+  update(motion: FormationMotion, time: number, twinkle: Twinkle, physics?: PhysicsFrame) {
+    const lerpFactor = motion.lerp;
+    const twinkles = this.type === 'SHAPE' || this.type === 'DUST';
+    const falls = this.type === 'DUST' && motion.snowFalls;
+    const spins = motion.spin;
+    const { position, targetPos, quaternion, targetQuat, scale, targetScale, velocity, morphFrom, morphFromQuat } = this;
+    const { physicsState, revealed, reveal } = this;
+
+    if (this.morphPending) {
+      this.morphStart = time;
+      this.morphPending = false;
+    }
+    const morphElapsed = (time - this.morphStart) / this.morphDuration;
+    const morphing = morphElapsed < 1;
+    if (!morphing) this.morphStart = NaN;
+
+    for (let i = 0; i < this.count; i++) {
+      const i3 = i * 3;
+      const i4 = i * 4;
+
+      if (falls && physics) this.stepSnow(i, physics);
+      else if (falls) {
+        targetPos[i3] += velocity[i3];
+        targetPos[i3 + 1] += velocity[i3 + 1];
+        targetPos[i3 + 2] += velocity[i3 + 2];
+        if (targetPos[i3 + 1] < -20) targetPos[i3 + 1] = 30;
+      }
+      if (this.type === 'SHAPE' && physics) this.stepOrnament(i, physics);
+
+      _targetQuat.fromArray(targetQuat, i4);
+      if (morphing) {
+        const p = morphProgress(morphElapsed, i / this.count);
+        position[i3] = morphFrom[i3] + (targetPos[i3] - morphFrom[i3]) * p;
+        position[i3 + 1] = morphFrom[i3 + 1] + (targetPos[i3 + 1] - morphFrom[i3 + 1]) * p;
+        position[i3 + 2] = morphFrom[i3 + 2] + (targetPos[i3 + 2] - morphFrom[i3 + 2]) * p;
+        _quat.fromArray(morphFromQuat, i4).slerp(_targetQuat, p);
+      } else {
+        position[i3] += (targetPos[i3] - position[i3]) * lerpFactor;
+        position[i3 + 1] += (targetPos[i3 + 1] - position[i3 + 1]) * lerpFactor;
+        position[i3 + 2] += (targetPos[i3 + 2] - position[i3 + 2]) * lerpFactor;
+        _quat.fromArray(quaternion, i4);
+        if (_quat.dot(_targetQuat) < 0.999999) _quat.slerp(_targetQuat, lerpFactor);
+      }
+      if (spins) _quat.multiply(_spinQuat.fromArray(this.spin, i4));
+      _quat.toArray(quaternion, i4);
+
+      let s = twinkles
+        ? (0.8 + Math.sin(twinkle.time * this.twinkleSpeed[i] + this.twinkleOffset[i]) * twinkle.amplitude) * twinkle.scale
+        : targetScale[i];
+      // 积雪略大一些，融化时逐渐缩小
+      if (falls && physicsState[i] > 0) s *= 1.4 * Math.min(physicsState[i] / MELT_TIME, 1);
+      if (reveal[i] !== revealed[i]) {
+        reveal[i] += (revealed[i] - reveal[i]) * REVEAL_LERP;
+        if (Math.abs(revealed[i] - reveal[i]) < 0.001) reveal[i] = revealed[i];
+      }
+      // 出现时略微放大再回弹
+      if (reveal[i] < 1) s *= revealed[i] ? reveal[i] + Math.sin(reveal[i] * Math.PI) * 0.4 : reveal[i];
+      scale[i] += (s - scale[i]) * (twinkles ? 0.1 : lerpFactor);
+    }
+    this.writeMatrices();
+  }
+
+  dispose() {
+    this.meshes.forEach(mesh => {
+      mesh.removeFromParent();
+      mesh.dispose();
+    });
+  }
+
+  private stepSnow(i: number, { dt, wind, windSpeed, snowSurface, floorY, floorRadius }: PhysicsFrame) {
+    const { targetPos, position, velocity, physicsState } = this;
+    const i3 = i * 3;
+    const x = targetPos[i3];
+    const y = targetPos[i3 + 1];
+    const z = targetPos[i3 + 2];
+
+    if (physicsState[i] > 0) {
+      physicsState[i] -= dt;
+      const onBranch = y > floorY + 0.1;
+      // 强风吹落积雪；造型变化后枝头已空的积雪也重新飘落
+      const blown = windSpeed > BLOW_OFF_WIND && Math.random() < dt * (windSpeed - BLOW_OFF_WIND) * 0.2;
+      if (blown || (onBranch && !snowSurface?.(x, y, z))) {
+        physicsState[i] = 0;
+        // 地面积雪被风扬起一点，随风漂移一段后再落下
+        if (!onBranch) targetPos[i3 + 1] += 0.5;
+      } else if (physicsState[i] <= 0) this.respawnSnow(i);
+      return;
+    }
+
+    // 原有速度按每帧计，换算为 60 帧下的等效位移
+    targetPos[i3] += velocity[i3] * dt * 60 + wind.x * dt;
+    targetPos[i3 + 1] += velocity[i3 + 1] * dt * 60 + wind.y * dt;
+    targetPos[i3 + 2] += velocity[i3 + 2] * dt * 60 + wind.z * dt;
+    const nx = targetPos[i3];
+    const ny = targetPos[i3 + 1];
+    const nz = targetPos[i3 + 2];
+    // 停留时间由闪烁相位决定，积雪不会同时融化
+    const settleTime = SETTLE_MIN + (this.twinkleOffset[i] / (Math.PI * 2)) * SETTLE_RANGE;
+
+    if (ny <= floorY && ny > floorY - 1 && Math.hypot(nx, nz) < floorRadius) {
+      targetPos[i3 + 1] = floorY + 0.05;
+      physicsState[i] = settleTime;
+    } else if (snowSurface && this.twinkleOffset[i] < Math.PI && snowSurface(nx, ny, nz)) {
+      // 只有一半雪花会挂在枝头，其余穿过枝叶落到地面
+      physicsState[i] = settleTime;
+    } else if (ny < -20 || ny > 40) {
+      this.respawnSnow(i);
+    } else if (Math.abs(nx) > 50 || Math.abs(nz) > 50) {
+      // 被风吹出范围的雪花从另一侧回来
+      targetPos[i3] = nx > 50 ? nx - 100 : nx < -50 ? nx + 100 : nx;
+      targetPos[i3 + 2] = nz > 50 ? nz - 100 : nz < -50 ? nz + 100 : nz;
+      position[i3] = targetPos[i3];
+      position[i3 + 2] = targetPos[i3 + 2];
+    }
+  }
+
+  // 回到顶部重新飘落；直接移动当前位置，避免插值出一道拖影
+  private respawnSnow(i: number) {
+    const i3 = i * 3;
+    this.physicsState[i] = 0;
+    this.targetPos[i3] = (Math.random() - 0.5) * 100;
+    this.targetPos[i3 + 1] = 30;
+    this.targetPos[i3 + 2] = (Math.random() - 0.5) * 100;
+    this.position.set(this.targetPos.subarray(i3, i3 + 3), i3);
+  }
+
+  private stepOrnament(i: number, { dt, wind, shake, floorY }: PhysicsFrame) {
+    const { offset, offsetVel, physicsState, position } = this;
+    const i3 = i * 3;
+
+    if (shake > 0) {
+      offsetVel[i3] += (Math.random() - 0.5) * shake * 6;
+      offsetVel[i3 + 1] += Math.random() * shake * 2;
+      offsetVel[i3 + 2] += (Math.random() - 0.5) * shake * 6;
+      if (physicsState[i] === 0 && Math.random() < shake * 0.2) {
+        physicsState[i] = 3 + Math.random() * 2;
+        offsetVel[i3 + 1] += 4;
+      }
+    }
+
+    const state = physicsState[i];
+    // 每个装饰球受风程度不同，摆动不会整齐划一
+    const windFactor = state > 0 ? 0.3 : 0.5 * (0.5 + this.twinkleOffset[i] / (Math.PI * 2));
+    for (let axis = 0; axis < 3; axis++) {
+      const k = i3 + axis;
+      let accel = wind.getComponent(axis) * windFactor;
+      if (state === 0) accel -= SWAY_STIFFNESS * offset[k] + SWAY_DAMPING * offsetVel[k];
+      else if (state < 0) accel -= RETURN_STIFFNESS * offset[k] + RETURN_DAMPING * offsetVel[k];
+      else if (axis === 1) accel -= GRAVITY;
+      offsetVel[k] += accel * dt;
+      offset[k] += offsetVel[k] * dt;
+    }
+
+    if (state > 0) {
+      // 脱落的装饰球落在地面上弹跳；本就在地面以下的（如散开造型）以原位置为地面
+      const ground = Math.min(position[i3 + 1], floorY + 0.4);
+      if (position[i3 + 1] + offset[i3 + 1] < ground) {
+        offset[i3 + 1] = ground - position[i3 + 1];
+        offsetVel[i3 + 1] = Math.abs(offsetVel[i3 + 1]) * 0.4;
+        offsetVel[i3] *= 0.8;
+        offsetVel[i3 + 2] *= 0.8;
+      }
+      physicsState[i] = state - dt > 0 ? state - dt : -1;
+    } else if (state < 0 && Math.hypot(offset[i3], offset[i3 + 1], offset[i3 + 2]) < 0.02) {
+      physicsState[i] = 0;
+    }
+  }
+
+  private writeMatrices() {
+    for (let i = 0; i < this.count; i++) {
+      _pos.fromArray(this.position, i * 3);
+      _pos.x += this.offset[i * 3];
+      _pos.y += this.offset[i * 3 + 1];
+      _pos.z += this.offset[i * 3 + 2];
+      _quat.fromArray(this.quaternion, i * 4);
+      _scale.setScalar(this.scale[i]);
+      _matrix.compose(_pos, _quat, _scale);
+      _matrix.toArray(this.meshes[this.variant[i]].instanceMatrix.array, this.slot[i] * 16);
+    }
+    this.meshes.forEach(mesh => {
+      mesh.instanceMatrix.needsUpdate = true;
+      // 射线检测先测包围球，实例移动后需重新计算
+      mesh.boundingSphere = null;
+    });
+  }
+}
@@ -0,0 +1,15 @@
+// 各粒子错开启动的比例，使变形像波浪一样依次传开
+const STAGGER = 0.35;
+
+const easeInOutCubic = (t: number) =>
+  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+/**
+ * Eased 0..1 progress of one particle's morph. `elapsed` is the fraction of
+ * the morph duration that has passed, `offset` (0..1) delays the particle's
+ * start within the stagger window.
+ */
+export const morphProgress = (elapsed: number, offset: number) => {
+  const local = (elapsed - offset * STAGGER) / (1 - STAGGER);
+  return easeInOutCubic(Math.min(1, Math.max(0, local)));
+};
@@ -0,0 +1,85 @@
+import * as THREE from 'three';
+
+// 落点判断：点是否落在当前造型上可以积雪的表面（组局部坐标）
+export type SnowSurface = (x: number, y: number, z: number) => boolean;
+
+/**
+ * Per-frame input to the particle physics. Vectors are in the tree group's
+ * local space, the same space particle positions live in.
+ */
+export interface PhysicsFrame {
+  // 秒，已限制上限，卡顿后不会一步跳太远
+  dt: number;
+  wind: THREE.Vector3;
+  windSpeed: number;
+  // 本帧触发的摇晃强度（0–1），没有摇晃时为 0
+  shake: number;
+  snowSurface: SnowSurface | null;
+  floorY: number;
+  floorRadius: number;
+}
+
+// 屏幕速度（每秒移动的画面宽度）到风速（场景单位 / 秒）的换算
+const WIND_GAIN = 6;
+const MAX_WIND = 16;
+// 阵风衰减速率，约 0.7 秒减半
+const GUST_DECAY = 1;
+
+const _gust = new THREE.Vector3();
+
+/**
+ * Wind driven by how fast the hand or pointer moves across the view, on
+ * top of a slowly turning breeze. Gusts follow the movement and fade out
+ * once it stops.
+ */
+export class WindField {
+  readonly velocity = new THREE.Vector3();
+  private gust = new THREE.Vector3();
+
+  // vx、vy 为画面坐标中的速度（画面宽高 / 秒），向下为正
+  push(vx: number, vy: number) {
+    _gust.set(vx * WIND_GAIN, -vy * WIND_GAIN, 0).clampLength(0, MAX_WIND);
+    this.gust.lerp(_gust, 0.3);
+  }
+
+  update(dt: number, time: number) {
+    this.gust.multiplyScalar(Math.exp(-GUST_DECAY * dt));
+    // 微风方向缓慢转动，保证没有输入时雪也会轻轻飘动
+    this.velocity.set(Math.sin(time * 0.1) * 0.4, 0, Math.cos(time * 0.13) * 0.4).add(this.gust);
+  }
+}
+
+// 左右快速来回至少这么多次才算摇晃
+const SHAKE_REVERSALS = 3;
+const SHAKE_WINDOW_MS = 700;
+// 低于此速度（画面宽度 / 秒）的移动不计入
+const SHAKE_MIN_SPEED = 1.2;
+const SHAKE_COOLDOWN_MS = 900;
+
+/**
+ * Recognises a fast side-to-side shake in a stream of hand or pointer
+ * positions: several direction reversals at speed within a short window.
+ */
+export class ShakeDetector {
+  private reversals: number[] = [];
+  private direction = 0;
+  private peak = 0;
+  private lastShake = -Infinity;
+
+  // 返回摇晃强度（0–1），未触发时为 0
+  sample(vx: number, now: number) {
+    if (Math.abs(vx) < SHAKE_MIN_SPEED) return 0;
+    const direction = Math.sign(vx);
+    this.reversals = this.reversals.filter(t => now - t < SHAKE_WINDOW_MS);
+    if (!this.reversals.length) this.peak = 0;
+    this.peak = Math.max(this.peak, Math.abs(vx));
+    if (direction !== this.direction) {
+      this.direction = direction;
+      this.reversals.push(now);
+    }
+    if (this.reversals.length < SHAKE_REVERSALS || now - this.lastShake < SHAKE_COOLDOWN_MS) return 0;
+    this.lastShake = now;
+    this.reversals = [];
+    return Math.min(this.peak / (SHAKE_MIN_SPEED * 3), 1);
+  }
+}
@@ -0,0 +1,86 @@
+// 指针可以选中的场景对象：照片（序号与 FOCUS 一致，0 为贺卡）、装饰球（SHAPE 粒子序号），
+// 或装饰编辑时放置的物件（布局中的序号）与树面（序号为 0，选中即在指针处放置）
+export interface SceneTarget {
+  kind: 'PHOTO' | 'ORNAMENT' | 'DECORATION' | 'TREE';
+  index: number;
+}
+
+export const sameTarget = (a: SceneTarget | null, b: SceneTarget | null) =>
+  a === b || (!!a && !!b && a.kind === b.kind && a.index === b.index);
+
+// 用手指向照片停留多久即选中
+export const PHOTO_DWELL_MS = 1200;
+// 对准装饰球捏合保持多久打开留言
+export const PINCH_HOLD_MS = 600;
+
+/**
+ * Hand-driven selection: pointing at a photo selects it after a dwell,
+ * anything else needs a pinch held for a moment. Each target fires at most once
+ * until the hand moves off it or releases the pinch.
+ */
+export class HandSelection {
+  private target: SceneTarget | null = null;
+  private since = 0;
+  private fired = false;
+
+  // 返回选中进度（0–1）与本帧是否触发选中
+  update(target: SceneTarget | null, pinching: boolean, now: number) {
+    const holding = target && target.kind !== 'PHOTO' ? pinching : !!target;
+    if (!sameTarget(target, this.target) || !holding) {
+      this.target = target;
+      this.since = now;
+      this.fired = false;
+      return { progress: 0, fire: false };
+    }
+    const progress = Math.min((now - this.since) / (target!.kind === 'PHOTO' ? PHOTO_DWELL_MS : PINCH_HOLD_MS), 1);
+    const fire = progress >= 1 && !this.fired;
+    if (fire) this.fired = true;
+    return { progress: this.fired ? 0 : progress, fire };
+  }
+
+  reset() {
+    this.target = null;
+    this.fired = false;
+  }
+}
+
+const CURSOR_SIZE = 28;
+
+/**
+ * The on-screen cursor shown while a hand points at the scene. It is plain
+ * DOM on top of the canvas; a ring fills up while a selection is held.
+ */
+export class HandCursor {
+  readonly element: HTMLDivElement;
+
+  constructor(container: HTMLElement) {
+    const el = document.createElement('div');
+    Object.assign(el.style, {
+      position: 'absolute', left: '0', top: '0', width: `${CURSOR_SIZE}px`, height: `${CURSOR_SIZE}px`,
+      borderRadius: '50%', border: '2px solid rgba(252, 238, 167, 0.9)', boxShadow: '0 0 12px rgba(212, 175, 55, 0.8)',
+      pointerEvents: 'none', display: 'none', zIndex: '1', boxSizing: 'border-box'
+    });
+    // 绝对定位需要相对容器，宿主未设置定位时补上
+    if (getComputedStyle(container).position === 'static') container.style.position = 'relative';
+    container.appendChild(el);
+    this.element = el;
+  }
+
+  // x、y 为容器内的像素坐标；null 时隐藏
+  update(position: { x: number; y: number } | null, active: boolean, progress: number) {
+    const el = this.element;
+    if (!position) {
+      el.style.display = 'none';
+      return;
+    }
+    el.style.display = 'block';
+    el.style.transform = `translate(${position.x - CURSOR_SIZE / 2}px, ${position.y - CURSOR_SIZE / 2}px) scale(${active ? 1.25 : 1})`;
+    el.style.background = progress > 0
+      ? `conic-gradient(rgba(212, 175, 55, 0.7) ${progress * 360}deg, transparent 0)`
+      : active ? 'rgba(212, 175, 55, 0.25)' : 'transparent';
+  }
+
+  dispose() {
+    this.element.remove();
+  }
+}
@@ -0,0 +1,144 @@
+import * as THREE from 'three';
+
+export type QualityTier = 'LOW' | 'MEDIUM' | 'HIGH' | 'ULTRA';
+// AUTO 时按帧时间自动升降档，否则固定为所选档位
+export type QualitySetting = 'AUTO' | QualityTier;
+
+export const QUALITY_TIERS: QualityTier[] = ['LOW', 'MEDIUM', 'HIGH', 'ULTRA'];
+
+export interface QualityProfile {
+  // 粒子数量相对基准数量的倍数
+  particles: number;
+  // 像素比上限，低于 1 时以低于屏幕的分辨率渲染
+  pixelRatio: number;
+  // 泛光强度相对主题设置的倍数
+  bloom: number;
+  // 后期合成渲染目标的 MSAA 采样数
+  samples: number;
+  shadows: boolean;
+}
+
+export const QUALITY_PROFILES: Record<QualityTier, QualityProfile> = {
+  LOW: { particles: 0.5, pixelRatio: 0.75, bloom: 2 / 3, samples: 0, shadows: false },
+  MEDIUM: { particles: 0.75, pixelRatio: 1, bloom: 0.85, samples: 0, shadows: false },
+  HIGH: { particles: 1, pixelRatio: 1.5, bloom: 1, samples: 4, shadows: false },
+  ULTRA: { particles: 1.5, pixelRatio: 2, bloom: 1, samples: 4, shadows: true }
+};
+
+// HIGH 档的粒子数量
+export const BASE_PARTICLE_COUNTS = { needles: 1200, ornaments: 800, snow: 2000 };
+
+export interface SceneStats {
+  fps: number;
+  frameMs: number;
+  drawCalls: number;
+  particles: number;
+  particleBytes: number;
+  textures: number;
+  textureBytes: number;
+  tier: QualityTier;
+  auto: boolean;
+}
+
+// 起始档位按硬件粗略估计，之后由帧时间修正；ULTRA 只能通过升档到达
+export const initialQualityTier = (): QualityTier => {
+  const cores = navigator.hardwareConcurrency || 4;
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? 4;
+  if (cores <= 2 || memory <= 2) return 'LOW';
+  if (cores <= 4 || matchMedia('(pointer: coarse)').matches) return 'MEDIUM';
+  return 'HIGH';
+};
+
+// 按 RGBA8 估算，带 mipmap 的纹理多出约三分之一
+export const estimateTextureBytes = (texture: THREE.Texture) => {
+  const image = texture.image as { width?: number; height?: number } | null;
+  const bytes = (image?.width ?? 0) * (image?.height ?? 0) * 4;
+  return texture.generateMipmaps ? Math.round(bytes * 4 / 3) : bytes;
+};
+
+const WINDOW_FRAMES = 60;
+// 平均帧时间超过此值（低于约 45 FPS）降档
+const DOWNGRADE_MS = 1000 / 45;
+// 连续多个窗口都低于此值（约 57 FPS 以上）才升档
+const UPGRADE_MS = 1000 / 57;
+const UPGRADE_WINDOWS = 5;
+// 换档后重建粒子会卡顿几帧，这段时间的样本不计入
+const SETTLE_FRAMES = 90;
+// 标签页切到后台或断点调试造成的长帧不代表渲染负载
+const MAX_SAMPLE_MS = 250;
+
+/**
+ * Watches frame intervals and steps the quality tier down when frames run
+ * slow and back up after a sustained stretch of smooth frames. A tier that
+ * once had to be left needs twice as long to be re-entered each time, so
+ * the scene does not flip between two tiers.
+ */
+export default class QualityManager {
+  private auto: boolean;
+  private current: QualityTier;
+  private frames = 0;
+  private total = 0;
+  private smoothWindows = 0;
+  private settle = SETTLE_FRAMES;
+  private failures: Record<QualityTier, number> = { LOW: 0, MEDIUM: 0, HIGH: 0, ULTRA: 0 };
+
+  constructor(setting: QualitySetting, private onChange: (tier: QualityTier) => void) {
+    this.auto = setting === 'AUTO';
+    this.current = setting === 'AUTO' ? initialQualityTier() : setting;
+  }
+
+  get tier() {
+    return this.current;
+  }
+
+  get adaptive() {
+    return this.auto;
+  }
+
+  setSetting(setting: QualitySetting) {
+    this.auto = setting === 'AUTO';
+    if (setting !== 'AUTO') this.change(setting);
+    else this.reset();
+  }
+
+  record(frameMs: number) {
+    if (!this.auto || frameMs > MAX_SAMPLE_MS) return;
+    if (this.settle > 0) {
+      this.settle--;
+      return;
+    }
+    this.frames++;
+    this.total += frameMs;
+    if (this.frames < WINDOW_FRAMES) return;
+    const average = this.total / this.frames;
+    this.frames = 0;
+    this.total = 0;
+
+    const index = QUALITY_TIERS.indexOf(this.current);
+    if (average > DOWNGRADE_MS) {
+      this.smoothWindows = 0;
+      if (index > 0) {
+        this.failures[this.current]++;
+        this.change(QUALITY_TIERS[index - 1]);
+      }
+      return;
+    }
+    this.smoothWindows = average < UPGRADE_MS ? this.smoothWindows + 1 : 0;
+    const next = QUALITY_TIERS[index + 1];
+    if (next && this.smoothWindows >= UPGRADE_WINDOWS * 2 ** this.failures[next]) this.change(next);
+  }
+
+  private change(tier: QualityTier) {
+    this.reset();
+    if (tier === this.current) return;
+    this.current = tier;
+    this.onChange(tier);
+  }
+
+  private reset() {
+    this.frames = 0;
+    this.total = 0;
+    this.smoothWindows = 0;
+    this.settle = SETTLE_FRAMES;
+  }
+}
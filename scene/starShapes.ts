@@ -0,0 +1,41 @@
+import * as THREE from 'three';
+import { StarShape } from '../types';
+
+// 星形多边形：points 个尖角，inner 为内圈半径占外圈的比例
+const starPolygon = (points: number, radius: number, inner: number) => {
+  const shape = new THREE.Shape();
+  for (let i = 0; i < points * 2; i++) {
+    const r = i % 2 === 0 ? radius : radius * inner;
+    const a = (i / (points * 2)) * Math.PI * 2 + Math.PI / 2;
+    if (i === 0) shape.moveTo(Math.cos(a) * r, Math.sin(a) * r);
+    else shape.lineTo(Math.cos(a) * r, Math.sin(a) * r);
+  }
+  shape.closePath();
+  return shape;
+};
+
+const extrude = (shape: THREE.Shape, depth: number) => {
+  const geometry = new THREE.ExtrudeGeometry(shape, {
+    depth, bevelEnabled: true, bevelThickness: 0.1, bevelSize: 0.08, bevelSegments: 1
+  });
+  geometry.center();
+  return geometry;
+};
+
+const lantern = () => {
+  const profile = [
+    [0, -1.4], [0.5, -1.4], [0.5, -1.2], [1.1, -0.8], [1.35, 0], [1.1, 0.8], [0.5, 1.2], [0.5, 1.4], [0, 1.4]
+  ].map(([x, y]) => new THREE.Vector2(x, y));
+  return new THREE.LatheGeometry(profile, 12);
+};
+
+// 树顶装饰的几何体，尺寸与默认的八面体（半径 1.5）相近
+export const createStarGeometry = (shape: StarShape): THREE.BufferGeometry => {
+  switch (shape) {
+    case 'STAR': return extrude(starPolygon(5, 1.9, 0.45), 0.4);
+    case 'HEXAGRAM': return extrude(starPolygon(6, 1.8, 0.58), 0.3);
+    case 'SNOWFLAKE': return extrude(starPolygon(12, 1.9, 0.3), 0.15);
+    case 'LANTERN': return lantern();
+    default: return new THREE.OctahedronGeometry(1.5, 0);
+  }
+};
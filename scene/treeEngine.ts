@@ -0,0 +1,1181 @@
+import * as THREE from 'three';
+import { EffectComposer } from 'three/addons/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/addons/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/addons/postprocessing/UnrealBloomPass.js';
+import { RoomEnvironment } from 'three/addons/environments/RoomEnvironment.js';
+import { AppMode, DecorationLayout, DecorationModel, HandData, InputAction, MemoryPhoto, Palette, Theme } from '../types';
+import InstancedParticles, { Twinkle } from './instancedParticles';
+import ParticleBenchmark, { BenchmarkResult } from './benchmark';
+import {
+  DEFAULT_MORPH_DURATION, FormationMotion, ParticleKind, ParticleTargets, formationForMode, formationMotion, getFormation
+} from './formations';
+import { morphProgress } from './morph';
+import { PhysicsFrame, ShakeDetector, WindField } from './physics';
+import { HandCursor, HandSelection, SceneTarget, sameTarget } from './picking';
+import { CHRISTMAS_DAY, ornamentDay, photoDay, timeOfDayLight, unlockedDays } from './advent';
+import { createStarGeometry } from './starShapes';
+import DecorationLayer from './decorations';
+import QualityManager, {
+  BASE_PARTICLE_COUNTS, QUALITY_PROFILES, QualitySetting, QualityTier, SceneStats, estimateTextureBytes
+} from './quality';
+import InputController, { wrapFocusIndex } from '../services/input';
+import { FOCUS_SLIDE_MS } from '../constants';
+import { DEFAULT_THEME, THEME_FONTS, themeLines } from '../services/theme';
+import { snapshotSize } from '../services/capture';
+import { AudioLevel } from '../services/audio';
+import { ADVENT_DAYS, AdventState, adventState } from '../services/advent';
+import { systemPrefersReducedMotion } from '../services/accessibilitySettings';
+
+export interface TreeEngineOptions {
+  mode?: AppMode;
+  theme?: Theme;
+  photos?: MemoryPhoto[];
+  // 按 id 选用已注册的造型，优先于 mode 绑定的造型；未注册的 id 不生效
+  formation?: string | null;
+  formationText?: string;
+  focusIndex?: number;
+  quality?: QualitySetting;
+  // 降临节日历的进度；未提供时按当前日期计算，当天的格子视为已打开
+  advent?: AdventState;
+  // 减少动态效果；未提供时跟随系统设置
+  reducedMotion?: boolean;
+  // 树形造型中显示的装饰布局与其引用的模型
+  decorations?: DecorationLayout;
+  decorationModels?: DecorationModel[];
+  // 键盘快捷键的监听对象；嵌入其他页面时传入宿主元素，避免接管整页按键
+  keyTarget?: HTMLElement | Window;
+}
+
+// 每帧读取一次的音乐电平来源
+export interface AudioSource {
+  sample(now: number): AudioLevel;
+}
+
+export interface TreeEngineEventMap {
+  // 第一帧渲染完成
+  ready: void;
+  action: InputAction;
+  qualitychange: QualityTier;
+  // 有订阅者时约每半秒统计一次
+  stats: SceneStats;
+  benchmark: BenchmarkResult[];
+  // 指针移到照片或装饰球上、或移开时
+  hover: SceneTarget | null;
+  // 点击，或用手指向照片停留、对准装饰球捏合保持
+  select: SceneTarget;
+  // 装饰编辑时点击树面，或对准树面捏合保持；位置为树的局部坐标
+  place: [number, number, number];
+  dispose: void;
+}
+
+type Listener<K extends keyof TreeEngineEventMap> = (detail: TreeEngineEventMap[K]) => void;
+
+const _targetQuat = new THREE.Quaternion();
+const _fromQuat = new THREE.Quaternion();
+const _targetScale = new THREE.Vector3();
+const _groupQuat = new THREE.Quaternion();
+const _matrix = new THREE.Matrix4();
+const _highlightScale = new THREE.Matrix4().makeScale(1.6, 1.6, 1.6);
+const _ndc = new THREE.Vector2();
+const _point = new THREE.Vector3();
+
+class Particle {
+  mesh: THREE.Object3D;
+  targetPos: THREE.Vector3;
+  targetRot: THREE.Euler;
+  targetScale: THREE.Vector3;
+  type: 'PHOTO' | 'STAR';
+  twinkleOffset: number;
+  twinkleSpeed: number;
+  velocity: THREE.Vector3;
+  baseScale: number;
+  morphFrom = new THREE.Vector3();
+  morphFromQuat = new THREE.Quaternion();
+  morphStart = NaN;
+  morphDuration = 0;
+  morphPending = false;
+  // 隐藏时缩为 0，例如降临节日历中尚未解锁的照片
+  revealed = true;
+
+  constructor(mesh: THREE.Object3D, type: 'PHOTO' | 'STAR') {
+    this.mesh = mesh;
+    this.type = type;
+    this.targetPos = new THREE.Vector3().copy(mesh.position);
+    this.targetRot = new THREE.Euler().copy(mesh.rotation);
+    this.targetScale = new THREE.Vector3().copy(mesh.scale);
+    this.baseScale = mesh.scale.x;
+    this.twinkleOffset = Math.random() * Math.PI * 2;
+    this.twinkleSpeed = 0.5 + Math.random() * 2;
+    this.velocity = new THREE.Vector3(
+      (Math.random() - 0.5) * 0.02,
+      -0.01 - Math.random() * 0.03,
+      (Math.random() - 0.5) * 0.02
+    );
+  }
+
+  setTargets({ positions, rotations, scales }: ParticleTargets, i: number) {
+    this.targetPos.fromArray(positions, i * 3);
+    if (rotations) this.targetRot.set(rotations[i * 3], rotations[i * 3 + 1], rotations[i * 3 + 2]);
+    if (scales) this.targetScale.setScalar(scales[i]);
+  }
+
+  beginMorph(duration: number) {
+    this.morphFrom.copy(this.mesh.position);
+    this.morphFromQuat.copy(this.mesh.quaternion);
+    this.morphDuration = duration;
+    this.morphPending = true;
+  }
+
+  update(motion: FormationMotion, time: number, morphOffset: number, twinkle: Twinkle) {
+    const lerpFactor = motion.lerp;
+    if (this.morphPending) {
+      this.morphStart = time;
+      this.morphPending = false;
+    }
+    const morphElapsed = (time - this.morphStart) / this.morphDuration;
+    _targetQuat.setFromEuler(this.targetRot);
+    if (morphElapsed < 1) {
+      const p = morphProgress(morphElapsed, morphOffset);
+      this.mesh.position.lerpVectors(this.morphFrom, this.targetPos, p);
+      this.mesh.quaternion.slerpQuaternions(_fromQuat.copy(this.morphFromQuat), _targetQuat, p);
+    } else {
+      this.morphStart = NaN;
+      this.mesh.position.lerp(this.targetPos, lerpFactor);
+      this.mesh.quaternion.slerp(_targetQuat, lerpFactor);
+    }
+
+    if (this.type === 'STAR') {
+        const s = this.baseScale * twinkle.scale * (0.8 + Math.sin(twinkle.time * this.twinkleSpeed + this.twinkleOffset) * twinkle.amplitude);
+        this.mesh.scale.lerp(_targetScale.setScalar(this.revealed ? s : 0), 0.1);
+    } else {
+        this.mesh.scale.lerp(_targetScale.copy(this.targetScale).multiplyScalar(this.revealed ? 1 : 0), lerpFactor);
+    }
+
+    if (motion.spin) {
+        this.mesh.rotation.x += this.velocity.x * 5;
+        this.mesh.rotation.y += this.velocity.y * 5;
+    }
+  }
+}
+
+interface ParticleSystems {
+  needles: InstancedParticles;
+  shapes: InstancedParticles;
+  snow: InstancedParticles;
+}
+
+interface PhotoEntry {
+  particle: Particle;
+  photoMat: THREE.MeshBasicMaterial;
+  src: string;
+}
+
+const resetPan = (material: THREE.MeshBasicMaterial | null) => {
+  material?.map?.repeat.set(1, 1);
+  material?.map?.offset.set(0, 0);
+};
+
+const loadPhotoTexture = (src: string, onLoad: (texture: THREE.Texture) => void) => {
+  new THREE.TextureLoader().load(src, (t) => {
+    t.colorSpace = THREE.SRGBColorSpace;
+    onLoad(t);
+  });
+};
+
+const disposeObject = (object: THREE.Object3D) => {
+  object.traverse(obj => {
+    if (!(obj instanceof THREE.Mesh)) return;
+    obj.geometry.dispose();
+    (Array.isArray(obj.material) ? obj.material : [obj.material]).forEach((material: THREE.Material) => {
+      if (material instanceof THREE.MeshBasicMaterial) material.map?.dispose();
+      material.dispose();
+    });
+  });
+};
+
+const bloomStrength = (bloom: number, tier: QualityTier) => bloom * QUALITY_PROFILES[tier].bloom;
+
+const pixelRatioFor = (tier: QualityTier) => Math.min(window.devicePixelRatio, QUALITY_PROFILES[tier].pixelRatio);
+
+const particleCounts = (tier: QualityTier) => {
+  const scale = QUALITY_PROFILES[tier].particles;
+  return {
+    needles: Math.round(BASE_PARTICLE_COUNTS.needles * scale),
+    ornaments: Math.round(BASE_PARTICLE_COUNTS.ornaments * scale),
+    snow: Math.round(BASE_PARTICLE_COUNTS.snow * scale)
+  };
+};
+
+// 核心光的基础亮度，随音乐增强
+const CORE_LIGHT_INTENSITY = 10;
+// 装饰球与星星的闪烁幅度；减少动态效果时几乎不闪
+const TWINKLE_AMPLITUDE = 0.3;
+const REDUCED_TWINKLE_AMPLITUDE = 0.05;
+const STATS_INTERVAL_MS = 500;
+// 容器宽度低于此值时拉远镜头并收窄造型，只影响构图，画质由 QualityManager 决定
+const NARROW_WIDTH = 768;
+// 地面圆盘，积雪与脱落的装饰球都停在这里
+const FLOOR_Y = -12;
+const FLOOR_RADIUS = 40;
+// 物理步长上限，切回标签页等长时间停顿后不会一步跳太远
+const MAX_PHYSICS_DT = 0.05;
+// 按下后移动超过此距离（像素）视为拖动旋转，不算点击
+const CLICK_SLOP = 6;
+// 双手扭转角度到树旋转角度的倍数
+const TWIST_GAIN = 1.5;
+
+const cardFont = (theme: Theme) => `bold 70px ${THEME_FONTS[theme.font].family}`;
+
+const drawGreetingCard = (canvas: HTMLCanvasElement, theme: Theme) => {
+  const ctx = canvas.getContext('2d')!;
+  const lines = themeLines(theme.font === 'SCRIPT' ? theme.greeting : theme.greeting.toUpperCase()).slice(0, 4);
+  const lineHeight = 100;
+  const top = canvas.height / 2 - ((lines.length - 1) * lineHeight) / 2;
+  // 底色取主色调的暗部，默认配色下即原来的深绿
+  ctx.fillStyle = new THREE.Color(theme.palette.emerald).multiplyScalar(0.35).getStyle(); ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = theme.palette.gold; ctx.font = cardFont(theme); ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => ctx.fillText(line, canvas.width / 2, top + i * lineHeight, canvas.width - 40));
+};
+
+/**
+ * The particle tree as a standalone renderer. It sizes itself to its
+ * container, owns its animation loop and input handling, and releases every
+ * GPU resource and listener in dispose(), so hosts can mount and unmount it
+ * freely. State changes go through setters; everything the scene reports
+ * back is an event.
+ */
+export default class TreeEngine {
+  readonly container: HTMLElement;
+  private scene = new THREE.Scene();
+  private group = new THREE.Group();
+  private camera: THREE.PerspectiveCamera;
+  private cameraDistance: number;
+  private renderer: THREE.WebGLRenderer;
+  private composer: EffectComposer;
+  private bloomPass: UnrealBloomPass;
+  private pmremGenerator: THREE.PMREMGenerator;
+  private coreLight: THREE.PointLight;
+  private floorMat: THREE.MeshStandardMaterial;
+  private starMesh: THREE.Mesh;
+  private materials: Record<keyof Palette, THREE.MeshStandardMaterial>;
+  private snowMat: THREE.MeshBasicMaterial;
+  private geometries: { sphere: THREE.BufferGeometry; needle: THREE.BufferGeometry; snow: THREE.BufferGeometry };
+  private greetingTexture: THREE.CanvasTexture;
+  private greeting: Particle;
+  private greetingMat: THREE.MeshBasicMaterial;
+  private input: InputController;
+  private quality: QualityManager;
+  private benchmark: ParticleBenchmark;
+  private resizeObserver: ResizeObserver;
+  private clock = new THREE.Clock();
+  private twinkle: Twinkle = { time: 0, scale: 1, amplitude: TWINKLE_AMPLITUDE };
+  private wind = new WindField();
+  private shakeDetector = new ShakeDetector();
+  private physics: PhysicsFrame = {
+    dt: 0, wind: new THREE.Vector3(), windSpeed: 0, shake: 0, snowSurface: null, floorY: FLOOR_Y, floorRadius: FLOOR_RADIUS
+  };
+  private pendingShake = 0;
+  // 上一次手或指针的画面位置，用于估计移动速度
+  private lastMotion: { x: number; y: number; at: number } | null = null;
+  private twoHands: HandData['twoHands'] | null = null;
+  private raycaster = new THREE.Raycaster();
+  // 指针在容器中的相对位置（0–1）；手在画面中时以食指指尖为准
+  private mousePointer: { x: number; y: number } | null = null;
+  private handPointer: { x: number; y: number } | null = null;
+  private pressedAt: { x: number; y: number } | null = null;
+  private hovered: SceneTarget | null = null;
+  private handSelection = new HandSelection();
+  private cursor: HandCursor;
+  private highlight: THREE.Mesh;
+  private decorations: DecorationLayer;
+  // 装饰编辑中：只能选中已放置的物件与树面，树不自转
+  private editing = false;
+  // 最近一次指向树面的位置
+  private surfacePoint = new THREE.Vector3();
+  private listeners = new Map<keyof TreeEngineEventMap, Set<(detail: never) => void>>();
+
+  private particles: Particle[] = [];
+  private systems: ParticleSystems | null = null;
+  private photoEntries = new Map<string, PhotoEntry>();
+  private photos: MemoryPhoto[] = [];
+  private kenBurns: { material: THREE.MeshBasicMaterial | null; startedAt: number } = { material: null, startedAt: 0 };
+  private mode: AppMode;
+  private formationId: string | null;
+  private motion: FormationMotion;
+  private theme: Theme;
+  private formationText: string;
+  private focusIndex: number;
+  private advent: AdventState;
+  // 核心光亮度倍数，降临节模式下随时刻与已打开的天数变化
+  private lightLevel = 1;
+  private reducedMotion: boolean;
+  private handData: HandData | null = null;
+  private autoPlay = false;
+  private audio: AudioSource | null = null;
+  private multiplier = 1;
+  private pixelRatio: number;
+  private narrow: boolean;
+  private frameId = 0;
+  private lastFrame = performance.now();
+  private lastTime = 0;
+  private statsWindow = { frames: 0, since: performance.now() };
+  private greetingRedraw = 0;
+  private ready = false;
+  private disposed = false;
+
+  constructor(container: HTMLElement, options: TreeEngineOptions = {}) {
+    this.container = container;
+    this.mode = options.mode ?? AppMode.TREE;
+    this.formationId = options.formation ?? null;
+    this.reducedMotion = options.reducedMotion ?? systemPrefersReducedMotion();
+    this.motion = this.formationMotion();
+    this.theme = options.theme ?? DEFAULT_THEME;
+    this.formationText = options.formationText ?? '';
+    this.focusIndex = options.focusIndex ?? 0;
+    this.advent = options.advent ?? { ...adventState(new Date(), null), opened: true };
+    const theme = this.theme;
+    const { width, height } = this.size();
+    this.narrow = width < NARROW_WIDTH;
+
+    this.quality = new QualityManager(options.quality ?? 'AUTO', tier => this.applyTier(tier));
+    this.camera = new THREE.PerspectiveCamera(this.narrow ? 60 : 45, width / height, 1, 1000);
+    this.camera.position.set(0, 5, this.narrow ? 65 : 55);
+    this.cameraDistance = this.camera.position.z;
+
+    // 画面经后期合成输出，画布自身的抗锯齿不起作用；抗锯齿由合成器渲染目标的 MSAA 按档位提供
+    const renderer = new THREE.WebGLRenderer({ antialias: false, alpha: true });
+    this.renderer = renderer;
+    this.pixelRatio = pixelRatioFor(this.quality.tier);
+    renderer.setSize(width, height);
+    renderer.setPixelRatio(this.pixelRatio);
+    renderer.toneMapping = THREE.ReinhardToneMapping;
+    renderer.toneMappingExposure = 2.2;
+    // 一帧内合成器会多次渲染，手动清零才能统计整帧的绘制调用
+    renderer.info.autoReset = false;
+    renderer.domElement.style.display = 'block';
+    container.appendChild(renderer.domElement);
+    this.input = new InputController(renderer.domElement, {
+      onAction: action => this.emit('action', action),
+      keyTarget: options.keyTarget
+    });
+    renderer.domElement.addEventListener('pointermove', this.handlePointerMove);
+    renderer.domElement.addEventListener('pointerleave', this.handlePointerLeave);
+    renderer.domElement.addEventListener('pointerdown', this.handlePointerDown);
+    renderer.domElement.addEventListener('click', this.handleClick);
+    this.cursor = new HandCursor(container);
+
+    this.pmremGenerator = new THREE.PMREMGenerator(renderer);
+    this.scene.environment = this.pmremGenerator.fromScene(new RoomEnvironment(), 0.04).texture;
+
+    this.composer = new EffectComposer(renderer);
+    this.composer.addPass(new RenderPass(this.scene, this.camera));
+    this.bloomPass = new UnrealBloomPass(
+      new THREE.Vector2(width, height),
+      bloomStrength(theme.bloom, this.quality.tier),
+      0.5,
+      0.85
+    );
+    this.composer.addPass(this.bloomPass);
+
+    this.scene.add(new THREE.AmbientLight(0xffffff, 0.4));
+    this.coreLight = new THREE.PointLight(theme.light, CORE_LIGHT_INTENSITY, 25);
+    this.coreLight.position.set(0, 5, 0);
+    this.coreLight.shadow.mapSize.set(512, 512);
+    this.coreLight.shadow.bias = -0.002;
+    this.scene.add(this.coreLight);
+
+    const floorGeo = new THREE.CircleGeometry(FLOOR_RADIUS, 32);
+    this.floorMat = new THREE.MeshStandardMaterial({
+        color: theme.floor, metalness: 0.8, roughness: 0.2, transparent: true, opacity: 0.6
+    });
+    const floor = new THREE.Mesh(floorGeo, this.floorMat);
+    floor.rotation.x = -Math.PI / 2;
+    floor.position.y = FLOOR_Y;
+    floor.receiveShadow = true;
+    this.scene.add(floor);
+
+    this.scene.add(this.group);
+
+    this.materials = {
+      gold: new THREE.MeshStandardMaterial({ color: theme.palette.gold, metalness: theme.metalness, roughness: theme.roughness }),
+      emerald: new THREE.MeshStandardMaterial({ color: theme.palette.emerald, roughness: 0.5 }),
+      ruby: new THREE.MeshStandardMaterial({ color: theme.palette.ruby, roughness: theme.roughness })
+    };
+
+    this.starMesh = new THREE.Mesh(createStarGeometry(theme.star), new THREE.MeshBasicMaterial({ color: 0xfffce0 }));
+    this.group.add(this.starMesh);
+    this.particles.push(new Particle(this.starMesh, 'STAR'));
+
+    this.geometries = {
+      sphere: new THREE.SphereGeometry(0.4, 12, 12),
+      needle: new THREE.CylinderGeometry(0.02, 0.05, 1.5, 4),
+      snow: new THREE.IcosahedronGeometry(0.08, 0)
+    };
+    this.snowMat = new THREE.MeshBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.4 });
+
+    // 悬停的装饰球外罩一层发光球壳，变换每帧从实例矩阵复制
+    this.highlight = new THREE.Mesh(this.geometries.sphere, new THREE.MeshBasicMaterial({
+      color: 0xfffce0, transparent: true, opacity: 0.35, blending: THREE.AdditiveBlending, depthWrite: false
+    }));
+    this.highlight.matrixAutoUpdate = false;
+    this.highlight.visible = false;
+    this.group.add(this.highlight);
+
+    this.decorations = new DecorationLayer(this.materials);
+    this.group.add(this.decorations.group);
+    this.scene.add(this.decorations.selection);
+    this.decorations.setModels(options.decorationModels ?? []);
+    if (options.decorations) this.decorations.setLayout(options.decorations);
+
+    this.buildParticles(1);
+    this.benchmark = new ParticleBenchmark(multiplier => this.buildParticles(multiplier), results => this.emit('benchmark', results));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = 512; canvas.height = 640;
+    this.greetingTexture = new THREE.CanvasTexture(canvas);
+    const greetingCard = this.addPhotoToScene(this.greetingTexture);
+    this.greeting = greetingCard.particle;
+    this.greetingMat = greetingCard.photoMat;
+    this.redrawGreeting();
+
+    this.setPhotos(options.photos ?? []);
+    this.applyTier(this.quality.tier);
+    this.applyFormation(undefined, true);
+    this.applyLighting();
+
+    this.resizeObserver = new ResizeObserver(() => this.resize());
+    this.resizeObserver.observe(container);
+    this.animate();
+  }
+
+  get canvas() {
+    return this.renderer.domElement;
+  }
+
+  get tier() {
+    return this.quality.tier;
+  }
+
+  // 装饰球数量随画质档位变化，留言按螺旋位置对应到其中一颗
+  get ornamentCount() {
+    return this.systems?.shapes.count ?? 0;
+  }
+
+  on<K extends keyof TreeEngineEventMap>(type: K, listener: Listener<K>) {
+    let listeners = this.listeners.get(type);
+    if (!listeners) this.listeners.set(type, listeners = new Set());
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  }
+
+  setMode(mode: AppMode) {
+    if (mode === this.mode) return;
+    this.mode = mode;
+    this.motion = this.formationMotion();
+    this.applyFormation(undefined, true);
+    this.applyLighting();
+  }
+
+  setFormation(id: string | null) {
+    if (id === this.formationId) return;
+    this.formationId = id;
+    this.motion = this.formationMotion();
+    this.applyFormation(undefined, true);
+  }
+
+  // 打开当天的格子时，当天解锁的装饰球和照片从树顶飞到各自的位置
+  setAdvent(advent: AdventState) {
+    const previous = this.advent;
+    if (advent.day === previous.day && advent.opened === previous.opened && advent.hour === previous.hour) return;
+    this.advent = advent;
+    this.applyAdvent(advent.day === previous.day && advent.opened && !previous.opened);
+    this.applyLighting();
+  }
+
+  setFocusIndex(index: number) {
+    if (index === this.focusIndex) return;
+    this.focusIndex = index;
+    if (this.mode === AppMode.FOCUS) this.applyFormation(['PHOTO'], true);
+  }
+
+  setFormationText(text: string) {
+    if (text === this.formationText) return;
+    this.formationText = text;
+    if (this.currentFormation().id === 'text') this.applyFormation(['SHAPE', 'NEEDLE'], true);
+  }
+
+  setHandData(handData: HandData | null) {
+    this.handData = handData;
+    // 摄像头画面未镜像，翻转 x 让风朝用户挥手的方向吹，指针与用户看到的镜像画面一致
+    if (handData) this.trackMotion(1 - handData.x, handData.y, performance.now());
+    this.handPointer = handData?.pointer ? { x: 1 - handData.pointer.x, y: handData.pointer.y } : null;
+    if (!this.handPointer) this.handSelection.reset();
+    // 双手张开拉近、合拢拉远，像转方向盘一样扭转则旋转树；与手动输入一样暂时接管单手旋转
+    const twoHands = handData?.twoHands ?? null;
+    const previous = this.twoHands;
+    if (twoHands && previous && twoHands.distance > 0) {
+      const delta = twoHands.angle - previous.angle;
+      // 画面未镜像，取反后与用户看到的扭转方向一致
+      this.input.rotate(-Math.atan2(Math.sin(delta), Math.cos(delta)) * TWIST_GAIN, 0);
+      this.input.zoomBy(previous.distance / twoHands.distance);
+    }
+    this.twoHands = twoHands;
+  }
+
+  // 照片或装饰球在容器中的像素坐标；位于镜头后方或已不存在时为 null
+  targetPosition(target: SceneTarget) {
+    const systems = this.systems;
+    if (target.kind === 'ORNAMENT') {
+      if (!systems || target.index >= systems.shapes.count) return null;
+      _point.setFromMatrixPosition(systems.shapes.matrixAt(target.index, _matrix)).applyMatrix4(this.group.matrixWorld);
+    } else if (target.kind === 'PHOTO') {
+      const particle = this.orderedPhotos()[target.index];
+      if (!particle) return null;
+      particle.mesh.getWorldPosition(_point);
+    } else {
+      return null;
+    }
+    _point.project(this.camera);
+    if (_point.z > 1) return null;
+    const { width, height } = this.size();
+    return { x: ((_point.x + 1) / 2) * width, y: ((1 - _point.y) / 2) * height };
+  }
+
+  // 摇晃整棵树：装饰球摆动，部分被震落后再回到原位；strength 为 0–1
+  shake(strength = 1) {
+    this.pendingShake = Math.max(this.pendingShake, Math.min(strength, 1));
+  }
+
+  // 停止自转与散开时的旋转，闪烁、节拍脉冲和 Ken Burns 推拉也随之关闭或减弱；
+  // 风、摇晃与积雪的物理模拟同样停止，雪花恢复匀速飘落
+  setReducedMotion(reducedMotion: boolean) {
+    if (reducedMotion === this.reducedMotion) return;
+    this.reducedMotion = reducedMotion;
+    this.motion = this.formationMotion();
+    if (reducedMotion && this.systems) Object.values(this.systems).forEach(system => system.settle());
+  }
+
+  // 装饰只在树形造型中显示，编辑时无论处于哪种模式都显示
+  setDecorations(layout: DecorationLayout) {
+    this.decorations.setLayout(layout);
+  }
+
+  setDecorationModels(models: DecorationModel[]) {
+    this.decorations.setModels(models);
+  }
+
+  setEditing(editing: boolean) {
+    this.editing = editing;
+    if (!editing) this.decorations.setSelected(null);
+  }
+
+  setSelectedDecoration(index: number | null) {
+    this.decorations.setSelected(index);
+  }
+
+  // FOCUS 模式下开启 Ken Burns 缓慢推拉
+  setAutoPlay(autoPlay: boolean) {
+    this.autoPlay = autoPlay;
+  }
+
+  setAudio(audio: AudioSource | null) {
+    this.audio = audio;
+  }
+
+  setQuality(setting: QualitySetting) {
+    this.quality.setSetting(setting);
+  }
+
+  setTheme(theme: Theme) {
+    const previous = this.theme;
+    if (theme === previous) return;
+    this.theme = theme;
+    if (theme.palette !== previous.palette || theme.metalness !== previous.metalness || theme.roughness !== previous.roughness) {
+      const { gold, emerald, ruby } = this.materials;
+      gold.color.set(theme.palette.gold);
+      emerald.color.set(theme.palette.emerald);
+      ruby.color.set(theme.palette.ruby);
+      gold.metalness = theme.metalness;
+      gold.roughness = theme.roughness;
+      ruby.roughness = theme.roughness;
+    }
+    this.applyLighting();
+    if (theme.star !== previous.star) {
+      this.starMesh.geometry.dispose();
+      this.starMesh.geometry = createStarGeometry(theme.star);
+    }
+    if (theme.snow !== previous.snow && this.systems) {
+      const expected = Math.round(particleCounts(this.quality.tier).snow * this.multiplier * theme.snow);
+      if (this.systems.snow.count !== expected) this.rebuildSnow();
+    }
+    if (theme.greeting !== previous.greeting || theme.font !== previous.font || theme.palette !== previous.palette) {
+      this.redrawGreeting();
+    }
+  }
+
+  // 相册顺序即 FOCUS 中的翻页顺序；同 id 的照片替换原有图片
+  setPhotos(photos: MemoryPhoto[]) {
+    const idsOf = (list: MemoryPhoto[]) => list.map(photo => photo.id).join('\n');
+    const reordered = idsOf(photos) !== idsOf(this.photos);
+    this.photos = photos;
+    const entries = this.photoEntries;
+    const ids = new Set(photos.map(photo => photo.id));
+    entries.forEach((entry, id) => {
+      if (!ids.has(id)) {
+        this.removePhotoFromScene(entry);
+        entries.delete(id);
+      }
+    });
+    photos.forEach(photo => {
+      let entry = entries.get(photo.id);
+      if (entry && entry.src === photo.src) return;
+      if (!entry) {
+        entry = { ...this.addPhotoToScene(null), src: photo.src };
+        entries.set(photo.id, entry);
+      }
+      const target = entry;
+      target.src = photo.src;
+      loadPhotoTexture(photo.src, (t) => {
+        // 加载期间照片可能已被删除或替换，或引擎已释放
+        if (entries.get(photo.id) !== target || target.src !== photo.src) {
+          t.dispose();
+          return;
+        }
+        this.setPhotoTexture(target.photoMat, t);
+      });
+    });
+    // 只改了说明文字或换了图片时不重新排布，照片的位置与放大的那张保持不变
+    if (reordered) this.applyFormation(['PHOTO']);
+  }
+
+  addPhoto(photo: MemoryPhoto) {
+    const exists = this.photos.some(p => p.id === photo.id);
+    this.setPhotos(exists ? this.photos.map(p => (p.id === photo.id ? photo : p)) : [...this.photos, photo]);
+  }
+
+  removePhoto(id: string) {
+    this.setPhotos(this.photos.filter(p => p.id !== id));
+  }
+
+  // 以与本机拖动相同的方式旋转，例如遥控端发来的增量（弧度）
+  rotate(dYaw: number, dPitch: number) {
+    this.input.rotate(dYaw, dPitch);
+  }
+
+  startBenchmark() {
+    this.benchmark.start();
+  }
+
+  cancelBenchmark() {
+    this.benchmark.cancel();
+  }
+
+  // 截图：临时以 1 倍像素比按目标分辨率渲染一帧（不受画质档位影响，也不含页面界面），随后恢复
+  snapshot(longEdge: number) {
+    const { renderer, composer } = this;
+    const view = this.size();
+    const { width, height } = snapshotSize(longEdge, view.width / view.height, renderer.capabilities.maxTextureSize);
+    renderer.setPixelRatio(1);
+    renderer.setSize(width, height, false);
+    composer.setPixelRatio(1);
+    composer.setSize(width, height);
+    composer.render();
+    // 画布背景透明，先铺黑底；在同一任务内复制画面，因此无需 preserveDrawingBuffer
+    const output = document.createElement('canvas');
+    output.width = width; output.height = height;
+    const ctx = output.getContext('2d')!;
+    ctx.fillStyle = '#000'; ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(renderer.domElement, 0, 0);
+    renderer.setPixelRatio(this.pixelRatio);
+    renderer.setSize(view.width, view.height, false);
+    composer.setPixelRatio(this.pixelRatio);
+    composer.setSize(view.width, view.height);
+    return new Promise<Blob>((resolve, reject) => output.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Snapshot is empty.'))), 'image/png'
+    ));
+  }
+
+  dispose() {
+    if (this.disposed) return;
+    this.disposed = true;
+    cancelAnimationFrame(this.frameId);
+    this.resizeObserver.disconnect();
+    this.input.dispose();
+    const canvas = this.renderer.domElement;
+    canvas.removeEventListener('pointermove', this.handlePointerMove);
+    canvas.removeEventListener('pointerleave', this.handlePointerLeave);
+    canvas.removeEventListener('pointerdown', this.handlePointerDown);
+    canvas.removeEventListener('click', this.handleClick);
+    this.cursor.dispose();
+    this.benchmark.cancel();
+    if (this.systems) Object.values(this.systems).forEach(system => system.dispose());
+    this.systems = null;
+    this.photoEntries.clear();
+    this.decorations.dispose();
+    disposeObject(this.scene);
+    Object.values(this.geometries).forEach(geometry => geometry.dispose());
+    Object.values(this.materials).forEach(material => material.dispose());
+    this.snowMat.dispose();
+    this.scene.environment?.dispose();
+    this.pmremGenerator.dispose();
+    this.bloomPass.dispose();
+    this.composer.dispose();
+    this.renderer.dispose();
+    // 立即释放 WebGL 上下文：浏览器同时存在的上下文数量有限，反复挂载时不能等垃圾回收
+    this.renderer.forceContextLoss();
+    this.renderer.domElement.remove();
+    this.emit('dispose', undefined);
+    this.listeners.clear();
+  }
+
+  private currentFormation() {
+    return (this.formationId && getFormation(this.formationId)) || formationForMode(this.mode);
+  }
+
+  private formationMotion(): FormationMotion {
+    const motion = formationMotion(this.currentFormation());
+    return this.reducedMotion ? { ...motion, spin: false } : motion;
+  }
+
+  private emit<K extends keyof TreeEngineEventMap>(type: K, detail: TreeEngineEventMap[K]) {
+    (this.listeners.get(type) as Set<Listener<K>> | undefined)?.forEach(listener => listener(detail));
+  }
+
+  private size() {
+    return { width: this.container.clientWidth || 1, height: this.container.clientHeight || 1 };
+  }
+
+  private resize() {
+    const { width, height } = this.size();
+    const narrow = width < NARROW_WIDTH;
+    this.camera.aspect = width / height;
+    this.camera.fov = narrow ? 60 : 45;
+    this.camera.updateProjectionMatrix();
+    this.renderer.setSize(width, height);
+    this.composer.setSize(width, height);
+    if (narrow !== this.narrow) {
+      this.narrow = narrow;
+      this.applyFormation();
+    }
+  }
+
+  private handlePointerMove = (e: PointerEvent) => {
+    const pointer = this.relativePointer(e);
+    this.trackMotion(pointer.x, pointer.y, e.timeStamp);
+    // 触摸只用于拖动旋转，没有悬停
+    if (e.pointerType === 'mouse') this.mousePointer = pointer;
+  };
+
+  private handlePointerLeave = () => {
+    this.mousePointer = null;
+  };
+
+  private handlePointerDown = (e: PointerEvent) => {
+    this.pressedAt = { x: e.clientX, y: e.clientY };
+  };
+
+  private handleClick = (e: MouseEvent) => {
+    const pressed = this.pressedAt;
+    this.pressedAt = null;
+    if (pressed && Math.hypot(e.clientX - pressed.x, e.clientY - pressed.y) > CLICK_SLOP) return;
+    const target = this.pick(this.relativePointer(e));
+    if (target) this.fire(target);
+  };
+
+  private fire(target: SceneTarget) {
+    if (target.kind === 'TREE') this.emit('place', this.surfacePoint.toArray());
+    else this.emit('select', target);
+  }
+
+  private relativePointer(e: MouseEvent) {
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / (rect.width || 1), y: (e.clientY - rect.top) / (rect.height || 1) };
+  }
+
+  // 射线检测照片与装饰球，返回最近的一个；装饰编辑时改为检测已放置的物件与树面
+  private pick({ x, y }: { x: number; y: number }): SceneTarget | null {
+    const systems = this.systems;
+    if (!systems) return null;
+    this.raycaster.setFromCamera(_ndc.set(x * 2 - 1, 1 - y * 2), this.camera);
+    if (this.editing) {
+      const index = this.decorations.pick(this.raycaster);
+      if (index !== null) return { kind: 'DECORATION', index };
+      const point = this.decorations.pickSurface(this.raycaster);
+      if (!point) return null;
+      this.surfacePoint.copy(point);
+      return { kind: 'TREE', index: 0 };
+    }
+    const photos = this.orderedPhotos();
+    const hits = this.raycaster.intersectObjects([...photos.map(p => p.mesh), ...systems.shapes.meshes], true);
+    for (const hit of hits) {
+      if (hit.instanceId !== undefined) {
+        const index = systems.shapes.particleAt(hit.object, hit.instanceId);
+        if (index >= 0 && systems.shapes.isRevealed(index)) return { kind: 'ORNAMENT', index };
+      }
+      // 命中的可能是相框或其中的照片平面
+      const index = photos.findIndex(p => p.mesh === hit.object || p.mesh === hit.object.parent);
+      if (index >= 0 && photos[index].revealed) return { kind: 'PHOTO', index };
+    }
+    return null;
+  }
+
+  // 树在转动，指针不动时指向的对象也会变化，因此每帧重新检测
+  private updatePointer(now: number) {
+    const { handPointer, systems, highlight } = this;
+    const pointer = handPointer ?? this.mousePointer;
+    const target = pointer ? this.pick(pointer) : null;
+    if (!sameTarget(target, this.hovered)) {
+      this.hovered = target;
+      this.canvas.style.cursor = target && !handPointer ? (target.kind === 'TREE' ? 'crosshair' : 'pointer') : '';
+      this.emit('hover', target);
+    }
+    let progress = 0;
+    if (handPointer) {
+      const selection = this.handSelection.update(target, !!this.handData?.pinch, now);
+      progress = selection.progress;
+      if (selection.fire) this.fire(target!);
+    }
+    const { width, height } = this.size();
+    this.cursor.update(handPointer && { x: handPointer.x * width, y: handPointer.y * height }, !!target, progress);
+    highlight.visible = target?.kind === 'ORNAMENT' && !!systems && target.index < systems.shapes.count;
+    if (highlight.visible) systems!.shapes.matrixAt(target!.index, highlight.matrix).multiply(_highlightScale);
+  }
+
+  // 手或指针的移动速度推动风场，快速左右来回则摇晃整棵树
+  private trackMotion(x: number, y: number, now: number) {
+    const last = this.lastMotion;
+    this.lastMotion = { x, y, at: now };
+    // 间隔过长说明中途停下或丢失过追踪，不计算速度
+    if (!last || now <= last.at || now - last.at > 200) return;
+    if (this.reducedMotion) return;
+    const seconds = (now - last.at) / 1000;
+    const vx = (x - last.x) / seconds;
+    const vy = (y - last.y) / seconds;
+    this.wind.push(vx, vy);
+    const shake = this.shakeDetector.sample(vx, now);
+    if (shake) this.shake(shake);
+  }
+
+  private addPhotoToScene(texture: THREE.Texture | null) {
+    const frameGeo = new THREE.BoxGeometry(4.2, 5.2, 0.15);
+    const frameMat = new THREE.MeshStandardMaterial({
+        color: 0xd4af37, metalness: 0.9, roughness: 0.1, envMapIntensity: 1.5
+    });
+    const frame = new THREE.Mesh(frameGeo, frameMat);
+    const photoGeo = new THREE.PlaneGeometry(4, 5);
+    const photoMat = new THREE.MeshBasicMaterial({ map: texture, color: texture ? 0xffffff : 0x051a05, side: THREE.DoubleSide });
+    const photo = new THREE.Mesh(photoGeo, photoMat);
+    photo.position.z = 0.08;
+    frame.add(photo);
+    frame.position.set((Math.random()-0.5)*50, (Math.random()-0.5)*50, (Math.random()-0.5)*50);
+    this.group.add(frame);
+    const particle = new Particle(frame, 'PHOTO');
+    this.particles.push(particle);
+    return { particle, photoMat };
+  }
+
+  private setPhotoTexture(photoMat: THREE.MeshBasicMaterial, texture: THREE.Texture) {
+    photoMat.map?.dispose();
+    photoMat.map = texture;
+    photoMat.color.set(0xffffff);
+    photoMat.needsUpdate = true;
+  }
+
+  private removePhotoFromScene({ particle }: PhotoEntry) {
+    this.group.remove(particle.mesh);
+    this.particles = this.particles.filter(p => p !== particle);
+    disposeObject(particle.mesh);
+  }
+
+  // 贺卡始终在第一位，其后按相册顺序排列
+  private orderedPhotos() {
+    const list = this.photos
+      .map(photo => this.photoEntries.get(photo.id)?.particle)
+      .filter((p): p is Particle => !!p);
+    return this.greeting ? [this.greeting, ...list] : list;
+  }
+
+  // 顺序与 orderedPhotos 一致，用于找到 FOCUS 中放大的那张
+  private focusedMaterial() {
+    const materials = [this.greetingMat, ...this.photos.map(p => this.photoEntries.get(p.id)?.photoMat)]
+      .filter((m): m is THREE.MeshBasicMaterial => !!m);
+    if (!materials.length) return null;
+    return materials[wrapFocusIndex(this.focusIndex, materials.length)];
+  }
+
+  private applyFormation(kinds?: ParticleKind[], morph = false) {
+    const systems = this.systems;
+    if (!systems) return;
+    const formation = this.currentFormation();
+    const photoParticles = this.orderedPhotos();
+    const stars = this.particles.filter(p => p.type === 'STAR');
+    const layout = formation.build({
+      counts: {
+        NEEDLE: systems.needles.count,
+        SHAPE: systems.shapes.count,
+        DUST: systems.snow.count,
+        PHOTO: photoParticles.length,
+        STAR: stars.length
+      },
+      isMobile: this.narrow,
+      text: this.formationText,
+      focusIndex: this.focusIndex
+    });
+    const duration = formation.morphDuration ?? DEFAULT_MORPH_DURATION;
+    const include = (kind: ParticleKind) => !!layout[kind] && (!kinds || kinds.includes(kind));
+
+    ([['NEEDLE', systems.needles], ['SHAPE', systems.shapes], ['DUST', systems.snow]] as const).forEach(([kind, system]) => {
+      if (!include(kind)) return;
+      system.setTargets(layout[kind]!);
+      if (morph) system.beginMorph(duration);
+    });
+    ([['PHOTO', photoParticles], ['STAR', stars]] as const).forEach(([kind, list]) => {
+      if (!include(kind)) return;
+      list.forEach((p, i) => {
+        p.setTargets(layout[kind]!, i);
+        if (morph) p.beginMorph(duration);
+      });
+    });
+    this.applyAdvent();
+  }
+
+  // 降临节模式下只显示已解锁的装饰球、照片与星星，其他模式全部显示
+  private applyAdvent(reveal = false) {
+    const systems = this.systems;
+    if (!systems) return;
+    const active = this.mode === AppMode.ADVENT;
+    const days = active ? unlockedDays(this.advent) : ADVENT_DAYS;
+    const photos = this.orderedPhotos();
+    // 贺卡排在第一位，与星星一样留到圣诞节
+    const albumCount = photos.length - (this.greeting ? 1 : 0);
+    const dayOf = (i: number) => (this.greeting && i === 0 ? CHRISTMAS_DAY : photoDay(i - (this.greeting ? 1 : 0), albumCount));
+    systems.shapes.setRevealed(i => ornamentDay(i) <= days);
+    photos.forEach((p, i) => { p.revealed = dayOf(i) <= days; });
+    this.particles.forEach(p => { if (p.type === 'STAR') p.revealed = days >= CHRISTMAS_DAY; });
+    if (!reveal || !active) return;
+    const { x, y, z } = this.starMesh.position;
+    for (let i = 0; i < systems.shapes.count; i++) {
+      if (ornamentDay(i) === this.advent.day) systems.shapes.launchFrom(i, x, y, z);
+    }
+    photos.forEach((p, i) => {
+      if (dayOf(i) !== this.advent.day) return;
+      p.mesh.position.set(x, y, z);
+      p.mesh.scale.setScalar(0);
+    });
+  }
+
+  // 主题的灯光与地面颜色；降临节模式下再按当地时刻调整色调，并随已打开的天数逐渐变亮
+  private applyLighting() {
+    const { theme } = this;
+    this.coreLight.color.set(theme.light);
+    this.floorMat.color.set(theme.floor);
+    this.lightLevel = 1;
+    if (this.mode !== AppMode.ADVENT) return;
+    const light = timeOfDayLight(this.advent.hour);
+    this.coreLight.color.multiply(light.tint);
+    this.floorMat.color.lerp(light.floor, light.floorMix);
+    this.lightLevel = light.intensity * (0.4 + 0.6 * unlockedDays(this.advent) / ADVENT_DAYS);
+  }
+
+  private createSnow(multiplier: number) {
+    return new InstancedParticles({
+      type: 'DUST', count: Math.round(particleCounts(this.quality.tier).snow * multiplier * this.theme.snow),
+      geometry: this.geometries.snow, materials: [this.snowMat],
+      initialPosition: (_, out) => out.set((Math.random()-0.5)*100, Math.random()*50 - 20, (Math.random()-0.5)*100)
+    });
+  }
+
+  // 针叶、装饰球与雪花均为实例化渲染，每类只需一到两次绘制调用
+  private buildParticles(multiplier: number) {
+    this.multiplier = multiplier;
+    if (this.systems) Object.values(this.systems).forEach(system => system.dispose());
+    const counts = particleCounts(this.quality.tier);
+    const { gold, emerald, ruby } = this.materials;
+    const systems: ParticleSystems = {
+      needles: new InstancedParticles({
+        type: 'NEEDLE', count: counts.needles * multiplier, geometry: this.geometries.needle, materials: [emerald]
+      }),
+      shapes: new InstancedParticles({
+        type: 'SHAPE', count: counts.ornaments * multiplier, geometry: this.geometries.sphere, materials: [gold, ruby],
+        pickMaterial: () => Math.random() > 0.6 ? 0 : 1
+      }),
+      snow: this.createSnow(multiplier)
+    };
+    Object.values(systems).forEach(system => this.group.add(...system.meshes));
+    [...systems.needles.meshes, ...systems.shapes.meshes].forEach(mesh => { mesh.castShadow = true; });
+    this.systems = systems;
+    this.applyFormation(['NEEDLE', 'SHAPE', 'DUST']);
+    return systems.needles.count + systems.shapes.count + systems.snow.count;
+  }
+
+  // 调整雪量时只重建雪花，树形保持不动
+  private rebuildSnow() {
+    const systems = this.systems;
+    if (!systems) return;
+    systems.snow.dispose();
+    systems.snow = this.createSnow(this.multiplier);
+    this.group.add(...systems.snow.meshes);
+    this.applyFormation(['DUST']);
+  }
+
+  private redrawGreeting() {
+    const texture = this.greetingTexture;
+    const theme = this.theme;
+    const redraw = () => {
+      drawGreetingCard(texture.image as HTMLCanvasElement, theme);
+      texture.needsUpdate = true;
+    };
+    redraw();
+    // 网页字体加载完成后重绘，否则画布会使用后备字体；期间主题再次变化则放弃
+    const token = ++this.greetingRedraw;
+    document.fonts?.load(cardFont(theme), theme.greeting).then(() => {
+      if (token === this.greetingRedraw && !this.disposed) redraw();
+    });
+  }
+
+  private applyTier(tier: QualityTier) {
+    const { renderer, composer } = this;
+    const profile = QUALITY_PROFILES[tier];
+    this.pixelRatio = pixelRatioFor(tier);
+    renderer.setPixelRatio(this.pixelRatio);
+    composer.setPixelRatio(this.pixelRatio);
+    // 采样数只在创建渲染目标时生效，释放后下一帧按新值重建
+    [composer.renderTarget1, composer.renderTarget2].forEach(target => {
+      if (target.samples === profile.samples) return;
+      target.samples = profile.samples;
+      target.dispose();
+    });
+    if (renderer.shadowMap.enabled !== profile.shadows) {
+      renderer.shadowMap.enabled = profile.shadows;
+      this.coreLight.castShadow = profile.shadows;
+      // 阴影开关会改变着色器，材质需要重新编译
+      this.scene.traverse(obj => {
+        if (obj instanceof THREE.Mesh) (Array.isArray(obj.material) ? obj.material : [obj.material]).forEach(m => { m.needsUpdate = true; });
+      });
+    }
+    if (this.systems && this.systems.needles.count !== particleCounts(tier).needles * this.multiplier) {
+      this.buildParticles(this.multiplier);
+    }
+    this.emit('qualitychange', tier);
+  }
+
+  private collectStats(frames: number, elapsed: number): SceneStats {
+    const systems = this.systems ? Object.values(this.systems) : [];
+    const textures = new Set<THREE.Texture>();
+    if (this.scene.environment) textures.add(this.scene.environment);
+    this.scene.traverse(obj => {
+      if (!(obj instanceof THREE.Mesh)) return;
+      (Array.isArray(obj.material) ? obj.material : [obj.material]).forEach(m => {
+        if (m instanceof THREE.MeshBasicMaterial && m.map) textures.add(m.map);
+      });
+    });
+    return {
+      fps: frames * 1000 / elapsed,
+      frameMs: elapsed / frames,
+      drawCalls: this.renderer.info.render.calls,
+      particles: systems.reduce((sum, system) => sum + system.count, 0) + this.particles.length,
+      particleBytes: systems.reduce((sum, system) => sum + system.byteLength, 0),
+      textures: textures.size,
+      textureBytes: [...textures].reduce((sum, texture) => sum + estimateTextureBytes(texture), 0),
+      tier: this.quality.tier,
+      auto: this.quality.adaptive
+    };
+  }
+
+  private animate = () => {
+    const frameStart = performance.now();
+    this.renderer.info.reset();
+    const time = this.clock.getElapsedTime();
+    const { motion, group, input, systems, twinkle, physics, reducedMotion } = this;
+    physics.dt = Math.min(time - this.lastTime, MAX_PHYSICS_DT);
+    const currentHand = this.handData;
+    // 没有音乐时 energy 与 pulse 为 0，闪烁、泛光与光照保持原样
+    const level = this.audio?.sample(frameStart);
+    const energy = level?.energy ?? 0;
+    // 减少动态效果时不随节拍闪动，闪烁也不随音乐加快
+    const pulse = reducedMotion ? 0 : level?.pulse ?? 0;
+    twinkle.time += (time - this.lastTime) * (reducedMotion ? 1 : 1 + energy * 2);
+    twinkle.scale = 1 + pulse * 0.25;
+    twinkle.amplitude = reducedMotion ? REDUCED_TWINKLE_AMPLITUDE : TWINKLE_AMPLITUDE;
+    this.lastTime = time;
+    this.bloomPass.strength = bloomStrength(this.theme.bloom, this.quality.tier) * (1 + pulse * 0.5);
+    this.coreLight.intensity = CORE_LIGHT_INTENSITY * this.lightLevel * (1 + energy * 0.8 + pulse * 0.6);
+    // 风在世界坐标中吹，粒子位置在树的局部坐标中，需抵消树的旋转
+    this.wind.update(physics.dt, time);
+    physics.wind.copy(this.wind.velocity).applyQuaternion(_groupQuat.copy(group.quaternion).invert());
+    physics.windSpeed = this.wind.velocity.length();
+    physics.shake = this.pendingShake;
+    physics.snowSurface = this.currentFormation().snowSurface ?? null;
+    this.pendingShake = 0;
+    if (systems) {
+      const frame = reducedMotion ? undefined : physics;
+      systems.needles.update(motion, time, twinkle, frame);
+      systems.shapes.update(motion, time, twinkle, frame);
+      systems.snow.update(motion, time, twinkle, frame);
+    }
+    this.particles.forEach((p, i) => p.update(motion, time, i / this.particles.length, twinkle));
+    if (!reducedMotion) this.starMesh.rotation.y += 0.02;
+    this.decorations.update(time, this.editing || this.currentFormation().id === 'tree', reducedMotion);
+    // 树顶换成导入的模型时隐藏星星
+    this.starMesh.visible = !this.decorations.hasTopper;
+    input.update(frameStart);
+    if (input.isManual(frameStart)) {
+      group.rotation.y = THREE.MathUtils.lerp(group.rotation.y, input.yaw, 0.2);
+      group.rotation.x = THREE.MathUtils.lerp(group.rotation.x, input.pitch, 0.2);
+    } else {
+      if (currentHand) {
+        group.rotation.y = THREE.MathUtils.lerp(group.rotation.y, (currentHand.x - 0.5) * 2.0, 0.1);
+        group.rotation.x = THREE.MathUtils.lerp(group.rotation.x, (currentHand.y - 0.5) * 1.5, 0.1);
+      } else if (motion.autoRotate) {
+        // 减少动态效果或装饰编辑时停在当前角度，不自动转动
+        if (!reducedMotion && !this.editing) group.rotation.y += 0.003;
+      } else {
+        // 平面造型需正对镜头：回到最近的整圈角度
+        const facing = Math.round(group.rotation.y / (Math.PI * 2)) * Math.PI * 2;
+        group.rotation.y = THREE.MathUtils.lerp(group.rotation.y, facing, 0.05);
+        group.rotation.x = THREE.MathUtils.lerp(group.rotation.x, 0, 0.05);
+      }
+      input.sync(group.rotation.y, group.rotation.x);
+    }
+    // Ken Burns：自动播放时缓慢推近并平移当前照片，换片时复位
+    const kenBurns = this.kenBurns;
+    const panMaterial = this.mode === AppMode.FOCUS && this.autoPlay && !reducedMotion ? this.focusedMaterial() : null;
+    if (kenBurns.material !== panMaterial) {
+      resetPan(kenBurns.material);
+      kenBurns.material = panMaterial;
+      kenBurns.startedAt = frameStart;
+    }
+    if (panMaterial?.map) {
+      const t = Math.min((frameStart - kenBurns.startedAt) / FOCUS_SLIDE_MS, 1);
+      const repeat = 1 / (1 + 0.18 * t);
+      const pan = this.focusIndex % 2 ? t : 1 - t;
+      panMaterial.map.repeat.setScalar(repeat);
+      panMaterial.map.offset.set((1 - repeat) * pan, (1 - repeat) * 0.5);
+    }
+    this.camera.position.z = THREE.MathUtils.lerp(this.camera.position.z, this.cameraDistance * input.zoom, 0.1);
+    this.updatePointer(frameStart);
+    this.composer.render();
+
+    const frameMs = frameStart - this.lastFrame;
+    this.benchmark.record(frameMs, performance.now() - frameStart);
+    // 跑分时粒子数由跑分控制，不参与自动调档
+    if (!this.benchmark.running) this.quality.record(frameMs);
+    this.lastFrame = frameStart;
+    const stats = this.statsWindow;
+    stats.frames++;
+    if (!this.listeners.get('stats')?.size) {
+      stats.frames = 0;
+      stats.since = frameStart;
+    } else if (frameStart - stats.since >= STATS_INTERVAL_MS) {
+      this.emit('stats', this.collectStats(stats.frames, frameStart - stats.since));
+      stats.frames = 0;
+      stats.since = frameStart;
+    }
+    if (!this.ready) {
+      this.ready = true;
+      this.emit('ready', undefined);
+    }
+    // 事件回调中可能已调用 dispose
+    if (!this.disposed) this.frameId = requestAnimationFrame(this.animate);
+  };
+}
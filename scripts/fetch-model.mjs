@@ -0,0 +1,21 @@
+// 构建前下载手部关键点模型到 public/mediapipe，随应用一起部署
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+const target = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../public/mediapipe/hand_landmarker.task');
+
+if (fs.existsSync(target)) {
+  console.log(`Model already present: ${path.relative(process.cwd(), target)}`);
+  process.exit(0);
+}
+
+const res = await fetch(MODEL_URL);
+if (!res.ok) {
+  console.error(`Failed to download ${MODEL_URL}: ${res.status} ${res.statusText}`);
+  process.exit(1);
+}
+fs.mkdirSync(path.dirname(target), { recursive: true });
+fs.writeFileSync(target, Buffer.from(await res.arrayBuffer()));
+console.log(`Downloaded hand landmarker model to ${path.relative(process.cwd(), target)}`);
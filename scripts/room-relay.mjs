@@ -0,0 +1,156 @@
+// 房间中继：把每条消息转发给同一房间的其他连接。无第三方依赖，可在局域网内任意一台电脑上运行：
+//   npm run relay            （默认端口 8787，可用 PORT 环境变量修改）
+// 客户端连接 ws://<主机>:<端口>/?room=<房间码>
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// 照片以 data URL 传输，遥控端会先压缩，这里留足余量
+const MAX_MESSAGE = 16 * 1024 * 1024;
+const PING_INTERVAL = 30_000;
+
+const rooms = new Map();
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+class Client {
+  constructor(socket, room) {
+    this.socket = socket;
+    this.room = room;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.fragmentOpcode = 0;
+    this.alive = true;
+    socket.on('data', chunk => this.receive(chunk));
+    socket.on('close', () => this.leave());
+    socket.on('error', () => this.leave());
+  }
+
+  send(opcode, payload) {
+    if (!this.socket.destroyed) this.socket.write(encodeFrame(opcode, payload));
+  }
+
+  close(code = 1000) {
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.send(0x8, payload);
+    this.socket.end();
+    this.leave();
+  }
+
+  leave() {
+    const peers = rooms.get(this.room);
+    if (!peers?.delete(this)) return;
+    if (!peers.size) rooms.delete(this.room);
+    console.log(`[${this.room}] peer left (${peers.size} connected)`);
+  }
+
+  receive(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        const big = this.buffer.readBigUInt64BE(2);
+        if (big > BigInt(MAX_MESSAGE)) return this.close(1009);
+        length = Number(big);
+        offset = 10;
+      }
+      // 客户端发来的帧必须带掩码
+      if (!masked) return this.close(1002);
+      if (length > MAX_MESSAGE) return this.close(1009);
+      if (this.buffer.length < offset + 4 + length) return;
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+      this.handleFrame(fin, opcode, payload);
+    }
+  }
+
+  handleFrame(fin, opcode, payload) {
+    if (opcode === 0x8) return this.close();
+    if (opcode === 0x9) return this.send(0xa, payload);
+    if (opcode === 0xa) {
+      this.alive = true;
+      return;
+    }
+    if (opcode !== 0x0) this.fragmentOpcode = opcode;
+    this.fragments.push(payload);
+    const size = this.fragments.reduce((sum, part) => sum + part.length, 0);
+    if (size > MAX_MESSAGE) return this.close(1009);
+    if (!fin) return;
+    const message = Buffer.concat(this.fragments);
+    this.fragments = [];
+    rooms.get(this.room)?.forEach(peer => {
+      if (peer !== this) peer.send(this.fragmentOpcode, message);
+    });
+  }
+}
+
+const server = http.createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end(`Magical tree room relay: ${rooms.size} active room(s)\n`);
+});
+
+server.on('upgrade', (req, socket) => {
+  const room = new URL(req.url ?? '/', 'http://relay').searchParams.get('room')?.toUpperCase();
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key || !room) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', ''
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+  const peers = rooms.get(room) ?? new Set();
+  rooms.set(room, peers);
+  peers.add(new Client(socket, room));
+  console.log(`[${room}] peer joined (${peers.size} connected)`);
+});
+
+// 定期 ping，清理已断开但未收到关闭帧的连接
+setInterval(() => {
+  rooms.forEach(peers => peers.forEach(peer => {
+    if (!peer.alive) {
+      peer.socket.destroy();
+      peer.leave();
+      return;
+    }
+    peer.alive = false;
+    peer.send(0x9, Buffer.alloc(0));
+  }));
+}, PING_INTERVAL);
+
+server.listen(PORT, () => {
+  console.log(`Room relay listening on ws://localhost:${PORT}/?room=<code>`);
+});
@@ -0,0 +1,37 @@
+const STORAGE_KEY = "magical-tree:accessibility";
+
+// SYSTEM 跟随系统的"减少动态效果"设置
+export type MotionPreference = "SYSTEM" | "REDUCED" | "FULL";
+
+export const MOTION_PREFERENCES: MotionPreference[] = ["SYSTEM", "REDUCED", "FULL"];
+
+export interface AccessibilitySettings {
+  motion: MotionPreference;
+  highContrast: boolean;
+}
+
+export const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
+  motion: "SYSTEM",
+  highContrast: false
+};
+
+export const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+export const systemPrefersReducedMotion = () =>
+  typeof matchMedia === "function" && matchMedia(REDUCED_MOTION_QUERY).matches;
+
+export const loadAccessibilitySettings = (): AccessibilitySettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    return {
+      motion: MOTION_PREFERENCES.includes(stored?.motion) ? stored.motion : DEFAULT_ACCESSIBILITY_SETTINGS.motion,
+      highContrast: stored?.highContrast === true
+    };
+  } catch {
+    return DEFAULT_ACCESSIBILITY_SETTINGS;
+  }
+};
+
+export const saveAccessibilitySettings = (settings: AccessibilitySettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
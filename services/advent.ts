@@ -0,0 +1,68 @@
+const STORAGE_KEY = "magical-tree:advent";
+
+// 12 月 1 日到 25 日，每天打开一格
+export const ADVENT_DAYS = 25;
+
+/**
+ * Where the advent calendar stands on a given date: the calendar day
+ * (0 before 1 December), whether today's door has been opened, and the
+ * local hour that drives the time-of-day lighting.
+ */
+export interface AdventState {
+  day: number;
+  opened: boolean;
+  hour: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// 本地日期的 YYYY-MM-DD 形式，也是 <input type="date"> 的取值格式
+export const dateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// 预览日期只替换年月日，时刻沿用 now，倒计时与光照仍按当前时间变化
+export const applyPreviewDate = (key: string, now: Date): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  if (!match) return null;
+  const date = new Date(now);
+  date.setFullYear(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) || dateKey(date) !== key ? null : date;
+};
+
+// 12 月 26 日起整棵树保持全部打开，直到年底
+export const adventDay = (date: Date) => (date.getMonth() === 11 ? Math.min(date.getDate(), ADVENT_DAYS) : 0);
+
+// 距圣诞节的整天数；当天为 0，圣诞节之后计到下一年
+export const daysUntilChristmas = (date: Date) => {
+  const today = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  let christmas = new Date(date.getFullYear(), 11, ADVENT_DAYS);
+  if (today > christmas) christmas = new Date(date.getFullYear() + 1, 11, ADVENT_DAYS);
+  return Math.round((christmas.getTime() - today.getTime()) / 86400000);
+};
+
+// 到下一个午夜（下一格解锁）的毫秒数
+export const msUntilMidnight = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime() - date.getTime();
+
+export const adventState = (date: Date, openedDate: string | null): AdventState => {
+  const day = adventDay(date);
+  return {
+    day,
+    // 12 月以外没有要打开的格子
+    opened: day === 0 || openedDate === dateKey(date),
+    hour: date.getHours() + date.getMinutes() / 60
+  };
+};
+
+// 只记录最近打开的日期；错过的日子在之后自动打开，只有当天需要手动打开
+export const loadOpenedDate = (): string | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    return typeof stored?.opened === "string" ? stored.opened : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveOpenedDate = (opened: string) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ opened }));
+};
@@ -0,0 +1,185 @@
+/**
+ * Built-in ambient tracks, synthesized with Web Audio so the app ships no
+ * audio files. Each track is a loop of eighth-note steps; the player
+ * schedules a short window ahead of the audio clock so timing stays tight
+ * even when the main thread is busy.
+ */
+
+export type AmbientTrackId = "MUSIC_BOX" | "SLEIGH_BELLS" | "WINTER_PAD";
+
+export interface AmbientTrack {
+  id: AmbientTrackId;
+  bpm: number;
+  // 一个循环包含的八分音符数
+  steps: number;
+  play: (ctx: BaseAudioContext, out: AudioNode, step: number, time: number, stepDuration: number) => void;
+}
+
+const hz = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
+
+const envelope = (ctx: BaseAudioContext, out: AudioNode, time: number, peak: number, attack: number, decay: number) => {
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0, time);
+  gain.gain.linearRampToValueAtTime(peak, time + attack);
+  gain.gain.exponentialRampToValueAtTime(0.0001, time + attack + decay);
+  gain.connect(out);
+  return gain;
+};
+
+// 正弦基音加一个非整数倍泛音，近似音乐盒 / 钟声
+export const bell = (ctx: BaseAudioContext, out: AudioNode, time: number, midi: number, peak = 0.2, decay = 1.2) => {
+  const gain = envelope(ctx, out, time, peak, 0.005, decay);
+  [[1, 1], [2.76, 0.3]].forEach(([ratio, level]) => {
+    const osc = ctx.createOscillator();
+    const partial = ctx.createGain();
+    osc.frequency.value = hz(midi) * ratio;
+    partial.gain.value = level;
+    osc.connect(partial).connect(gain);
+    osc.start(time);
+    osc.stop(time + decay + 0.05);
+  });
+};
+
+const pad = (ctx: BaseAudioContext, out: AudioNode, time: number, chord: number[], duration: number, peak = 0.05) => {
+  const filter = ctx.createBiquadFilter();
+  filter.type = "lowpass";
+  filter.frequency.value = 900;
+  filter.connect(envelope(ctx, out, time, peak, duration * 0.4, duration * 0.8));
+  chord.forEach(midi => [-6, 6].forEach(cents => {
+    const osc = ctx.createOscillator();
+    osc.type = "sawtooth";
+    osc.frequency.value = hz(midi);
+    osc.detune.value = cents;
+    osc.connect(filter);
+    osc.start(time);
+    osc.stop(time + duration * 1.3);
+  }));
+};
+
+// 低频“咚”声，给频谱分析提供清晰的节拍
+const thump = (ctx: BaseAudioContext, out: AudioNode, time: number, peak = 0.5) => {
+  const osc = ctx.createOscillator();
+  osc.frequency.setValueAtTime(120, time);
+  osc.frequency.exponentialRampToValueAtTime(45, time + 0.15);
+  osc.connect(envelope(ctx, out, time, peak, 0.005, 0.25));
+  osc.start(time);
+  osc.stop(time + 0.3);
+};
+
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+const noise = (ctx: BaseAudioContext) => {
+  let buffer = noiseBuffers.get(ctx);
+  if (!buffer) {
+    buffer = ctx.createBuffer(1, ctx.sampleRate / 2, ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    noiseBuffers.set(ctx, buffer);
+  }
+  return buffer;
+};
+
+const shaker = (ctx: BaseAudioContext, out: AudioNode, time: number, peak = 0.08) => {
+  const source = ctx.createBufferSource();
+  const filter = ctx.createBiquadFilter();
+  source.buffer = noise(ctx);
+  filter.type = "highpass";
+  filter.frequency.value = 6000;
+  source.connect(filter).connect(envelope(ctx, out, time, peak, 0.003, 0.06));
+  source.start(time);
+  source.stop(time + 0.1);
+};
+
+const C5 = 72, D5 = 74, E5 = 76, F5 = 77, G5 = 79;
+const _ = null;
+
+// Jingle Bells 副歌，八个小节
+const JINGLE: (number | null)[] = [
+  E5, _, E5, _, E5, _, _, _,
+  E5, _, E5, _, E5, _, _, _,
+  E5, _, G5, _, C5, _, _, D5,
+  E5, _, _, _, _, _, _, _,
+  F5, _, F5, _, F5, _, _, F5,
+  F5, _, E5, _, E5, _, E5, E5,
+  E5, _, D5, _, D5, _, E5, _,
+  D5, _, _, _, G5, _, _, _
+];
+const JINGLE_BASS = [48, 48, 48, 48, 53, 48, 43, 43];
+
+// C - Am - F - G
+const CHORDS = [[60, 64, 67], [57, 60, 64], [53, 57, 60], [55, 59, 62]];
+const PAD_CHORDS = [[60, 64, 67, 71], [57, 60, 64, 67], [53, 57, 60, 64], [55, 59, 62, 64]];
+const SPARKLES = [84, 88, 91, 86];
+
+export const AMBIENT_TRACKS: AmbientTrack[] = [
+  {
+    id: "MUSIC_BOX",
+    bpm: 110,
+    steps: JINGLE.length,
+    play: (ctx, out, step, time) => {
+      const note = JINGLE[step];
+      if (note !== null) bell(ctx, out, time, note, 0.18, 1.4);
+      if (step % 4 === 0) bell(ctx, out, time, JINGLE_BASS[Math.floor(step / 8)], 0.12, 1.8);
+      if (step % 2 === 0) thump(ctx, out, time, step % 8 === 0 ? 0.35 : 0.2);
+    }
+  },
+  {
+    id: "SLEIGH_BELLS",
+    bpm: 120,
+    steps: 32,
+    play: (ctx, out, step, time, stepDuration) => {
+      const bar = Math.floor(step / 8);
+      shaker(ctx, out, time, step % 2 === 0 ? 0.1 : 0.05);
+      if (step % 2 === 0) thump(ctx, out, time, step % 4 === 0 ? 0.5 : 0.3);
+      if (step % 8 === 0) pad(ctx, out, time, CHORDS[bar], stepDuration * 8, 0.04);
+      if (step % 8 === 3 || step % 8 === 6) bell(ctx, out, time, CHORDS[bar][step % 3] + 12, 0.1, 0.8);
+    }
+  },
+  {
+    id: "WINTER_PAD",
+    bpm: 70,
+    steps: 32,
+    play: (ctx, out, step, time, stepDuration) => {
+      const bar = Math.floor(step / 8);
+      if (step % 8 === 0) {
+        pad(ctx, out, time, PAD_CHORDS[bar], stepDuration * 8, 0.05);
+        thump(ctx, out, time, 0.25);
+      }
+      if (step % 8 === 5) bell(ctx, out, time, SPARKLES[bar], 0.06, 2.5);
+    }
+  }
+];
+
+const LOOKAHEAD = 0.12;
+
+export default class AmbientPlayer {
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private step = 0;
+  private nextTime = 0;
+
+  constructor(private ctx: BaseAudioContext, private output: AudioNode, private track: AmbientTrack) {}
+
+  start() {
+    this.stop();
+    this.step = 0;
+    this.nextTime = this.ctx.currentTime + 0.05;
+    this.timer = setInterval(() => this.schedule(), 25);
+    this.schedule();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private schedule() {
+    const stepDuration = 60 / this.track.bpm / 2;
+    // 标签页在后台时定时器会被节流，跳过已错过的步，避免恢复时一次性补播
+    if (this.nextTime < this.ctx.currentTime) this.nextTime = this.ctx.currentTime + 0.05;
+    while (this.nextTime < this.ctx.currentTime + LOOKAHEAD) {
+      this.track.play(this.ctx, this.output, this.step % this.track.steps, this.nextTime, stepDuration);
+      this.nextTime += stepDuration;
+      this.step++;
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import AmbientPlayer, { AMBIENT_TRACKS, AmbientTrackId, bell } from "./ambientTracks";
+
+const STORAGE_KEY = "magical-tree:audio";
+
+export type MusicSource = "OFF" | AmbientTrackId | "FILE";
+
+export interface AudioSettings {
+  muted: boolean;
+  volume: number;
+  music: MusicSource;
+  cues: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  muted: false,
+  volume: 0.7,
+  music: "MUSIC_BOX",
+  cues: true
+};
+
+// 上传的音乐不做持久化，刷新后回到默认曲目
+export const loadAudioSettings = (): AudioSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    const settings = { ...DEFAULT_AUDIO_SETTINGS, ...stored };
+    const musicValid = settings.music === "OFF" || AMBIENT_TRACKS.some(track => track.id === settings.music);
+    return {
+      muted: settings.muted === true,
+      volume: typeof settings.volume === "number" ? Math.min(Math.max(settings.volume, 0), 1) : DEFAULT_AUDIO_SETTINGS.volume,
+      music: musicValid ? settings.music : DEFAULT_AUDIO_SETTINGS.music,
+      cues: settings.cues !== false
+    };
+  } catch {
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+};
+
+export const saveAudioSettings = (settings: AudioSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export interface AudioLevel {
+  // 整体响度，0–1，已平滑
+  energy: number;
+  // 检测到低频节拍时跳到 1，随后衰减
+  pulse: number;
+}
+
+// 五声音阶，不同造型的提示音音高不同
+const CUE_NOTES = [79, 81, 84, 86, 88, 91, 93, 96];
+
+/**
+ * Music, sound cues and the analyser that drives the scene. The
+ * AudioContext is only created in unlock(), which callers must invoke from a
+ * user gesture: browsers keep audio suspended until then, so nothing plays
+ * on page load regardless of the saved settings.
+ */
+export default class AudioEngine {
+  readonly level: AudioLevel = { energy: 0, pulse: 0 };
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private musicBus: GainNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private recordDestination: MediaStreamAudioDestinationNode | null = null;
+  private frequencies = new Uint8Array(0);
+  private settings = DEFAULT_AUDIO_SETTINGS;
+  private ambient: AmbientPlayer | null = null;
+  private ambientId: AmbientTrackId | null = null;
+  private fileAudio: HTMLAudioElement | null = null;
+  private fileSource: MediaElementAudioSourceNode | null = null;
+  private fileUrl: string | null = null;
+  private bassAverage = 0;
+  private lastBeat = 0;
+  private lastSample = 0;
+
+  get unlocked() {
+    return this.ctx?.state === "running";
+  }
+
+  get hasFile() {
+    return !!this.fileAudio;
+  }
+
+  // 正在输出音乐时可供录屏混入
+  get musicStream() {
+    return this.unlocked && this.playing ? this.recordDestination!.stream : null;
+  }
+
+  private get playing() {
+    return !this.settings.muted && this.settings.music !== "OFF";
+  }
+
+  async unlock() {
+    if (!this.ctx) {
+      const ctx = new AudioContext();
+      this.ctx = ctx;
+      this.master = ctx.createGain();
+      this.musicBus = ctx.createGain();
+      this.analyser = ctx.createAnalyser();
+      this.analyser.fftSize = 1024;
+      this.analyser.smoothingTimeConstant = 0.6;
+      this.frequencies = new Uint8Array(this.analyser.frequencyBinCount);
+      this.recordDestination = ctx.createMediaStreamDestination();
+      this.musicBus.connect(this.analyser);
+      this.musicBus.connect(this.master);
+      this.master.connect(ctx.destination);
+      this.master.connect(this.recordDestination);
+    }
+    if (this.ctx.state !== "running") await this.ctx.resume();
+    this.apply();
+  }
+
+  configure(settings: AudioSettings) {
+    this.settings = settings;
+    this.apply();
+  }
+
+  // 替换上传的音乐；之后 music 设为 "FILE" 即可播放
+  loadFile(file: File) {
+    this.releaseFile();
+    this.fileUrl = URL.createObjectURL(file);
+    this.fileAudio = new Audio(this.fileUrl);
+    this.fileAudio.loop = true;
+    this.apply();
+  }
+
+  cue(index: number) {
+    const { ctx, master } = this;
+    if (!ctx || !master || ctx.state !== "running" || this.settings.muted || !this.settings.cues) return;
+    const note = CUE_NOTES[((index % CUE_NOTES.length) + CUE_NOTES.length) % CUE_NOTES.length];
+    bell(ctx, master, ctx.currentTime, note, 0.15, 0.6);
+    bell(ctx, master, ctx.currentTime + 0.09, note + 7, 0.1, 0.8);
+  }
+
+  // 每帧调用一次；now 为毫秒时间戳
+  sample(now: number): AudioLevel {
+    const level = this.level;
+    const dt = this.lastSample ? now - this.lastSample : 16;
+    this.lastSample = now;
+    if (!this.analyser || !this.unlocked || !this.playing) {
+      level.energy *= 0.9;
+      level.pulse *= Math.exp(-dt / 150);
+      return level;
+    }
+    const data = this.frequencies;
+    this.analyser.getByteFrequencyData(data);
+    // fftSize 1024 时每个频点约 47 Hz，前几个频点即低音鼓所在频段
+    let bass = 0;
+    for (let i = 1; i <= 4; i++) bass += data[i];
+    bass /= 4 * 255;
+    let total = 0;
+    for (let i = 0; i < data.length; i++) total += data[i];
+    const energy = total / (data.length * 255);
+
+    this.bassAverage += (bass - this.bassAverage) * 0.05;
+    if (bass > 0.3 && bass > this.bassAverage * 1.25 && now - this.lastBeat > 200) {
+      this.lastBeat = now;
+      level.pulse = 1;
+    } else {
+      level.pulse *= Math.exp(-dt / 150);
+    }
+    level.energy += (Math.min(energy * 3, 1) - level.energy) * 0.2;
+    return level;
+  }
+
+  dispose() {
+    this.stopMusic();
+    this.releaseFile();
+    this.ctx?.close();
+    this.ctx = null;
+  }
+
+  private apply() {
+    const { ctx, master } = this;
+    if (!ctx || !master) return;
+    master.gain.setTargetAtTime(this.settings.muted ? 0 : this.settings.volume, ctx.currentTime, 0.05);
+    if (ctx.state !== "running" || !this.playing) {
+      this.stopMusic();
+      return;
+    }
+    if (this.settings.music === "FILE") {
+      this.stopAmbient();
+      // 经由 musicBus 播放，才能被频谱分析和录屏捕获
+      if (this.fileAudio && !this.fileSource) {
+        this.fileSource = ctx.createMediaElementSource(this.fileAudio);
+        this.fileSource.connect(this.musicBus!);
+      }
+      this.fileAudio?.play().catch(err => console.warn("Music playback failed:", err));
+      return;
+    }
+    this.fileAudio?.pause();
+    if (this.ambientId === this.settings.music) return;
+    this.stopAmbient();
+    const track = AMBIENT_TRACKS.find(track => track.id === this.settings.music)!;
+    this.ambient = new AmbientPlayer(ctx, this.musicBus!, track);
+    this.ambientId = track.id;
+    this.ambient.start();
+  }
+
+  private stopAmbient() {
+    this.ambient?.stop();
+    this.ambient = null;
+    this.ambientId = null;
+  }
+
+  private stopMusic() {
+    this.stopAmbient();
+    this.fileAudio?.pause();
+  }
+
+  private releaseFile() {
+    this.fileAudio?.pause();
+    this.fileSource?.disconnect();
+    this.fileAudio = null;
+    this.fileSource = null;
+    if (this.fileUrl) URL.revokeObjectURL(this.fileUrl);
+    this.fileUrl = null;
+  }
+}
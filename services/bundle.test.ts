@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AppMode, MemoryPhoto, TreeConfig } from "../types";
+import {
+  BundleError, MAX_GREETING_LENGTH, MAX_PHOTO_BYTES, createBundle, encodeConfig, parseBundle, readConfigFromHash
+} from "./bundle";
+import { DEFAULT_THEME } from "./theme";
+import { MessageKey } from "./i18n";
+
+const PIXEL = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==";
+
+const config: TreeConfig = {
+  ...DEFAULT_THEME,
+  mode: AppMode.HEART,
+  greeting: "Merry Christmas\nand a happy new year",
+  palette: { gold: "#d4af37", emerald: "#0b6623", ruby: "#9b111e" },
+  font: "SCRIPT",
+  star: "SNOWFLAKE"
+};
+
+const photos: MemoryPhoto[] = [
+  { id: "a", src: PIXEL, caption: "Snow day", takenAt: 1700000000000, createdAt: 1 },
+  { id: "b", src: PIXEL, caption: "", createdAt: 2 }
+];
+
+// 在导出的 JSON 上修改某些字段，模拟被改坏或伪造的文件
+const exported = async (patch: Record<string, unknown> = {}) => {
+  const data = JSON.parse(await createBundle(config, photos).text());
+  return JSON.stringify({ ...data, ...patch });
+};
+
+const rejects = async (patch: Record<string, unknown>, key: MessageKey) => {
+  const text = await exported(patch);
+  expect(() => parseBundle(text)).toThrow(BundleError);
+  expect(() => parseBundle(text)).toThrow(key);
+};
+
+describe("parseBundle", () => {
+  it("reads back what createBundle wrote", async () => {
+    const bundle = parseBundle(await exported());
+    expect(bundle).toEqual({
+      ...config,
+      photos: [
+        { src: PIXEL, caption: "Snow day", takenAt: 1700000000000 },
+        { src: PIXEL, caption: "", takenAt: undefined }
+      ]
+    });
+  });
+
+  it("rejects files that are not bundles", async () => {
+    expect(() => parseBundle("not json")).toThrow("bundle.error.invalidJson");
+    await rejects({ format: "something-else" }, "bundle.error.notBundle");
+  });
+
+  it("rejects an unknown mode", async () => {
+    await rejects({ mode: "SPIN" }, "bundle.error.unknownMode");
+  });
+
+  it("rejects an oversized greeting", async () => {
+    await rejects({ greeting: "x".repeat(MAX_GREETING_LENGTH + 1) }, "bundle.error.greetingTooLong");
+    const longest = await exported({ greeting: "x".repeat(MAX_GREETING_LENGTH) });
+    expect(parseBundle(longest).greeting).toHaveLength(MAX_GREETING_LENGTH);
+  });
+
+  it("rejects palette colours that are not hex values", async () => {
+    const palette = { ...config.palette, ruby: "red" };
+    await rejects({ palette }, "bundle.error.paletteColor");
+  });
+
+  it("rejects photos that are not image data URLs", async () => {
+    const svg = [{ src: "data:image/svg+xml;base64,PHN2Zz48L3N2Zz4=", caption: "" }];
+    const remote = [{ src: "https://example.com/tree.png", caption: "" }];
+    await rejects({ photos: svg }, "bundle.error.photoFormat");
+    await rejects({ photos: remote }, "bundle.error.photoFormat");
+  });
+
+  it("rejects photos larger than the limit after decoding", async () => {
+    const large = [{ src: `data:image/png;base64,${"A".repeat(Math.ceil(MAX_PHOTO_BYTES * 4 / 3) + 4)}` }];
+    await rejects({ photos: large }, "bundle.error.photoTooLarge");
+  });
+});
+
+describe("readConfigFromHash", () => {
+  const setHash = (hash: string) => vi.stubGlobal("window", { location: { hash } });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reads back a shared config", () => {
+    setHash(`#tree=${encodeConfig(config)}`);
+    expect(readConfigFromHash()).toEqual(config);
+  });
+
+  it("returns null without a shared config", () => {
+    setHash("");
+    expect(readConfigFromHash()).toBeNull();
+  });
+
+  it("rejects a damaged link", () => {
+    setHash(`#tree=${encodeConfig(config).slice(0, 20)}`);
+    expect(() => readConfigFromHash()).toThrow("bundle.error.linkDamaged");
+  });
+
+  it("rejects an unknown mode in a link", () => {
+    setHash(`#tree=${encodeConfig({ ...config, mode: "SPIN" as AppMode })}`);
+    expect(() => readConfigFromHash()).toThrow("bundle.error.unknownMode");
+  });
+});
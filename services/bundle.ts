@@ -0,0 +1,181 @@
+import { AppMode, MemoryPhoto, Palette, TreeConfig } from "../types";
+import { DEFAULT_THEME, normalizeTheme } from "./theme";
+import { MessageKey, MessageParams } from "./i18n";
+
+const FORMAT = "magical-christmas-tree";
+const VERSION = 1;
+
+export const MAX_BUNDLE_BYTES = 50 * 1024 * 1024;
+export const MAX_PHOTOS = 60;
+export const MAX_PHOTO_BYTES = 8 * 1024 * 1024;
+export const MAX_GREETING_LENGTH = 60;
+const MAX_CAPTION_LENGTH = 80;
+const MAX_CONFIG_LENGTH = 1024;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const IMAGE_DATA_URL = /^data:image\/(png|jpeg|webp|gif);base64,/;
+
+export interface TreeBundle extends TreeConfig {
+  photos: Pick<MemoryPhoto, "src" | "caption" | "takenAt">[];
+}
+
+// 只携带文案键与参数，由界面按当前语言显示
+export class BundleError extends Error {
+  constructor(readonly key: MessageKey, readonly params: MessageParams = {}) {
+    super(key);
+    this.name = "BundleError";
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// data URL 中 base64 的长度约为原图的 4/3，限制按解码后的字节数计算
+const decodedBytes = (dataUrl: string) => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1);
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return Math.floor(base64.length * 3 / 4) - padding;
+};
+
+const validateMode = (value: unknown): AppMode => {
+  if (!Object.values(AppMode).includes(value as AppMode)) {
+    throw new BundleError("bundle.error.unknownMode", { mode: String(value) });
+  }
+  return value as AppMode;
+};
+
+const validateGreeting = (value: unknown): string => {
+  if (typeof value !== "string") throw new BundleError("bundle.error.greetingNotText");
+  if (value.length > MAX_GREETING_LENGTH) {
+    throw new BundleError("bundle.error.greetingTooLong", { max: MAX_GREETING_LENGTH });
+  }
+  return value;
+};
+
+const validatePalette = (value: unknown): Palette => {
+  if (!isRecord(value)) throw new BundleError("bundle.error.paletteMissing");
+  const palette = { gold: value.gold, emerald: value.emerald, ruby: value.ruby };
+  for (const [key, color] of Object.entries(palette)) {
+    if (typeof color !== "string" || !HEX_COLOR.test(color)) {
+      throw new BundleError("bundle.error.paletteColor", { color: key });
+    }
+  }
+  return palette as Palette;
+};
+
+export const createBundle = (config: TreeConfig, photos: MemoryPhoto[]): Blob => {
+  const bundle = {
+    format: FORMAT,
+    version: VERSION,
+    ...config,
+    photos: photos.map(({ src, caption, takenAt }) => ({ src, caption, takenAt }))
+  };
+  return new Blob([JSON.stringify(bundle)], { type: "application/json" });
+};
+
+export const parseBundle = (text: string): TreeBundle => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BundleError("bundle.error.invalidJson");
+  }
+  if (!isRecord(data) || data.format !== FORMAT) {
+    throw new BundleError("bundle.error.notBundle");
+  }
+  if (typeof data.version !== "number" || data.version > VERSION) {
+    throw new BundleError("bundle.error.newerVersion");
+  }
+  if (!Array.isArray(data.photos)) throw new BundleError("bundle.error.photosMissing");
+  if (data.photos.length > MAX_PHOTOS) {
+    throw new BundleError("bundle.error.tooManyPhotos", { count: data.photos.length, max: MAX_PHOTOS });
+  }
+
+  const photos = data.photos.map((photo: unknown, i: number) => {
+    if (!isRecord(photo) || typeof photo.src !== "string" || !IMAGE_DATA_URL.test(photo.src)) {
+      throw new BundleError("bundle.error.photoFormat", { index: i + 1 });
+    }
+    if (decodedBytes(photo.src) > MAX_PHOTO_BYTES) {
+      throw new BundleError("bundle.error.photoTooLarge", { index: i + 1, max: MAX_PHOTO_BYTES / 1024 / 1024 });
+    }
+    const caption = typeof photo.caption === "string" ? photo.caption.slice(0, MAX_CAPTION_LENGTH) : "";
+    const takenAt = typeof photo.takenAt === "number" && isFinite(photo.takenAt) ? photo.takenAt : undefined;
+    return { src: photo.src, caption, takenAt };
+  });
+
+  // 旧版导出文件只有祝福语和配色，其余主题字段取默认值
+  return {
+    ...normalizeTheme(data, DEFAULT_THEME),
+    mode: validateMode(data.mode),
+    greeting: validateGreeting(data.greeting),
+    palette: validatePalette(data.palette),
+    photos
+  };
+};
+
+export const readBundleFile = async (file: File): Promise<TreeBundle> => {
+  if (file.size > MAX_BUNDLE_BYTES) {
+    throw new BundleError("bundle.error.tooLarge", { max: MAX_BUNDLE_BYTES / 1024 / 1024 });
+  }
+  return parseBundle(await file.text());
+};
+
+// URL 中只携带紧凑配置（不含照片）：
+// { m: 模式, g: 祝福语, p: [金, 绿, 红], t: [字体, 星形, 地面, 灯光, 金属度, 粗糙度, 泛光, 雪量] }
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export const encodeConfig = (config: TreeConfig): string =>
+  toBase64Url(JSON.stringify({
+    m: config.mode,
+    g: config.greeting,
+    p: [config.palette.gold, config.palette.emerald, config.palette.ruby].map(c => c.slice(1)),
+    t: [
+      config.font, config.star, config.floor.slice(1), config.light.slice(1),
+      config.metalness, config.roughness, config.bloom, config.snow
+    ]
+  }));
+
+export const decodeConfig = (encoded: string): TreeConfig => {
+  if (encoded.length > MAX_CONFIG_LENGTH) throw new BundleError("bundle.error.linkTooLong");
+  let data: unknown;
+  try {
+    data = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    throw new BundleError("bundle.error.linkDamaged");
+  }
+  if (!isRecord(data) || !Array.isArray(data.p) || data.p.length !== 3) {
+    throw new BundleError("bundle.error.linkDamaged");
+  }
+  const [gold, emerald, ruby] = data.p.map(c => `#${String(c)}`);
+  const [font, star, floor, light, metalness, roughness, bloom, snow] = Array.isArray(data.t) ? data.t : [];
+  return {
+    ...normalizeTheme({ font, star, floor: `#${floor}`, light: `#${light}`, metalness, roughness, bloom, snow }),
+    mode: validateMode(data.m),
+    greeting: validateGreeting(data.g),
+    palette: validatePalette({ gold, emerald, ruby })
+  };
+};
+
+export const CONFIG_HASH_KEY = "tree";
+
+export const buildShareUrl = (config: TreeConfig) => {
+  const url = new URL(window.location.href);
+  url.hash = `${CONFIG_HASH_KEY}=${encodeConfig(config)}`;
+  return url.toString();
+};
+
+export const readConfigFromHash = (): TreeConfig | null => {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  const encoded = params.get(CONFIG_HASH_KEY);
+  return encoded ? decodeConfig(encoded) : null;
+};
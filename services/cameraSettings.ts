@@ -0,0 +1,28 @@
+const STORAGE_KEY = "magical-tree:camera";
+
+export interface CameraSettings {
+  // 上次选择的摄像头；null 为默认前置摄像头
+  deviceId: string | null;
+  preview: boolean;
+}
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  preview: false
+};
+
+export const loadCameraSettings = (): CameraSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    return {
+      deviceId: typeof stored?.deviceId === "string" && stored.deviceId ? stored.deviceId : null,
+      preview: stored?.preview === true
+    };
+  } catch {
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,76 @@
+export type CaptureRequest =
+  | { kind: "CLIP"; seconds: number; audio: MediaStream | null }
+  | { kind: "SNAPSHOT"; longEdge: number };
+
+export const CLIP_DURATIONS = [5, 10, 15];
+
+export const SNAPSHOT_SIZES = [
+  { label: "1080p", longEdge: 1920 },
+  { label: "4K", longEdge: 3840 }
+];
+
+// 按顺序尝试；Safari 不支持 WebM，此时交给浏览器选择默认格式（通常为 MP4）
+const VIDEO_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+const AUDIO_VIDEO_TYPES = ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"];
+
+export const clipSupported = () =>
+  typeof MediaRecorder !== "undefined" && typeof HTMLCanvasElement.prototype.captureStream === "function";
+
+// 保持画面比例，长边取 longEdge，超出 GPU 上限时等比缩小
+export const snapshotSize = (longEdge: number, aspect: number, maxSize: number) => {
+  const edge = Math.min(longEdge, maxSize);
+  return aspect >= 1
+    ? { width: edge, height: Math.round(edge / aspect) }
+    : { width: Math.round(edge * aspect), height: edge };
+};
+
+const extension = (type: string) => (type.includes("mp4") ? "mp4" : type.includes("webm") ? "webm" : "png");
+
+export const captureFile = (blob: Blob) =>
+  new File([blob], `magical-tree-${new Date().toISOString().slice(0, 10)}.${extension(blob.type)}`, { type: blob.type });
+
+export const canShareFile = (file: File) => !!navigator.canShare?.({ files: [file] });
+
+export interface ClipOptions {
+  seconds: number;
+  audio?: MediaStream | null;
+  fps?: number;
+}
+
+// 录制画布输出（即 EffectComposer 的最终画面），到时自动停止；提前 stop() 时保留已录制的部分
+export default class ClipRecorder {
+  readonly done: Promise<Blob>;
+  private recorder: MediaRecorder;
+  private tracks: MediaStreamTrack[];
+  private timer: ReturnType<typeof setTimeout>;
+
+  constructor(canvas: HTMLCanvasElement, { seconds, audio = null, fps = 30 }: ClipOptions) {
+    const stream = canvas.captureStream(fps);
+    // 克隆音轨，停止录制时不影响正在播放的音乐
+    audio?.getAudioTracks().forEach(track => stream.addTrack(track.clone()));
+    this.tracks = stream.getTracks();
+    const types = stream.getAudioTracks().length ? AUDIO_VIDEO_TYPES : VIDEO_TYPES;
+    const mimeType = types.find(type => MediaRecorder.isTypeSupported(type));
+    this.recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+    const chunks: Blob[] = [];
+    this.done = new Promise((resolve, reject) => {
+      this.recorder.ondataavailable = e => {
+        if (e.data.size) chunks.push(e.data);
+      };
+      this.recorder.onstop = () => {
+        this.tracks.forEach(track => track.stop());
+        if (chunks.length) resolve(new Blob(chunks, { type: this.recorder.mimeType || mimeType || "video/webm" }));
+        else reject(new Error("The recording is empty."));
+      };
+      this.recorder.onerror = () => reject(new Error("Recording failed."));
+    });
+    this.recorder.start(1000);
+    this.timer = setTimeout(() => this.stop(), seconds * 1000);
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    if (this.recorder.state !== "inactive") this.recorder.stop();
+  }
+}
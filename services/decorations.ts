@@ -0,0 +1,88 @@
+import { Decoration, DecorationKind, DecorationLayout, DecorationModel } from "../types";
+import { MessageKey, MessageParams } from "./i18n";
+
+const STORAGE_KEY = "magical-tree:decorations";
+
+// 调色板中的内置物件，MODEL 由导入的模型提供
+export const DECORATION_KINDS: DecorationKind[] = ["BELL", "CANDY_CANE", "GIFT", "LIGHT"];
+// 物件过多会拖慢逐帧的射线检测
+export const MAX_DECORATIONS = 200;
+export const MAX_MODEL_BYTES = 20 * 1024 * 1024;
+
+export const EMPTY_LAYOUT: DecorationLayout = { items: [], stringLights: false, topperModelId: null };
+
+// 单个模型文件被拒绝的原因；与 PhotoIngestError 一样只携带文案键与参数
+export class ModelImportError extends Error {
+  constructor(readonly fileName: string, readonly key: MessageKey, readonly params: MessageParams = {}) {
+    super(key);
+    this.name = "ModelImportError";
+  }
+}
+
+const isDecoration = (item: unknown): item is Decoration => {
+  const d = item as Decoration;
+  return typeof d?.id === "string"
+    && (DECORATION_KINDS.includes(d.kind) || (d.kind === "MODEL" && typeof d.modelId === "string"))
+    && Array.isArray(d.position) && d.position.length === 3 && d.position.every(Number.isFinite);
+};
+
+export const loadDecorationLayout = (): DecorationLayout => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (!stored) return EMPTY_LAYOUT;
+    return {
+      items: Array.isArray(stored.items) ? stored.items.filter(isDecoration).slice(0, MAX_DECORATIONS) : [],
+      stringLights: stored.stringLights === true,
+      topperModelId: typeof stored.topperModelId === "string" ? stored.topperModelId : null
+    };
+  } catch {
+    return EMPTY_LAYOUT;
+  }
+};
+
+export const saveDecorationLayout = (layout: DecorationLayout) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(layout));
+};
+
+// 删除模型时一并移除引用它的物件与树顶
+export const withoutModel = (layout: DecorationLayout, modelId: string): DecorationLayout => ({
+  ...layout,
+  items: layout.items.filter(item => item.modelId !== modelId),
+  topperModelId: layout.topperModelId === modelId ? null : layout.topperModelId
+});
+
+const GLB_MAGIC = 0x46546c67;
+
+// .gltf 只能引用内嵌的 data URI 资源，外部的 .bin 与贴图文件无法随单个文件导入
+const checkGltfJson = (fileName: string, data: ArrayBuffer) => {
+  let json: { buffers?: { uri?: string }[]; images?: { uri?: string }[] };
+  try {
+    json = JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new ModelImportError(fileName, "model.error.invalidGltf");
+  }
+  const external = [...(json.buffers ?? []), ...(json.images ?? [])].some(entry => entry.uri && !entry.uri.startsWith("data:"));
+  if (external) {
+    throw new ModelImportError(fileName, "model.error.externalFiles");
+  }
+};
+
+// 校验扩展名、大小与文件头；能否解析由场景在加载时确认
+export const readModelFile = async (file: File): Promise<DecorationModel> => {
+  const extension = /\.(glb|gltf)$/i.exec(file.name)?.[1].toLowerCase();
+  if (!extension) {
+    throw new ModelImportError(file.name, "model.error.unsupportedType");
+  }
+  if (file.size > MAX_MODEL_BYTES) {
+    throw new ModelImportError(file.name, "model.error.tooLarge", { max: MAX_MODEL_BYTES / (1024 * 1024) });
+  }
+  const data = await file.arrayBuffer();
+  if (extension === "glb") {
+    if (data.byteLength < 12 || new DataView(data).getUint32(0, true) !== GLB_MAGIC) {
+      throw new ModelImportError(file.name, "model.error.invalidGlb");
+    }
+  } else {
+    checkGltfJson(file.name, data);
+  }
+  return { id: crypto.randomUUID(), name: file.name.replace(/\.(glb|gltf)$/i, ""), data };
+};
@@ -0,0 +1,107 @@
+// 只解析 JPEG 中的拍摄时间、方向与像素尺寸，不引入完整的 EXIF 库
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+// EXIF 段位于文件开头，只需解码前 128KB
+const MAX_SCAN_BYTES = 128 * 1024;
+
+const readIfd = (view: DataView, tiff: number, offset: number, little: boolean) => {
+  const tags = new Map<number, number>();
+  const count = view.getUint16(tiff + offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = tiff + offset + 2 + i * 12;
+    // 记录值所在位置：ASCII 超过 4 字节时存的是偏移
+    tags.set(view.getUint16(entry, little), entry + 8);
+  }
+  return tags;
+};
+
+const readAscii = (view: DataView, tiff: number, valueAt: number, little: boolean) => {
+  const start = tiff + view.getUint32(valueAt, little);
+  let text = "";
+  for (let i = start; i < view.byteLength && view.getUint8(i) !== 0; i++) {
+    text += String.fromCharCode(view.getUint8(i));
+  }
+  return text;
+};
+
+// EXIF 时间格式为 "YYYY:MM:DD HH:MM:SS"，不含时区，按本地时间解释
+const parseExifDate = (text: string) => {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(text);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  const date = new Date(y, mo - 1, d, h, mi, s);
+  return isNaN(date.getTime()) || y < 1900 ? null : date.getTime();
+};
+
+// 依次访问 JPEG 图像数据之前的各个段，visit 返回非 undefined 时停止
+const scanSegments = <T>(buffer: ArrayBuffer, visit: (view: DataView, marker: number, offset: number) => T | undefined): T | null => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+  try {
+    let offset = 2;
+    while (offset + 4 < view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null;
+      const result = visit(view, marker, offset);
+      if (result !== undefined) return result;
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch {
+    // 截断或损坏的文件视为没有这项信息
+  }
+  return null;
+};
+
+// 在 EXIF 段（APP1 且以 "Exif\0\0" 开头）中读取信息
+const readExif = <T>(buffer: ArrayBuffer, read: (view: DataView, tiff: number, ifd0: Map<number, number>, little: boolean) => T | null) =>
+  scanSegments(buffer, (view, marker, offset) => {
+    if (marker !== 0xffe1 || view.getUint32(offset + 4) !== 0x45786966) return undefined;
+    const tiff = offset + 10;
+    const little = view.getUint16(tiff) === 0x4949;
+    return read(view, tiff, readIfd(view, tiff, view.getUint32(tiff + 4, little), little), little);
+  });
+
+export const readExifDate = (buffer: ArrayBuffer): number | null =>
+  readExif(buffer, (view, tiff, ifd0, little) => {
+    const exifAt = ifd0.get(TAG_EXIF_IFD);
+    if (exifAt !== undefined) {
+      const exif = readIfd(view, tiff, view.getUint32(exifAt, little), little);
+      const original = exif.get(TAG_DATE_TIME_ORIGINAL);
+      if (original !== undefined) return parseExifDate(readAscii(view, tiff, original, little));
+    }
+    const modified = ifd0.get(TAG_DATE_TIME);
+    return modified !== undefined ? parseExifDate(readAscii(view, tiff, modified, little)) : null;
+  });
+
+// EXIF 方向 1–8，没有记录时为 1（不旋转）
+export const readExifOrientation = (buffer: ArrayBuffer): number => {
+  const orientation = readExif(buffer, (view, _tiff, ifd0, little) => {
+    const valueAt = ifd0.get(TAG_ORIENTATION);
+    return valueAt !== undefined ? view.getUint16(valueAt, little) : null;
+  });
+  return orientation && orientation >= 1 && orientation <= 8 ? orientation : 1;
+};
+
+// 帧头（SOF）中记录的原始像素尺寸，未按 EXIF 方向旋转
+export const readJpegSize = (buffer: ArrayBuffer) =>
+  scanSegments(buffer, (view, marker, offset) => {
+    // SOF0–SOF15，排除 DHT（C4）、JPG（C8）与 DAC（CC）
+    if (marker < 0xffc0 || marker > 0xffcf || marker === 0xffc4 || marker === 0xffc8 || marker === 0xffcc) return undefined;
+    return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+  });
+
+export const readExifDateFromDataUrl = (src: string): number | null => {
+  const match = /^data:image\/jpeg;base64,/.exec(src);
+  if (!match) return null;
+  // base64 每 4 个字符对应 3 字节
+  const encoded = src.slice(match[0].length, match[0].length + Math.ceil(MAX_SCAN_BYTES / 3) * 4);
+  try {
+    const binary = atob(encoded);
+    return readExifDate(Uint8Array.from(binary, c => c.charCodeAt(0)).buffer);
+  } catch {
+    return null;
+  }
+};
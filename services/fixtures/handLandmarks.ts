@@ -0,0 +1,58 @@
+import { Landmark } from "../gestures";
+
+// 手势测试用的单手关键点样本：21 个点的顺序与 MediaPipe HandLandmarker 相同
+// （0 手腕，1–4 拇指，5–8 食指，9–12 中指，13–16 无名指，17–20 小指），坐标为画面归一化坐标，手掌大小约 0.2
+
+type Pose = [number, number][];
+
+const toLandmarks = (pose: Pose): Landmark[] => pose.map(([x, y]) => ({ x, y }));
+
+// 张开的手掌，四指伸直、拇指外展
+export const open = toLandmarks([
+  [0.5, 0.8],
+  [0.44, 0.76], [0.39, 0.71], [0.35, 0.67], [0.32, 0.63],
+  [0.44, 0.62], [0.416, 0.54], [0.401, 0.49], [0.389, 0.45],
+  [0.5, 0.6], [0.5, 0.52], [0.5, 0.47], [0.5, 0.43],
+  [0.56, 0.61], [0.58, 0.53], [0.593, 0.48], [0.603, 0.44],
+  [0.61, 0.64], [0.65, 0.56], [0.675, 0.51], [0.695, 0.47]
+]);
+
+// 握拳，拇指压在中指上
+export const fist = toLandmarks([
+  [0.5, 0.8],
+  [0.45, 0.76], [0.45, 0.72], [0.49, 0.71], [0.53, 0.7],
+  [0.44, 0.62], [0.44, 0.57], [0.445, 0.6], [0.445, 0.65],
+  [0.5, 0.6], [0.5, 0.55], [0.505, 0.58], [0.505, 0.63],
+  [0.56, 0.61], [0.56, 0.56], [0.565, 0.59], [0.565, 0.64],
+  [0.61, 0.64], [0.61, 0.59], [0.615, 0.62], [0.615, 0.67]
+]);
+
+// 伸出食指，其余手指蜷起
+export const point = toLandmarks([
+  [0.5, 0.8],
+  [0.45, 0.76], [0.45, 0.72], [0.49, 0.71], [0.53, 0.7],
+  [0.44, 0.62], [0.44, 0.54], [0.44, 0.49], [0.44, 0.45],
+  [0.5, 0.6], [0.5, 0.55], [0.505, 0.58], [0.505, 0.63],
+  [0.56, 0.61], [0.56, 0.56], [0.565, 0.59], [0.565, 0.64],
+  [0.61, 0.64], [0.61, 0.59], [0.615, 0.62], [0.615, 0.67]
+]);
+
+// 竖起拇指，四指蜷起
+export const thumbsUp = toLandmarks([
+  [0.5, 0.8],
+  [0.45, 0.76], [0.42, 0.68], [0.41, 0.58], [0.4, 0.48],
+  [0.44, 0.62], [0.44, 0.57], [0.445, 0.6], [0.445, 0.65],
+  [0.5, 0.6], [0.5, 0.55], [0.505, 0.58], [0.505, 0.63],
+  [0.56, 0.61], [0.56, 0.56], [0.565, 0.59], [0.565, 0.64],
+  [0.61, 0.64], [0.61, 0.59], [0.615, 0.62], [0.615, 0.67]
+]);
+
+// 拇指与食指指尖相碰，其余三指伸直
+export const pinch = toLandmarks([
+  [0.5, 0.8],
+  [0.44, 0.76], [0.39, 0.7], [0.38, 0.58], [0.385, 0.495],
+  [0.44, 0.62], [0.42, 0.55], [0.4, 0.51], [0.39, 0.49],
+  [0.5, 0.6], [0.5, 0.52], [0.5, 0.47], [0.5, 0.43],
+  [0.56, 0.61], [0.58, 0.53], [0.593, 0.48], [0.603, 0.44],
+  [0.61, 0.64], [0.65, 0.56], [0.675, 0.51], [0.695, 0.47]
+]);
@@ -0,0 +1,38 @@
+import { AppMode, GestureAction, GestureMapping } from "../types";
+
+const STORAGE_KEY = "magical-tree:gesture-mapping";
+
+export const DEFAULT_GESTURE_MAPPING: GestureMapping = {
+  FIST: AppMode.TREE,
+  OPEN: AppMode.SCATTER,
+  PINCH: AppMode.FOCUS,
+  THUMBS_UP: AppMode.HEART,
+  POINT: "NONE",
+  SWIPE_LEFT: "PREV_MODE",
+  SWIPE_RIGHT: "NEXT_MODE"
+};
+
+export const GESTURE_ACTIONS: GestureAction[] = [
+  "NONE",
+  ...Object.values(AppMode),
+  "NEXT_MODE",
+  "PREV_MODE",
+  "TOGGLE_UI"
+];
+
+export const loadGestureMapping = (): GestureMapping => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    const mapping = { ...DEFAULT_GESTURE_MAPPING };
+    (Object.keys(mapping) as (keyof GestureMapping)[]).forEach(gesture => {
+      if (GESTURE_ACTIONS.includes(stored[gesture])) mapping[gesture] = stored[gesture];
+    });
+    return mapping;
+  } catch {
+    return { ...DEFAULT_GESTURE_MAPPING };
+  }
+};
+
+export const saveGestureMapping = (mapping: GestureMapping) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(mapping));
+};
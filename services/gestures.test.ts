@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { GestureName } from "../types";
+import GestureClassifier, { Landmark, extractFeatures, measureTwoHands } from "./gestures";
+import { fist, open, pinch, point, thumbsUp } from "./fixtures/handLandmarks";
+
+const FRAME_MS = 33;
+
+const shift = (landmarks: Landmark[], dx: number, dy = 0) => landmarks.map(l => ({ x: l.x + dx, y: l.y + dy }));
+
+// 以约 30 fps 连续送入同一姿势，返回每帧的结果
+const hold = (classifier: GestureClassifier, landmarks: Landmark[], ms: number, start = 0) => {
+  const frames = [];
+  for (let t = start; t <= start + ms; t += FRAME_MS) frames.push(classifier.update(landmarks, t));
+  return frames;
+};
+
+const triggers = (frames: { trigger: GestureName | null }[]) => frames.map(f => f.trigger).filter(Boolean);
+
+describe("extractFeatures", () => {
+  it("measures distances in palm sizes", () => {
+    const features = extractFeatures(open);
+    expect(features.palmSize).toBeCloseTo(0.2, 3);
+    expect(features.spread).toBeGreaterThan(1.65);
+    expect(features.fingers.every(ratio => ratio > 1.25)).toBe(true);
+  });
+
+  it("sees curled fingers in a fist", () => {
+    const features = extractFeatures(fist);
+    expect(features.spread).toBeLessThan(1.1);
+    expect(features.fingers.every(ratio => ratio < 1)).toBe(true);
+  });
+
+  it("does not depend on where the hand is in the frame", () => {
+    const a = extractFeatures(point);
+    const b = extractFeatures(shift(point, 0.2, -0.1));
+    expect(b.pinch).toBeCloseTo(a.pinch, 6);
+    expect(b.spread).toBeCloseTo(a.spread, 6);
+  });
+});
+
+describe("GestureClassifier", () => {
+  it.each([
+    ["OPEN", open],
+    ["FIST", fist],
+    ["PINCH", pinch],
+    ["POINT", point],
+    ["THUMBS_UP", thumbsUp]
+  ] as [GestureName, Landmark[]][])("recognises %s and triggers it once", (gesture, landmarks) => {
+    const frames = hold(new GestureClassifier(), landmarks, 600);
+    expect(frames[frames.length - 1].gesture).toBe(gesture);
+    expect(triggers(frames)).toEqual([gesture]);
+  });
+
+  it("waits holdMs before confirming a gesture", () => {
+    const classifier = new GestureClassifier({ holdMs: 180 });
+    const early = hold(classifier, fist, 150);
+    expect(early.every(f => f.gesture === "NONE")).toBe(true);
+    expect(early[early.length - 1].candidate).toBe("FIST");
+    expect(classifier.update(fist, 200).trigger).toBe("FIST");
+  });
+
+  it("ignores a pose that flickers for less than holdMs", () => {
+    const classifier = new GestureClassifier({ smoothing: 1 });
+    hold(classifier, open, 400);
+    const blip = hold(classifier, fist, 99, 433);
+    const after = hold(classifier, open, 300, 566);
+    expect(triggers([...blip, ...after])).toEqual([]);
+    expect(after[after.length - 1].gesture).toBe("OPEN");
+  });
+
+  it("smooths landmarks between frames", () => {
+    const classifier = new GestureClassifier({ smoothing: 0.5 });
+    classifier.update(open, 0);
+    const frame = classifier.update(shift(open, 0.1), FRAME_MS);
+    expect(frame.x).toBeCloseTo(open[9].x + 0.05, 6);
+  });
+
+  it("reports the palm centre and the index fingertip", () => {
+    const frame = new GestureClassifier().update(point, 0);
+    expect(frame.x).toBe(point[9].x);
+    expect(frame.y).toBe(point[9].y);
+    expect(frame.pointer).toEqual({ x: point[8].x, y: point[8].y });
+  });
+
+  it("starts over after reset", () => {
+    const classifier = new GestureClassifier();
+    hold(classifier, fist, 400);
+    classifier.reset();
+    expect(classifier.update(fist, 1000).gesture).toBe("NONE");
+  });
+});
+
+describe("swipes", () => {
+  // 张开的手在 200 ms 内横向移动 steps 帧，每帧 dx
+  const swipe = (classifier: GestureClassifier, dx: number, steps = 6) => {
+    hold(classifier, open, 400);
+    const frames = [];
+    for (let i = 1; i <= steps; i++) frames.push(classifier.update(shift(open, dx * i), 400 + i * FRAME_MS));
+    return triggers(frames);
+  };
+
+  it("maps image direction to the mirrored view by default", () => {
+    expect(swipe(new GestureClassifier({ smoothing: 1 }), 0.1)).toEqual(["SWIPE_LEFT"]);
+    expect(swipe(new GestureClassifier({ smoothing: 1 }), -0.1)).toEqual(["SWIPE_RIGHT"]);
+  });
+
+  it("uses image direction when not mirrored", () => {
+    expect(swipe(new GestureClassifier({ smoothing: 1, mirrored: false }), 0.1)).toEqual(["SWIPE_RIGHT"]);
+  });
+
+  it("needs to travel swipeDistance palm sizes", () => {
+    expect(swipe(new GestureClassifier({ smoothing: 1 }), 0.01)).toEqual([]);
+  });
+
+  it("fires once per cooldown", () => {
+    const classifier = new GestureClassifier({ smoothing: 1 });
+    hold(classifier, open, 400);
+    const frames = [];
+    for (let i = 1; i <= 12; i++) frames.push(classifier.update(shift(open, 0.1 * i), 400 + i * FRAME_MS));
+    expect(triggers(frames)).toEqual(["SWIPE_LEFT"]);
+  });
+
+  it("swipes again when timestamps restart after reset", () => {
+    const classifier = new GestureClassifier({ smoothing: 1 });
+    expect(swipe(classifier, 0.1)).toEqual(["SWIPE_LEFT"]);
+    classifier.reset();
+    expect(swipe(classifier, 0.1)).toEqual(["SWIPE_LEFT"]);
+  });
+});
+
+describe("measureTwoHands", () => {
+  it("gives the same result whichever hand is detected first", () => {
+    const left = shift(open, -0.2);
+    const right = shift(open, 0.2, 0.05);
+    const a = measureTwoHands(left, right);
+    expect(measureTwoHands(right, left)).toEqual(a);
+    expect(a.distance).toBeCloseTo(Math.hypot(0.4, 0.05), 6);
+    expect(a.angle).toBeCloseTo(Math.atan2(0.05, 0.4), 6);
+  });
+});
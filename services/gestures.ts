@@ -0,0 +1,233 @@
+import { GestureName } from "../types";
+
+// 纯函数模块：不访问 DOM、摄像头或系统时钟，时间戳由调用方传入，便于用关键点样本测试
+
+export interface Landmark {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+export interface GestureClassifierOptions {
+  // 关键点指数平滑系数，1 表示不平滑
+  smoothing: number;
+  // 候选手势需持续多久才被确认
+  holdMs: number;
+  // 以下阈值均以手掌大小（手腕到中指根部的距离）为单位
+  pinchEnter: number;
+  pinchExit: number;
+  fistEnter: number;
+  fistExit: number;
+  openEnter: number;
+  openExit: number;
+  // 指尖到手腕 / 第二指节到手腕的比值
+  fingerExtended: number;
+  fingerCurled: number;
+  thumbLift: number;
+  swipeDistance: number;
+  swipeWindowMs: number;
+  swipeCooldownMs: number;
+  // 为 true 时按用户在镜像画面中看到的方向判断左右挥动
+  mirrored: boolean;
+}
+
+export const DEFAULT_GESTURE_OPTIONS: GestureClassifierOptions = {
+  smoothing: 0.5,
+  holdMs: 180,
+  pinchEnter: 0.3,
+  pinchExit: 0.45,
+  fistEnter: 1.1,
+  fistExit: 1.25,
+  openEnter: 1.65,
+  openExit: 1.5,
+  fingerExtended: 1.25,
+  fingerCurled: 1.0,
+  thumbLift: 0.4,
+  swipeDistance: 2,
+  swipeWindowMs: 300,
+  swipeCooldownMs: 700,
+  mirrored: true
+};
+
+export interface HandFeatures {
+  palmSize: number;
+  // 拇指与食指指尖距离
+  pinch: number;
+  // 四指指尖到手腕的平均距离
+  spread: number;
+  // 食指、中指、无名指、小指的伸展比值
+  fingers: [number, number, number, number];
+  // 拇指指尖高出其余指尖的距离
+  thumbLift: number;
+}
+
+export interface GestureFrame {
+  landmarks: Landmark[];
+  features: HandFeatures;
+  x: number;
+  y: number;
+  // 食指指尖（平滑后），用作屏幕指针
+  pointer: Landmark;
+  gesture: GestureName;
+  candidate: GestureName;
+  trigger: GestureName | null;
+}
+
+// MediaPipe 每只手输出 21 个关键点
+export const HAND_LANDMARK_COUNT = 21;
+
+export const GESTURE_NAMES: GestureName[] = ["NONE", "FIST", "OPEN", "PINCH", "POINT", "THUMBS_UP", "SWIPE_LEFT", "SWIPE_RIGHT"];
+
+const WRIST = 0;
+const THUMB_TIP = 4;
+const PALM_CENTER = 9;
+const FINGER_TIPS = [8, 12, 16, 20];
+const FINGER_PIPS = [6, 10, 14, 18];
+
+// 多个手势同时满足时按此顺序取第一个
+const PRIORITY: GestureName[] = ["PINCH", "POINT", "THUMBS_UP", "FIST", "OPEN"];
+
+const dist = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const extractFeatures = (landmarks: Landmark[]): HandFeatures => {
+  const wrist = landmarks[WRIST];
+  const palmSize = Math.max(dist(wrist, landmarks[PALM_CENTER]), 1e-6);
+  const fingers = FINGER_TIPS.map((tip, i) =>
+    dist(landmarks[tip], wrist) / Math.max(dist(landmarks[FINGER_PIPS[i]], wrist), 1e-6)
+  ) as HandFeatures["fingers"];
+  const spread = FINGER_TIPS.reduce((sum, tip) => sum + dist(landmarks[tip], wrist), 0) / FINGER_TIPS.length;
+  const highestTip = Math.min(...FINGER_TIPS.map(tip => landmarks[tip].y));
+  return {
+    palmSize,
+    pinch: dist(landmarks[THUMB_TIP], landmarks[FINGER_TIPS[0]]) / palmSize,
+    spread: spread / palmSize,
+    fingers,
+    thumbLift: (highestTip - landmarks[THUMB_TIP].y) / palmSize
+  };
+};
+
+// 双手掌心的距离与连线角度（弧度）；按画面中的左右排序，两只手的检测顺序交换时角度不跳变
+export const measureTwoHands = (a: Landmark[], b: Landmark[]) => {
+  const [left, right] = a[PALM_CENTER].x <= b[PALM_CENTER].x ? [a[PALM_CENTER], b[PALM_CENTER]] : [b[PALM_CENTER], a[PALM_CENTER]];
+  return {
+    distance: dist(left, right),
+    angle: Math.atan2(right.y - left.y, right.x - left.x)
+  };
+};
+
+export default class GestureClassifier {
+  private options: GestureClassifierOptions;
+  private smoothed: Landmark[] | null = null;
+  private stable: GestureName = "NONE";
+  private candidate: GestureName = "NONE";
+  private candidateSince = 0;
+  private track: { t: number; x: number; y: number }[] = [];
+  private lastSwipe = -Infinity;
+
+  constructor(options: Partial<GestureClassifierOptions> = {}) {
+    this.options = { ...DEFAULT_GESTURE_OPTIONS, ...options };
+  }
+
+  reset() {
+    this.smoothed = null;
+    this.stable = "NONE";
+    this.candidate = "NONE";
+    this.candidateSince = 0;
+    this.track = [];
+    // 回放跳转或循环后时间戳从头开始，冷却不能沿用之前的时刻
+    this.lastSwipe = -Infinity;
+  }
+
+  update(landmarks: Landmark[], timestamp: number): GestureFrame {
+    const smoothed = this.smooth(landmarks);
+    const features = extractFeatures(smoothed);
+    const raw = this.classify(features);
+
+    if (raw !== this.candidate) {
+      this.candidate = raw;
+      this.candidateSince = timestamp;
+    }
+    let trigger: GestureName | null = null;
+    if (this.candidate !== this.stable && timestamp - this.candidateSince >= this.options.holdMs) {
+      this.stable = this.candidate;
+      if (this.stable !== "NONE") trigger = this.stable;
+    }
+
+    const palm = smoothed[PALM_CENTER];
+    const swipe = this.detectSwipe(palm, features.palmSize, timestamp);
+    if (swipe) trigger = swipe;
+
+    return {
+      landmarks: smoothed.map(l => ({ ...l })),
+      features,
+      x: palm.x,
+      y: palm.y,
+      pointer: { x: smoothed[FINGER_TIPS[0]].x, y: smoothed[FINGER_TIPS[0]].y },
+      gesture: this.stable,
+      candidate: this.candidate,
+      trigger
+    };
+  }
+
+  private smooth(landmarks: Landmark[]) {
+    const alpha = this.options.smoothing;
+    if (!this.smoothed || this.smoothed.length !== landmarks.length) {
+      this.smoothed = landmarks.map(l => ({ x: l.x, y: l.y, z: l.z ?? 0 }));
+    } else {
+      this.smoothed.forEach((s, i) => {
+        s.x += (landmarks[i].x - s.x) * alpha;
+        s.y += (landmarks[i].y - s.y) * alpha;
+        s.z! += ((landmarks[i].z ?? 0) - s.z!) * alpha;
+      });
+    }
+    return this.smoothed;
+  }
+
+  // 已处于某手势时使用更宽松的退出阈值（滞回），避免在边界上来回跳变
+  private matches(gesture: GestureName, f: HandFeatures, held: boolean) {
+    const o = this.options;
+    const curled = held ? (o.fingerCurled + o.fingerExtended) / 2 : o.fingerCurled;
+    const extended = held ? (o.fingerCurled + o.fingerExtended) / 2 : o.fingerExtended;
+    const othersCurled = (from: number) => f.fingers.slice(from).every(r => r < curled);
+    switch (gesture) {
+      case "PINCH":
+        return f.pinch < (held ? o.pinchExit : o.pinchEnter);
+      case "POINT":
+        return f.fingers[0] > extended && othersCurled(1);
+      case "THUMBS_UP":
+        return f.thumbLift > (held ? o.thumbLift / 2 : o.thumbLift) && othersCurled(0);
+      case "FIST":
+        return f.spread < (held ? o.fistExit : o.fistEnter);
+      case "OPEN":
+        return f.spread > (held ? o.openExit : o.openEnter);
+      default:
+        return false;
+    }
+  }
+
+  private classify(f: HandFeatures): GestureName {
+    for (const gesture of PRIORITY) {
+      const held = gesture === this.stable || gesture === this.candidate;
+      if (this.matches(gesture, f, held)) return gesture;
+    }
+    return "NONE";
+  }
+
+  private detectSwipe(palm: Landmark, palmSize: number, timestamp: number): GestureName | null {
+    const o = this.options;
+    this.track.push({ t: timestamp, x: palm.x, y: palm.y });
+    while (this.track.length && timestamp - this.track[0].t > o.swipeWindowMs) this.track.shift();
+    if (timestamp - this.lastSwipe < o.swipeCooldownMs) return null;
+
+    const start = this.track[0];
+    const dx = (palm.x - start.x) / palmSize;
+    const dy = (palm.y - start.y) / palmSize;
+    if (Math.abs(dx) < o.swipeDistance || Math.abs(dx) < Math.abs(dy) * 2) return null;
+
+    this.lastSwipe = timestamp;
+    this.track = [];
+    // 前置摄像头画面未镜像：图像中向左移动即用户向右挥手
+    const towardImageRight = dx > 0;
+    return towardImageRight !== o.mirrored ? "SWIPE_RIGHT" : "SWIPE_LEFT";
+  }
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { GestureName, HandData } from "../types";
+import ReplayTracker, { HandSession, HandSessionFrame, SessionError, SessionRecorder, parseSession, serializeSession } from "./handSession";
+import { Landmark } from "./gestures";
+import { fist, open } from "./fixtures/handLandmarks";
+
+const FRAME_MS = 33;
+
+const hand = (gesture: GestureName, trigger: GestureName | null = null): HandData => ({
+  x: 0.5,
+  y: 0.5,
+  pinch: gesture === "PINCH",
+  fist: gesture === "FIST",
+  open: gesture === "OPEN",
+  gesture,
+  trigger
+});
+
+const record = (frames: HandSessionFrame[]): HandSession => {
+  const recorder = new SessionRecorder();
+  recorder.start(0);
+  frames.forEach(frame => recorder.capture(frame.landmarks, frame.hand, frame.t));
+  return recorder.stop();
+};
+
+const session = record([
+  { t: 0, landmarks: open, hand: hand("OPEN") },
+  { t: 100, landmarks: null, hand: null },
+  { t: 200, landmarks: fist, hand: hand("FIST", "FIST") },
+  { t: 300, landmarks: fist, hand: hand("FIST") }
+]);
+
+// 在录制好的会话上修改第 index 帧，模拟被改坏的文件
+const withFrame = (index: number, patch: Record<string, unknown>) => {
+  const data = JSON.parse(JSON.stringify(session));
+  data.frames[index] = { ...data.frames[index], ...patch };
+  return JSON.stringify(data);
+};
+
+// 用可控的时钟驱动回放
+const replay = (recorded: HandSession, options: ConstructorParameters<typeof ReplayTracker>[1] = {}) => {
+  let clock = 0;
+  const tracker = new ReplayTracker(recorded, { ...options, now: () => clock });
+  const advance = (ms: number) => {
+    clock += ms;
+    return tracker.detect();
+  };
+  return { tracker, advance };
+};
+
+describe("parseSession", () => {
+  it("reads back a recorded session", async () => {
+    const parsed = parseSession(await serializeSession(session).text());
+    expect(parsed.duration).toBe(300);
+    expect(parsed.frames).toEqual(session.frames);
+  });
+
+  it("rejects files that are not sessions", () => {
+    expect(() => parseSession("not json")).toThrow(SessionError);
+    expect(() => parseSession("not json")).toThrow("session.error.invalidJson");
+    expect(() => parseSession(JSON.stringify({ ...session, format: "something-else" }))).toThrow("session.error.notSession");
+    expect(() => parseSession(JSON.stringify({ ...session, frames: [] }))).toThrow("session.error.noFrames");
+  });
+
+  it("rejects timestamps that go backwards or are not numbers", () => {
+    expect(() => parseSession(withFrame(2, { t: 50 }))).toThrow("session.error.frameTimestamp");
+    expect(() => parseSession(withFrame(2, { t: "200" }))).toThrow("session.error.frameTimestamp");
+  });
+
+  it("rejects landmarks with the wrong shape", () => {
+    expect(() => parseSession(withFrame(0, { landmarks: open.slice(1) }))).toThrow("session.error.frameLandmarks");
+    expect(() => parseSession(withFrame(0, { landmarks: open.map((l, i) => i ? l : { x: "0", y: 0 }) }))).toThrow("session.error.frameLandmarks");
+  });
+
+  it("rejects hand data with unknown gestures or triggers", () => {
+    expect(() => parseSession(withFrame(0, { hand: hand("WAVE" as GestureName) }))).toThrow("session.error.frameHand");
+    expect(() => parseSession(withFrame(0, { hand: hand("OPEN", "NONE") }))).toThrow("session.error.frameHand");
+    expect(() => parseSession(withFrame(0, { hand: { ...hand("OPEN"), pointer: { x: 1 } } }))).toThrow("session.error.frameHand");
+  });
+});
+
+describe("ReplayTracker", () => {
+  it("clamps seeks to the session", () => {
+    const { tracker } = replay(session);
+    tracker.seek(-50);
+    expect(tracker.time).toBe(0);
+    tracker.seek(10000);
+    expect(tracker.time).toBe(300);
+  });
+
+  it("emits a trigger from a skipped frame once", () => {
+    const { tracker, advance } = replay(session);
+    tracker.play();
+    expect(advance(250)?.trigger).toBe("FIST");
+    expect(advance(10)?.trigger).toBeNull();
+  });
+
+  it("stops at the end without loop", () => {
+    const { tracker, advance } = replay(session);
+    tracker.play();
+    expect(advance(400)?.gesture).toBe("FIST");
+    expect(tracker.playing).toBe(false);
+    expect(tracker.time).toBe(300);
+  });
+
+  it("wraps around and plays the start again with loop", () => {
+    const { tracker, advance } = replay(session, { loop: true });
+    tracker.play();
+    expect(advance(250)?.trigger).toBe("FIST");
+    expect(advance(100)?.gesture).toBe("OPEN");
+    expect(tracker.time).toBe(50);
+    expect(tracker.playing).toBe(true);
+    expect(advance(150)?.trigger).toBe("FIST");
+  });
+
+  describe("reclassify", () => {
+    // 张开的手停留 400 ms 后在 200 ms 内向画面右侧挥动
+    const frames: HandSessionFrame[] = [];
+    for (let t = 0; t <= 400; t += FRAME_MS) frames.push({ t, landmarks: open, hand: null });
+    const shift = (landmarks: Landmark[], dx: number) => landmarks.map(l => ({ x: l.x + dx, y: l.y }));
+    for (let i = 1; i <= 6; i++) frames.push({ t: 400 + i * FRAME_MS, landmarks: shift(open, 0.1 * i), hand: null });
+    const swipe = record(frames);
+
+    const playThrough = (advance: (ms: number) => HandData | null, ms: number) => {
+      const triggers = [];
+      for (let t = 0; t < ms; t += FRAME_MS) triggers.push(advance(FRAME_MS)?.trigger);
+      return triggers.filter(Boolean);
+    };
+
+    it("classifies the recorded landmarks", () => {
+      const { tracker, advance } = replay(swipe, { reclassify: true, gestureOptions: { smoothing: 1 } });
+      tracker.play();
+      expect(playThrough(advance, swipe.duration)).toEqual(["OPEN", "SWIPE_LEFT"]);
+    });
+
+    it("swipes again after seeking back", () => {
+      const { tracker, advance } = replay(swipe, { reclassify: true, gestureOptions: { smoothing: 1 } });
+      tracker.play();
+      playThrough(advance, swipe.duration);
+      tracker.seek(0);
+      tracker.play();
+      expect(playThrough(advance, swipe.duration)).toEqual(["OPEN", "SWIPE_LEFT"]);
+    });
+  });
+});
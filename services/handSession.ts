@@ -0,0 +1,268 @@
+import { GestureName, HandData, HandTracker } from "../types";
+import GestureClassifier, { GESTURE_NAMES, GestureClassifierOptions, HAND_LANDMARK_COUNT, Landmark } from "./gestures";
+import { DEFAULT_GESTURE_MAPPING } from "./gestureMapping";
+import { MessageKey, MessageParams } from "./i18n";
+
+const FORMAT = "magical-tree-hand-session";
+const VERSION = 1;
+
+export interface HandSessionFrame {
+  // 相对录制开始的毫秒数
+  t: number;
+  landmarks: Landmark[] | null;
+  hand: HandData | null;
+}
+
+export interface HandSession {
+  format: typeof FORMAT;
+  version: number;
+  recordedAt: string;
+  duration: number;
+  frames: HandSessionFrame[];
+}
+
+// 与 BundleError 相同，只携带文案键与参数
+export class SessionError extends Error {
+  constructor(readonly key: MessageKey, readonly params: MessageParams = {}) {
+    super(key);
+    this.name = "SessionError";
+  }
+}
+
+export class SessionRecorder {
+  private frames: HandSessionFrame[] = [];
+  private startedAt = 0;
+  recording = false;
+
+  start(now = performance.now()) {
+    this.frames = [];
+    this.startedAt = now;
+    this.recording = true;
+  }
+
+  capture(landmarks: Landmark[] | null, hand: HandData | null, now = performance.now()) {
+    if (!this.recording) return;
+    this.frames.push({ t: now - this.startedAt, landmarks, hand });
+  }
+
+  stop(): HandSession {
+    this.recording = false;
+    return {
+      format: FORMAT,
+      version: VERSION,
+      recordedAt: new Date().toISOString(),
+      duration: this.frames.length ? this.frames[this.frames.length - 1].t : 0,
+      frames: this.frames
+    };
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const isGestureName = (value: unknown): value is GestureName => (GESTURE_NAMES as unknown[]).includes(value);
+
+// 触发的手势须能在手势映射中找到对应的输入动作，否则回放时无法执行
+const isTriggerGesture = (value: unknown): value is Exclude<GestureName, "NONE"> =>
+  typeof value === "string" && Object.hasOwn(DEFAULT_GESTURE_MAPPING, value);
+
+const readPoint = (value: unknown) =>
+  isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y) ? { x: value.x, y: value.y } : null;
+
+const readLandmarks = (value: unknown): Landmark[] | null => {
+  if (!Array.isArray(value) || value.length !== HAND_LANDMARK_COUNT) return null;
+  const landmarks: Landmark[] = [];
+  for (const item of value) {
+    const point = readPoint(item);
+    if (!point || !isRecord(item) || (item.z !== undefined && !isFiniteNumber(item.z))) return null;
+    landmarks.push(item.z === undefined ? point : { ...point, z: item.z as number });
+  }
+  return landmarks;
+};
+
+// 只保留已知字段；可选字段存在时也必须合法
+const readHand = (value: unknown): HandData | null => {
+  if (!isRecord(value) || !isFiniteNumber(value.x) || !isFiniteNumber(value.y)) return null;
+  const { pinch, fist, open, gesture, trigger } = value;
+  if (typeof pinch !== "boolean" || typeof fist !== "boolean" || typeof open !== "boolean") return null;
+  if (!isGestureName(gesture)) return null;
+  if (trigger !== null && !isTriggerGesture(trigger)) return null;
+  const hand: HandData = { x: value.x, y: value.y, pinch, fist, open, gesture, trigger: trigger as GestureName | null };
+  if (value.pointer !== undefined) {
+    const pointer = readPoint(value.pointer);
+    if (!pointer) return null;
+    hand.pointer = pointer;
+  }
+  if (value.twoHands !== undefined) {
+    const { twoHands } = value;
+    if (!isRecord(twoHands) || !isFiniteNumber(twoHands.distance) || !isFiniteNumber(twoHands.angle)) return null;
+    hand.twoHands = { distance: twoHands.distance, angle: twoHands.angle };
+  }
+  return hand;
+};
+
+export const serializeSession = (session: HandSession) =>
+  new Blob([JSON.stringify(session)], { type: "application/json" });
+
+export const parseSession = (text: string): HandSession => {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SessionError("session.error.invalidJson");
+  }
+  if (!isRecord(data) || data.format !== FORMAT) throw new SessionError("session.error.notSession");
+  if (typeof data.version !== "number" || data.version > VERSION) {
+    throw new SessionError("session.error.newerVersion");
+  }
+  if (!Array.isArray(data.frames) || !data.frames.length) throw new SessionError("session.error.noFrames");
+  let last = -Infinity;
+  const frames = data.frames.map((frame: unknown, i: number): HandSessionFrame => {
+    if (!isRecord(frame) || !isFiniteNumber(frame.t) || frame.t < last) {
+      throw new SessionError("session.error.frameTimestamp", { frame: i + 1 });
+    }
+    const landmarks = frame.landmarks === null ? null : readLandmarks(frame.landmarks);
+    if (frame.landmarks !== null && !landmarks) throw new SessionError("session.error.frameLandmarks", { frame: i + 1 });
+    const hand = frame.hand === null ? null : readHand(frame.hand);
+    if (frame.hand !== null && !hand) throw new SessionError("session.error.frameHand", { frame: i + 1 });
+    last = frame.t;
+    return { t: frame.t, landmarks, hand };
+  });
+  return {
+    format: FORMAT,
+    version: data.version,
+    recordedAt: typeof data.recordedAt === "string" ? data.recordedAt : "",
+    duration: last,
+    frames
+  };
+};
+
+export interface ReplayOptions {
+  loop?: boolean;
+  speed?: number;
+  // 用当前手势分类器重新识别录制的关键点，而不是使用录制时的结果
+  reclassify?: boolean;
+  gestureOptions?: Partial<GestureClassifierOptions>;
+  now?: () => number;
+}
+
+/**
+ * Plays a recorded session back through the same `detect()` interface as the
+ * live camera. Time comes from `now`, so tests can step it deterministically.
+ */
+export default class ReplayTracker implements HandTracker {
+  readonly session: HandSession;
+  playing = false;
+  loop: boolean;
+  speed: number;
+  private position = 0;
+  private lastClock: number | null = null;
+  private lastIndex = -1;
+  private current: HandData | null = null;
+  private classifier: GestureClassifier | null;
+  private now: () => number;
+
+  constructor(session: HandSession, { loop = false, speed = 1, reclassify = false, gestureOptions, now }: ReplayOptions = {}) {
+    this.session = session;
+    this.loop = loop;
+    this.speed = speed;
+    this.classifier = reclassify ? new GestureClassifier(gestureOptions) : null;
+    this.now = now ?? (() => performance.now());
+  }
+
+  get duration() {
+    return this.session.duration;
+  }
+
+  get time() {
+    return this.position;
+  }
+
+  play() {
+    if (this.position >= this.duration) this.seek(0);
+    this.playing = true;
+    this.lastClock = this.now();
+  }
+
+  pause() {
+    this.playing = false;
+    this.lastClock = null;
+  }
+
+  seek(ms: number) {
+    this.position = Math.min(Math.max(ms, 0), this.duration);
+    this.lastIndex = -1;
+    this.current = null;
+    this.classifier?.reset();
+  }
+
+  detect(): HandData | null {
+    if (this.playing) {
+      const clock = this.now();
+      this.position += (clock - (this.lastClock ?? clock)) * this.speed;
+      this.lastClock = clock;
+      if (this.position > this.duration) {
+        if (this.loop && this.duration > 0) {
+          this.seek(this.position % this.duration);
+        } else {
+          this.position = this.duration;
+          this.pause();
+        }
+      }
+    }
+
+    const index = this.frameAt(this.position);
+    if (index === this.lastIndex) return this.current && { ...this.current, trigger: null };
+
+    // 跳过的帧里如有手势触发也要补发，否则低帧率回放会丢失动作
+    let trigger: HandData["trigger"] = null;
+    let triggerHand: HandData | null = null;
+    for (let i = this.lastIndex + 1; i <= index; i++) {
+      const hand = this.frameHand(i);
+      if (!trigger && hand?.trigger) {
+        trigger = hand.trigger;
+        triggerHand = hand;
+      }
+      this.current = hand;
+    }
+    this.lastIndex = index;
+    const hand = this.current ?? triggerHand;
+    return hand && { ...hand, trigger };
+  }
+
+  private frameHand(i: number): HandData | null {
+    const frame = this.session.frames[i];
+    if (!this.classifier) return frame.hand;
+    if (!frame.landmarks) {
+      this.classifier.reset();
+      return null;
+    }
+    const result = this.classifier.update(frame.landmarks, frame.t);
+    return {
+      x: result.x,
+      y: result.y,
+      pointer: result.pointer,
+      pinch: result.gesture === "PINCH",
+      fist: result.gesture === "FIST",
+      open: result.gesture === "OPEN",
+      gesture: result.gesture,
+      trigger: result.trigger
+    };
+  }
+
+  // 二分查找时间戳不晚于 ms 的最后一帧
+  private frameAt(ms: number) {
+    const { frames } = this.session;
+    let lo = 0;
+    let hi = frames.length - 1;
+    if (frames[0].t > ms) return -1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (frames[mid].t <= ms) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  }
+}
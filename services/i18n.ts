@@ -0,0 +1,65 @@
+import { AppMode, GestureAction, GestureName } from "../types";
+import en, { MessageKey, Messages } from "../locales/en";
+import zhCN from "../locales/zh-CN";
+import ja from "../locales/ja";
+import de from "../locales/de";
+
+export type { MessageKey } from "../locales/en";
+
+export type Locale = "en" | "zh-CN" | "ja" | "de";
+
+const STORAGE_KEY = "magical-tree:locale";
+
+export const LOCALES: Record<Locale, { label: string; messages: Partial<Messages> }> = {
+  "zh-CN": { label: "中文", messages: zhCN },
+  en: { label: "English", messages: en },
+  ja: { label: "日本語", messages: ja },
+  de: { label: "Deutsch", messages: de }
+};
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// 缺失的键回退到英文，英文也没有时显示键名，便于发现遗漏
+export const createTranslator = (locale: Locale): Translate => (key, params) => {
+  const template = LOCALES[locale].messages[key] ?? en[key] ?? key;
+  return params ? template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : template;
+};
+
+const isLocale = (value: unknown): value is Locale => typeof value === "string" && Object.hasOwn(LOCALES, value);
+
+// 按语言前缀匹配，例如 zh-TW、zh-HK 也使用简体中文，de-AT 使用德语
+const matchLocale = (tag: string): Locale | null => {
+  if (isLocale(tag)) return tag;
+  const language = tag.toLowerCase().split("-")[0];
+  if (language === "zh") return "zh-CN";
+  return isLocale(language) ? language : null;
+};
+
+export const detectLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // 隐私模式下 localStorage 可能不可用
+  }
+  for (const tag of navigator.languages ?? [navigator.language]) {
+    const locale = tag && matchLocale(tag);
+    if (locale) return locale;
+  }
+  return "en";
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(STORAGE_KEY, locale);
+};
+
+export const modeLabel = (t: Translate, mode: AppMode) => t(`mode.${mode}` as MessageKey);
+
+export const gestureLabel = (t: Translate, gesture: Exclude<GestureName, "NONE">) => t(`gesture.${gesture}` as MessageKey);
+
+export const actionLabel = (t: Translate, action: GestureAction) =>
+  Object.values(AppMode).includes(action as AppMode)
+    ? modeLabel(t, action as AppMode)
+    : t(`action.${action}` as MessageKey);
@@ -0,0 +1,38 @@
+// 照片库与模型库共用的 IndexedDB 小工具
+
+// 打开只含一个以 id 为主键的对象仓库的数据库，首次打开时创建仓库
+export const openDatabase = (name: string, version: number, store: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(store)) {
+        request.result.createObjectStore(store, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// 需在事务中第一次 await 之前调用，否则事务可能已经完成，complete 事件不会再触发
+export const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// 记录中的 order 字段只用于排序，读出时按它排好并去掉
+export const sortByOrder = <T extends object>(records: (T & { order: number })[]): T[] =>
+  records
+    .sort((a, b) => a.order - b.order)
+    .map(record => {
+      const item: Partial<typeof record> = { ...record };
+      delete item.order;
+      return item as T;
+    });
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { AppMode } from "../types";
+import { applyInputAction, isInputAction, stepMode, wrapFocusIndex } from "./input";
+
+const MODES = Object.values(AppMode);
+
+const state = { mode: AppMode.TREE, uiVisible: true, focusIndex: 0 };
+
+describe("stepMode", () => {
+  it("visits every mode once before returning", () => {
+    let mode = AppMode.TREE;
+    const visited = [];
+    for (let i = 0; i < MODES.length; i++) visited.push(mode = stepMode(mode, 1));
+    expect(mode).toBe(AppMode.TREE);
+    expect(new Set(visited)).toEqual(new Set(MODES));
+  });
+
+  it("steps back to where it came from", () => {
+    for (const mode of MODES) expect(stepMode(stepMode(mode, 1), -1)).toBe(mode);
+  });
+
+  it("wraps around at both ends", () => {
+    expect(stepMode(MODES[MODES.length - 1], 1)).toBe(MODES[0]);
+    expect(stepMode(MODES[0], -1)).toBe(MODES[MODES.length - 1]);
+  });
+});
+
+describe("applyInputAction", () => {
+  it("steps through the modes", () => {
+    expect(applyInputAction(state, "NEXT_MODE").mode).toBe(stepMode(AppMode.TREE, 1));
+    expect(applyInputAction(state, "PREV_MODE").mode).toBe(stepMode(AppMode.TREE, -1));
+    expect(applyInputAction(state, AppMode.GALAXY).mode).toBe(AppMode.GALAXY);
+  });
+
+  it("toggles the interface and ignores NONE", () => {
+    expect(applyInputAction(state, "TOGGLE_UI").uiVisible).toBe(false);
+    expect(applyInputAction(state, "NONE")).toBe(state);
+  });
+
+  it("enters FOCUS on the current photo before moving", () => {
+    const focused = applyInputAction({ ...state, focusIndex: 2 }, "FOCUS_NEXT");
+    expect(focused).toEqual({ ...state, mode: AppMode.FOCUS, focusIndex: 2 });
+    expect(applyInputAction(focused, "FOCUS_NEXT").focusIndex).toBe(3);
+    expect(applyInputAction(focused, "FOCUS_PREV").focusIndex).toBe(1);
+  });
+
+  it("stays on the greeting card without photos", () => {
+    let current = { ...state, mode: AppMode.FOCUS };
+    for (const action of ["FOCUS_PREV", "FOCUS_PREV", "FOCUS_NEXT"] as const) {
+      current = applyInputAction(current, action);
+      expect(wrapFocusIndex(current.focusIndex, 1)).toBe(0);
+    }
+  });
+
+  it("wraps around the greeting card and photos", () => {
+    // 贺卡加三张照片
+    const total = 4;
+    const previous = applyInputAction({ ...state, mode: AppMode.FOCUS }, "FOCUS_PREV");
+    expect(wrapFocusIndex(previous.focusIndex, total)).toBe(3);
+    const next = applyInputAction({ ...state, mode: AppMode.FOCUS, focusIndex: 3 }, "FOCUS_NEXT");
+    expect(wrapFocusIndex(next.focusIndex, total)).toBe(0);
+  });
+});
+
+describe("isInputAction", () => {
+  it("accepts modes and actions but not other values", () => {
+    expect(isInputAction(AppMode.HEART)).toBe(true);
+    expect(isInputAction("FOCUS_NEXT")).toBe(true);
+    expect(isInputAction("SPIN")).toBe(false);
+    expect(isInputAction(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,218 @@
+import { AppMode, AppState, InputAction } from "../types";
+import { GESTURE_ACTIONS } from "./gestureMapping";
+
+export interface InputControllerOptions {
+  onAction: (action: InputAction) => void;
+  // 弧度 / 像素
+  dragSpeed: number;
+  minZoom: number;
+  maxZoom: number;
+  // 最后一次手动操作后，手势追踪需等待多久才重新接管旋转
+  manualHoldMs: number;
+  // 键盘快捷键的监听对象，默认整个窗口
+  keyTarget: HTMLElement | Window;
+}
+
+const DEFAULT_OPTIONS: Omit<InputControllerOptions, "onAction" | "keyTarget"> = {
+  dragSpeed: 0.006,
+  minZoom: 0.5,
+  maxZoom: 1.6,
+  manualHoldMs: 2000
+};
+
+const MAX_PITCH = 0.8;
+const STICK_DEADZONE = 0.15;
+
+// 标准手柄布局（https://w3c.github.io/gamepad/#remapping）中的按键编号
+const GAMEPAD_BUTTONS: Record<number, InputAction> = {
+  0: "NEXT_MODE",
+  1: "PREV_MODE",
+  3: "TOGGLE_UI",
+  4: "PREV_MODE",
+  5: "NEXT_MODE",
+  14: "FOCUS_PREV",
+  15: "FOCUS_NEXT"
+};
+
+const KEY_ACTIONS: Record<string, InputAction> = {
+  ArrowLeft: "FOCUS_PREV",
+  ArrowRight: "FOCUS_NEXT",
+  " ": "NEXT_MODE",
+  h: "TOGGLE_UI"
+};
+
+export const INPUT_ACTIONS: InputAction[] = [...GESTURE_ACTIONS, "FOCUS_NEXT", "FOCUS_PREV"];
+
+// 来自房间、录制文件等外部来源的值需先校验，未知动作会落入 applyInputAction 的 default 分支
+export const isMode = (value: unknown): value is AppMode => (Object.values(AppMode) as unknown[]).includes(value);
+export const isInputAction = (value: unknown): value is InputAction => (INPUT_ACTIONS as unknown[]).includes(value);
+
+export const stepMode = (mode: AppMode, offset: number) => {
+  const modes = Object.values(AppMode);
+  return modes[(modes.indexOf(mode) + offset + modes.length) % modes.length];
+};
+
+// 手势与手动输入共用同一套动作；嵌入的 <magic-tree> 只持有其中的造型与照片序号
+export const applyInputAction = <S extends Pick<AppState, "mode" | "uiVisible" | "focusIndex">>(state: S, action: InputAction): S => {
+  switch (action) {
+    case "NONE": return state;
+    case "NEXT_MODE": return { ...state, mode: stepMode(state.mode, 1) };
+    case "PREV_MODE": return { ...state, mode: stepMode(state.mode, -1) };
+    case "TOGGLE_UI": return { ...state, uiVisible: !state.uiVisible };
+    case "FOCUS_NEXT":
+    case "FOCUS_PREV": {
+      // 未处于 FOCUS 时先进入 FOCUS，停留在当前照片
+      if (state.mode !== AppMode.FOCUS) return { ...state, mode: AppMode.FOCUS };
+      return { ...state, focusIndex: state.focusIndex + (action === "FOCUS_NEXT" ? 1 : -1) };
+    }
+    default: return { ...state, mode: action };
+  }
+};
+
+// focusIndex 只增减不取模，按可聚焦的项数（贺卡加照片）换算成实际位置
+export const wrapFocusIndex = (focusIndex: number, total: number) =>
+  total > 0 ? ((focusIndex % total) + total) % total : 0;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Turns pointer, wheel, touch, keyboard and gamepad input into the same
+ * intents hand tracking drives: a target group rotation, a zoom factor and
+ * discrete actions. The scene reads `yaw`, `pitch` and `zoom` every frame.
+ */
+export default class InputController {
+  yaw = 0;
+  pitch = 0;
+  // 镜头距离倍数，小于 1 为拉近
+  zoom = 1;
+  private options: InputControllerOptions;
+  private element: HTMLElement;
+  private pointers = new Map<number, { x: number; y: number }>();
+  private pinchDistance: number | null = null;
+  private lastInput = -Infinity;
+  private pressed = new Set<string>();
+
+  constructor(element: HTMLElement, options: Partial<InputControllerOptions> & Pick<InputControllerOptions, "onAction">) {
+    this.element = element;
+    this.options = { ...DEFAULT_OPTIONS, keyTarget: window, ...options };
+    element.addEventListener("pointerdown", this.handlePointerDown);
+    element.addEventListener("pointermove", this.handlePointerMove);
+    element.addEventListener("pointerup", this.handlePointerUp);
+    element.addEventListener("pointercancel", this.handlePointerUp);
+    element.addEventListener("wheel", this.handleWheel, { passive: false });
+    this.options.keyTarget.addEventListener("keydown", this.handleKeyDown as EventListener);
+  }
+
+  // 正在拖动或刚操作过时，手动输入优先于手势追踪
+  isManual(now = performance.now()) {
+    return this.pointers.size > 0 || now - this.lastInput < this.options.manualHoldMs;
+  }
+
+  // 非手动状态下由场景同步当前旋转，保证接管时从当前姿态开始而不是跳变
+  sync(yaw: number, pitch: number) {
+    this.yaw = yaw;
+    this.pitch = pitch;
+  }
+
+  // 每帧调用，轮询手柄
+  update(now = performance.now()) {
+    const pads = navigator.getGamepads?.() ?? [];
+    for (const pad of pads) {
+      if (!pad || pad.mapping !== "standard") continue;
+      const [lx, ly, , ry] = pad.axes.map(v => (Math.abs(v) < STICK_DEADZONE ? 0 : v));
+      if (lx || ly || ry) {
+        this.rotate(lx * 0.04, ly * 0.03, now);
+        this.zoomBy(Math.exp(ry * 0.02), now);
+      }
+      pad.buttons.forEach((button, i) => {
+        const key = `${pad.index}:${i}`;
+        if (!button.pressed) {
+          this.pressed.delete(key);
+        } else if (!this.pressed.has(key)) {
+          this.pressed.add(key);
+          const action = GAMEPAD_BUTTONS[i];
+          if (action) this.emit(action);
+        }
+      });
+    }
+  }
+
+  dispose() {
+    const el = this.element;
+    el.removeEventListener("pointerdown", this.handlePointerDown);
+    el.removeEventListener("pointermove", this.handlePointerMove);
+    el.removeEventListener("pointerup", this.handlePointerUp);
+    el.removeEventListener("pointercancel", this.handlePointerUp);
+    el.removeEventListener("wheel", this.handleWheel);
+    this.options.keyTarget.removeEventListener("keydown", this.handleKeyDown as EventListener);
+  }
+
+  // 也供遥控端等外部来源调用，与本机拖动一样会暂时接管手势追踪
+  rotate(dYaw: number, dPitch: number, now = performance.now()) {
+    this.yaw += dYaw;
+    this.pitch = clamp(this.pitch + dPitch, -MAX_PITCH, MAX_PITCH);
+    this.lastInput = now;
+  }
+
+  // factor 小于 1 为拉近；同样会暂时接管手势追踪
+  zoomBy(factor: number, now = performance.now()) {
+    this.zoom = clamp(this.zoom * factor, this.options.minZoom, this.options.maxZoom);
+    this.lastInput = now;
+  }
+
+  private emit(action: InputAction) {
+    this.options.onAction(action);
+  }
+
+  private handlePointerDown = (e: PointerEvent) => {
+    this.element.setPointerCapture(e.pointerId);
+    this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    this.pinchDistance = null;
+    this.lastInput = performance.now();
+  };
+
+  private handlePointerMove = (e: PointerEvent) => {
+    const previous = this.pointers.get(e.pointerId);
+    if (!previous) return;
+    const now = performance.now();
+    if (this.pointers.size === 1) {
+      this.rotate((e.clientX - previous.x) * this.options.dragSpeed, (e.clientY - previous.y) * this.options.dragSpeed, now);
+    }
+    this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (this.pointers.size === 2) {
+      const [a, b] = Array.from(this.pointers.values());
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      // 双指张开放大：距离变大时镜头拉近
+      if (this.pinchDistance) this.zoomBy(this.pinchDistance / distance, now);
+      this.pinchDistance = distance;
+    }
+  };
+
+  private handlePointerUp = (e: PointerEvent) => {
+    this.pointers.delete(e.pointerId);
+    this.pinchDistance = null;
+  };
+
+  private handleWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    this.zoomBy(Math.exp(e.deltaY * 0.001), performance.now());
+  };
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return;
+    if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+    // 焦点在按钮上时空格用于点击按钮
+    if (e.key === " " && e.target instanceof HTMLButtonElement) return;
+    const modes = Object.values(AppMode);
+    const digit = Number(e.key);
+    let action: InputAction | undefined;
+    if (Number.isInteger(digit) && digit >= 1 && digit <= modes.length) {
+      action = modes[digit - 1];
+    } else {
+      action = KEY_ACTIONS[e.key] ?? KEY_ACTIONS[e.key.toLowerCase()];
+    }
+    if (!action) return;
+    if (e.key === " " || e.key.startsWith("Arrow")) e.preventDefault();
+    this.emit(action);
+  };
+}
@@ -0,0 +1,41 @@
+import { DecorationModel } from "../types";
+import { done, openDatabase, promisify, sortByOrder } from "./idb";
+
+// 与照片库分开的数据库，两者的版本升级互不影响
+const DB_NAME = "magical-christmas-tree-models";
+const DB_VERSION = 1;
+const STORE = "models";
+
+interface StoredModel extends DecorationModel {
+  order: number;
+}
+
+// 导入的 glTF 模型以原始二进制保存，装饰布局中只记录模型 id
+export default class ModelStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open() {
+    if (!this.db) this.db = openDatabase(DB_NAME, DB_VERSION, STORE);
+    return this.db;
+  }
+
+  async getAll(): Promise<DecorationModel[]> {
+    const db = await this.open();
+    const records = await promisify(db.transaction(STORE).objectStore(STORE).getAll() as IDBRequest<StoredModel[]>);
+    return sortByOrder<DecorationModel>(records);
+  }
+
+  async add(model: DecorationModel) {
+    const db = await this.open();
+    const tx = db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).put({ ...model, order: Date.now() } satisfies StoredModel);
+    await done(tx);
+  }
+
+  async remove(id: string) {
+    const db = await this.open();
+    const tx = db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).delete(id);
+    await done(tx);
+  }
+}
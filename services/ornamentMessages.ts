@@ -0,0 +1,51 @@
+const STORAGE_KEY = "magical-tree:ornament-messages";
+
+export const MAX_ORNAMENT_MESSAGE_LENGTH = 140;
+
+// 装饰球沿螺旋排列，第 i 颗位于螺旋参数 i / 总数处；按这一位置（0–1）保存，
+// 画质档位改变装饰球数量后留言仍落在最近的一颗上
+export interface OrnamentMessage {
+  anchor: number;
+  message: string;
+}
+
+export type OrnamentMessages = OrnamentMessage[];
+
+const indexOf = (anchor: number, count: number) => Math.min(Math.round(anchor * count), count - 1);
+
+const readMessage = (anchor: unknown, message: unknown): OrnamentMessage | null =>
+  typeof anchor === "number" && anchor >= 0 && anchor <= 1 && typeof message === "string" && message.trim()
+    ? { anchor, message: message.slice(0, MAX_ORNAMENT_MESSAGE_LENGTH) }
+    : null;
+
+export const loadOrnamentMessages = (): OrnamentMessages => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    if (!Array.isArray(stored)) return [];
+    return stored
+      .map(item => readMessage(item?.anchor, item?.message))
+      .filter((item): item is OrnamentMessage => item !== null);
+  } catch {
+    return [];
+  }
+};
+
+export const saveOrnamentMessages = (messages: OrnamentMessages) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(messages));
+};
+
+// 共有 count 颗装饰球时第 index 颗上的留言；多条落在同一颗上时取位置最近的一条
+export const ornamentMessageAt = (messages: OrnamentMessages, index: number, count: number) => {
+  const distance = (item: OrnamentMessage) => Math.abs(item.anchor * count - index);
+  return messages.reduce<OrnamentMessage | null>((nearest, item) => {
+    if (indexOf(item.anchor, count) !== index) return nearest;
+    return !nearest || distance(item) < distance(nearest) ? item : nearest;
+  }, null);
+};
+
+// 修改已有留言时保留它原来的位置，清空内容即删除
+export const withOrnamentMessage = (messages: OrnamentMessages, index: number, count: number, message: string) => {
+  const existing = ornamentMessageAt(messages, index, count);
+  const rest = messages.filter(item => item !== existing);
+  return message.trim() ? [...rest, { anchor: existing?.anchor ?? index / count, message }] : rest;
+};
@@ -0,0 +1,139 @@
+import { MemoryPhoto } from "../types";
+import { readExifDate } from "./exif";
+import { PhotoJob, PhotoResult, processPhoto } from "./photoProcessing";
+import { MessageKey, MessageParams } from "./i18n";
+
+export const ACCEPTED_PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/avif", "image/bmp"];
+export const MAX_UPLOAD_BYTES = 40 * 1024 * 1024;
+
+export interface IngestProgress {
+  done: number;
+  total: number;
+}
+
+// 单个文件被拒绝的原因；与 BundleError 一样只携带文案键与参数
+export class PhotoIngestError extends Error {
+  constructor(readonly fileName: string, readonly key: MessageKey, readonly params: MessageParams = {}) {
+    super(key);
+    this.name = "PhotoIngestError";
+  }
+}
+
+export const readBlobAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const checkFile = (file: File) => {
+  if (/^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name)) {
+    throw new PhotoIngestError(file.name, "photo.error.heic");
+  }
+  if (!ACCEPTED_PHOTO_TYPES.includes(file.type)) {
+    throw file.type
+      ? new PhotoIngestError(file.name, "photo.error.unsupportedType", { type: file.type })
+      : new PhotoIngestError(file.name, "photo.error.notImage");
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new PhotoIngestError(file.name, "photo.error.tooLarge", { max: MAX_UPLOAD_BYTES / (1024 * 1024) });
+  }
+};
+
+type WorkerReply = { id: number; result: PhotoResult } | { id: number; error: string };
+
+/**
+ * Runs photo processing in a worker when the browser supports
+ * OffscreenCanvas there, and on the main thread otherwise. The worker is
+ * created on first use and shared by every upload.
+ */
+class PhotoProcessor {
+  private worker: Worker | null = null;
+  private unavailable = typeof Worker === "undefined" || typeof OffscreenCanvas === "undefined";
+  private pending = new Map<number, { source: Blob; resolve: (result: PhotoResult) => void; reject: (err: Error) => void }>();
+  private nextId = 0;
+
+  // buffer 为 source 的内容；交给 Worker 后即被转移，Worker 失败时从 source 重新读取
+  process(source: Blob, buffer: ArrayBuffer): Promise<PhotoResult> {
+    const job: PhotoJob = { buffer, type: source.type };
+    const worker = this.getWorker();
+    if (!worker) return processPhoto(job);
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { source, resolve, reject });
+      // 转移缓冲区所有权，避免复制整张原图
+      worker.postMessage({ id, ...job }, [job.buffer]);
+    });
+  }
+
+  private getWorker() {
+    if (this.worker || this.unavailable) return this.worker;
+    try {
+      const worker = new Worker(new URL("./photoWorker.ts", import.meta.url), { type: "module" });
+      worker.onmessage = (e: MessageEvent<WorkerReply>) => {
+        const job = this.pending.get(e.data.id);
+        this.pending.delete(e.data.id);
+        if ("error" in e.data) job?.reject(new Error(e.data.error));
+        else job?.resolve(e.data.result);
+      };
+      // Worker 无法加载或自身出错时改在主线程处理；已提交的任务重新读取原文件，在主线程完成
+      worker.onerror = () => {
+        this.unavailable = true;
+        this.worker = null;
+        worker.terminate();
+        this.pending.forEach(({ source, resolve, reject }) => {
+          source.arrayBuffer().then(buffer => processPhoto({ buffer, type: source.type })).then(resolve, reject);
+        });
+        this.pending.clear();
+      };
+      this.worker = worker;
+    } catch {
+      this.unavailable = true;
+    }
+    return this.worker;
+  }
+}
+
+const processor = new PhotoProcessor();
+
+// 校验格式与大小，按 EXIF 方向摆正，裁剪为相框的 4:5 并缩小到纹理预算以内
+export const ingestPhoto = async (file: File, createdAt = Date.now()): Promise<MemoryPhoto> => {
+  checkFile(file);
+  const buffer = await file.arrayBuffer();
+  // 输出的 JPEG 不含 EXIF，拍摄时间从原文件读取
+  const takenAt = readExifDate(buffer) ?? undefined;
+  let result: PhotoResult;
+  try {
+    result = await processor.process(file, buffer);
+  } catch (err) {
+    console.warn("Photo processing failed:", err);
+    throw new PhotoIngestError(file.name, "photo.error.undecodable");
+  }
+  return { id: crypto.randomUUID(), src: await readBlobAsDataUrl(result.blob), caption: "", createdAt, takenAt };
+};
+
+// 贺卡包中的照片可能没有经过处理：同样裁剪并缩小，已符合要求的照片保持原样
+export const normalizePhotoSrc = async (src: string) => {
+  const blob = await (await fetch(src)).blob();
+  const result = await processor.process(blob, await blob.arrayBuffer());
+  return result.changed ? readBlobAsDataUrl(result.blob) : src;
+};
+
+// 逐个处理，同一时间只解码一张大图；被拒绝的文件不影响其余文件
+export const ingestPhotos = async (files: File[], onProgress: (progress: IngestProgress) => void = () => {}) => {
+  const photos: MemoryPhoto[] = [];
+  const rejected: PhotoIngestError[] = [];
+  const createdAt = Date.now();
+  onProgress({ done: 0, total: files.length });
+  for (const [i, file] of files.entries()) {
+    try {
+      photos.push(await ingestPhoto(file, createdAt + i));
+    } catch (err) {
+      console.warn("Photo ingest failed:", err);
+      rejected.push(err instanceof PhotoIngestError ? err : new PhotoIngestError(file.name, "photo.error.failed"));
+    }
+    onProgress({ done: i + 1, total: files.length });
+  }
+  return { photos, rejected };
+};
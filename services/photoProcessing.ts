@@ -0,0 +1,136 @@
+import { readExifOrientation, readJpegSize } from "./exif";
+
+// 同一份代码既在 Worker 中运行（OffscreenCanvas），也作为主线程的后备；主线程没有 OffscreenCanvas 时改用 DOM canvas
+
+// 相框中照片平面的宽高比（4 × 5）
+export const PHOTO_ASPECT = 4 / 5;
+// 纹理预算：裁剪后最长不超过 1024 × 1280，小图不放大
+export const PHOTO_MAX_WIDTH = 1024;
+const JPEG_QUALITY = 0.88;
+
+export interface PhotoJob {
+  buffer: ArrayBuffer;
+  type: string;
+}
+
+export interface PhotoResult {
+  blob: Blob;
+  width: number;
+  height: number;
+  // 裁剪时参考的人脸数，浏览器不支持人脸检测时为 0
+  faces: number;
+  // 原图已是 4:5 且未超出纹理预算时为 false，调用方可以保留原图
+  changed: boolean;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Shape Detection API，目前只有部分浏览器提供
+interface FaceDetectorLike {
+  detect(image: ImageBitmapSource): Promise<{ boundingBox: DOMRectReadOnly }[]>;
+}
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorLike;
+
+type Canvas = OffscreenCanvas | HTMLCanvasElement;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const createCanvas = (width: number, height: number): Canvas => {
+  if (typeof OffscreenCanvas !== "undefined") return new OffscreenCanvas(width, height);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const context2d = (canvas: Canvas) =>
+  (canvas as HTMLCanvasElement).getContext("2d") as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Worker 中没有 HTMLCanvasElement，按方法判断而不用 instanceof
+const toJpeg = (canvas: Canvas) => "convertToBlob" in canvas
+  ? canvas.convertToBlob({ type: "image/jpeg", quality: JPEG_QUALITY })
+  : new Promise<Blob>((resolve, reject) => canvas.toBlob(
+    blob => (blob ? resolve(blob) : reject(new Error("The photo could not be encoded."))), "image/jpeg", JPEG_QUALITY
+  ));
+
+// 按 4:5 裁剪：有人脸时以所有人脸的包围框为中心，否则居中
+export const cropRect = (width: number, height: number, faces: Box[] = []): Box => {
+  const cropWidth = Math.min(width, height * PHOTO_ASPECT);
+  const cropHeight = Math.min(height, width / PHOTO_ASPECT);
+  let cx = width / 2;
+  let cy = height / 2;
+  if (faces.length) {
+    const left = Math.min(...faces.map(f => f.x));
+    const right = Math.max(...faces.map(f => f.x + f.width));
+    const top = Math.min(...faces.map(f => f.y));
+    const bottom = Math.max(...faces.map(f => f.y + f.height));
+    cx = (left + right) / 2;
+    cy = (top + bottom) / 2;
+  }
+  return {
+    x: clamp(cx - cropWidth / 2, 0, width - cropWidth),
+    y: clamp(cy - cropHeight / 2, 0, height - cropHeight),
+    width: cropWidth,
+    height: cropHeight
+  };
+};
+
+// 浏览器解码时通常已按 EXIF 方向旋转；解码尺寸仍与帧头一致说明没有旋转，此时自行补上
+const orient = (bitmap: ImageBitmap, buffer: ArrayBuffer): ImageBitmap | Canvas => {
+  const orientation = readExifOrientation(buffer);
+  const raw = readJpegSize(buffer);
+  // 方向 2–4 只有翻转，无法从尺寸判断，交给浏览器
+  if (orientation < 5 || !raw || raw.width === raw.height || bitmap.width !== raw.width) return bitmap;
+  const { width, height } = bitmap;
+  const canvas = createCanvas(height, width);
+  const ctx = context2d(canvas);
+  switch (orientation) {
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  return canvas;
+};
+
+const detectFaces = async (source: ImageBitmap | Canvas): Promise<Box[]> => {
+  const Detector = (globalThis as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+  if (!Detector) return [];
+  try {
+    const faces = await new Detector({ fastMode: true, maxDetectedFaces: 8 }).detect(source);
+    return faces.map(({ boundingBox: { x, y, width, height } }) => ({ x, y, width, height }));
+  } catch {
+    return [];
+  }
+};
+
+// 解码失败时抛出错误
+export const processPhoto = async ({ buffer, type }: PhotoJob): Promise<PhotoResult> => {
+  const bitmap = await createImageBitmap(new Blob([buffer], { type }), { imageOrientation: "from-image" });
+  try {
+    const source = orient(bitmap, buffer);
+    const faces = await detectFaces(source);
+    const crop = cropRect(source.width, source.height, faces);
+    const scale = Math.min(1, PHOTO_MAX_WIDTH / crop.width);
+    const width = Math.max(1, Math.round(crop.width * scale));
+    const height = Math.max(1, Math.round(crop.height * scale));
+    const canvas = createCanvas(width, height);
+    const ctx = context2d(canvas);
+    // 透明部分铺深色底，与相框内的空白照片一致
+    ctx.fillStyle = "#051a05";
+    ctx.fillRect(0, 0, width, height);
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+    const blob = await toJpeg(canvas);
+    const changed = source !== bitmap || scale < 1 || width !== source.width || height !== source.height || type !== "image/jpeg";
+    return { blob, width, height, faces: faces.length, changed };
+  } finally {
+    bitmap.close();
+  }
+};
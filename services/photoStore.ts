@@ -0,0 +1,73 @@
+import { MemoryPhoto } from "../types";
+import { done, openDatabase, promisify, sortByOrder } from "./idb";
+
+const DB_NAME = "magical-christmas-tree";
+const DB_VERSION = 1;
+const STORE = "photos";
+
+interface StoredPhoto extends MemoryPhoto {
+  order: number;
+}
+
+// 照片以 data URL 形式保存在 IndexedDB 中，刷新后仍可恢复
+export default class PhotoStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open() {
+    if (!this.db) this.db = openDatabase(DB_NAME, DB_VERSION, STORE);
+    return this.db;
+  }
+
+  async getAll(): Promise<MemoryPhoto[]> {
+    const db = await this.open();
+    const records = await promisify(db.transaction(STORE).objectStore(STORE).getAll() as IDBRequest<StoredPhoto[]>);
+    return sortByOrder<MemoryPhoto>(records);
+  }
+
+  async add(photo: MemoryPhoto) {
+    const db = await this.open();
+    const tx = db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).put({ ...photo, order: Date.now() } satisfies StoredPhoto);
+    await done(tx);
+  }
+
+  async update(photo: MemoryPhoto) {
+    const db = await this.open();
+    const tx = db.transaction(STORE, "readwrite");
+    const finished = done(tx);
+    const store = tx.objectStore(STORE);
+    const existing = await promisify(store.get(photo.id) as IDBRequest<StoredPhoto | undefined>);
+    // 期间已被删除的照片不再写回
+    if (existing) store.put({ ...photo, order: existing.order } satisfies StoredPhoto);
+    await finished;
+  }
+
+  async remove(id: string) {
+    const db = await this.open();
+    const tx = db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).delete(id);
+    await done(tx);
+  }
+
+  async reorder(ids: string[]) {
+    const db = await this.open();
+    const tx = db.transaction(STORE, "readwrite");
+    const finished = done(tx);
+    const store = tx.objectStore(STORE);
+    await Promise.all(ids.map(async (id, order) => {
+      const existing = await promisify(store.get(id) as IDBRequest<StoredPhoto | undefined>);
+      if (existing) store.put({ ...existing, order });
+    }));
+    await finished;
+  }
+
+  // 导入贺卡包时整体替换：清空与写入在同一事务中，失败时保留原有照片
+  async replaceAll(photos: MemoryPhoto[]) {
+    const db = await this.open();
+    const tx = db.transaction(STORE, "readwrite");
+    const store = tx.objectStore(STORE);
+    store.clear();
+    photos.forEach((photo, order) => store.put({ ...photo, order } satisfies StoredPhoto));
+    await done(tx);
+  }
+}
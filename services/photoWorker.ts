@@ -0,0 +1,11 @@
+import { PhotoJob, processPhoto } from "./photoProcessing";
+
+// 照片的解码、旋转、裁剪与缩放放在 Worker 中，批量导入大图时动画不卡顿
+self.onmessage = async (e: MessageEvent<PhotoJob & { id: number }>) => {
+  const { id, ...job } = e.data;
+  try {
+    self.postMessage({ id, result: await processPhoto(job) });
+  } catch (err) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+  }
+};
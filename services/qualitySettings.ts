@@ -0,0 +1,30 @@
+import { QUALITY_TIERS, QualitySetting } from "../scene/quality";
+
+const STORAGE_KEY = "magical-tree:quality";
+
+export interface QualitySettings {
+  quality: QualitySetting;
+  stats: boolean;
+}
+
+export const DEFAULT_QUALITY_SETTINGS: QualitySettings = {
+  quality: "AUTO",
+  stats: false
+};
+
+export const loadQualitySettings = (): QualitySettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    const quality = stored?.quality;
+    return {
+      quality: quality === "AUTO" || QUALITY_TIERS.includes(quality) ? quality : DEFAULT_QUALITY_SETTINGS.quality,
+      stats: stored?.stats === true
+    };
+  } catch {
+    return DEFAULT_QUALITY_SETTINGS;
+  }
+};
+
+export const saveQualitySettings = (settings: QualitySettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
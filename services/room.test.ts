@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { AppMode } from "../types";
+import RoomConnection, { RoomMessage } from "./room";
+
+const CODE = "TEST1";
+const PHOTO = { id: "a", src: "data:image/jpeg;base64,AAAA", caption: "Snow day", createdAt: 1 };
+const STATE = { mode: AppMode.HEART, focusIndex: 2, uiVisible: true, formationText: "" };
+
+const open: (RoomConnection | BroadcastChannel)[] = [];
+
+afterEach(() => {
+  open.splice(0).forEach(item => item.close());
+});
+
+// 绕过 RoomConnection.send 直接向房间频道发送任意内容，模拟恶意或旧版本的成员
+const rawPeer = () => {
+  const channel = new BroadcastChannel(`magical-tree:room:${CODE}`);
+  open.push(channel);
+  let seq = 0;
+  return (message: unknown) => channel.postMessage({ from: "raw", seq: seq++, message });
+};
+
+// 依次发送 messages，最后发一条 hello 作为结束标记，返回显示端收到的消息
+const deliver = (messages: unknown[]) => {
+  const display = new RoomConnection(CODE, "display");
+  open.push(display);
+  const send = rawPeer();
+  return new Promise<RoomMessage[]>(resolve => {
+    const received: RoomMessage[] = [];
+    display.subscribe(message => {
+      if (message.type === "hello") resolve(received);
+      else received.push(message);
+    });
+    messages.forEach(send);
+    send({ type: "hello", role: "remote" });
+  });
+};
+
+describe("RoomConnection", () => {
+  it("delivers valid messages", async () => {
+    const messages = [
+      { type: "state", state: STATE },
+      { type: "action", action: "NEXT_MODE" },
+      { type: "photo", photo: PHOTO }
+    ];
+    expect(await deliver(messages)).toEqual(messages);
+  });
+
+  it("drops malformed state messages", async () => {
+    expect(await deliver([
+      { type: "state" },
+      { type: "state", state: { ...STATE, mode: "SPIN" } },
+      { type: "state", state: { ...STATE, focusIndex: 1.5 } },
+      { type: "state", state: { ...STATE, uiVisible: "yes" } },
+      { type: "state", state: { ...STATE, formationText: null } }
+    ])).toEqual([]);
+  });
+
+  it("keeps only the known state fields", async () => {
+    const [message] = await deliver([{ type: "state", state: { ...STATE, photos: [PHOTO] } }]);
+    expect(message).toEqual({ type: "state", state: STATE });
+  });
+
+  it("drops malformed action messages", async () => {
+    expect(await deliver([
+      { type: "action" },
+      { type: "action", action: "SPIN" },
+      { type: "action", action: { type: "NEXT_MODE" } }
+    ])).toEqual([]);
+  });
+
+  it("drops malformed photo messages", async () => {
+    expect(await deliver([
+      { type: "photo" },
+      { type: "photo", photo: { ...PHOTO, src: "https://example.com/tree.png" } },
+      { type: "photo", photo: { ...PHOTO, id: 1 } },
+      { type: "photo", photo: { ...PHOTO, createdAt: NaN } },
+      { type: "photo", photo: { ...PHOTO, takenAt: "yesterday" } },
+      { type: "photo-update", photo: { ...PHOTO, caption: undefined } }
+    ])).toEqual([]);
+  });
+
+  it("drops messages of unknown types", async () => {
+    expect(await deliver([null, "photo", { type: "reset" }])).toEqual([]);
+  });
+});
@@ -0,0 +1,233 @@
+import { AppState, InputAction, MemoryPhoto } from "../types";
+import { isInputAction, isMode } from "./input";
+import { MAX_FORMATION_TEXT_LENGTH } from "../scene/formations";
+
+export type RoomRole = "display" | "remote";
+
+// AppState 中在房间内同步的部分；手部数据与加载状态只属于本机
+export type SharedState = Pick<AppState, "mode" | "focusIndex" | "uiVisible" | "formationText">;
+
+export type RoomMessage =
+  // 新加入的成员请求当前状态，显示端以 state 回复
+  | { type: "hello"; role: RoomRole }
+  | { type: "state"; state: SharedState }
+  | { type: "action"; action: InputAction }
+  // 遥控端拖动产生的旋转增量（弧度）
+  | { type: "rotate"; dx: number; dy: number }
+  | { type: "photo"; photo: MemoryPhoto }
+  // 替换图片或修改说明后的整条照片记录
+  | { type: "photo-update"; photo: MemoryPhoto }
+  | { type: "photo-remove"; id: string }
+  // 相册的新顺序（照片 id）
+  | { type: "photo-order"; ids: string[] };
+
+export type RelayStatus = "off" | "connecting" | "open" | "closed";
+
+interface Envelope {
+  from: string;
+  seq: number;
+  message: RoomMessage;
+}
+
+const RELAY_STORAGE_KEY = "magical-tree:relay";
+const RECONNECT_MS = 3000;
+const SEEN_LIMIT = 500;
+
+// 去掉易混淆的 I、O、0、1，便于口头报码
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const ROOM_CODE_LENGTH = 5;
+
+export const createRoomCode = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(ROOM_CODE_LENGTH)), n => CODE_ALPHABET[n % CODE_ALPHABET.length]).join("");
+
+export const normalizeRoomCode = (value: string) =>
+  value.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, ROOM_CODE_LENGTH);
+
+export const sharedState = ({ mode, focusIndex, uiVisible, formationText }: AppState): SharedState =>
+  ({ mode, focusIndex, uiVisible, formationText });
+
+export interface RoomParams {
+  code: string;
+  role: RoomRole;
+  relayUrl: string | null;
+}
+
+// ?room=<code> 以遥控端加入；加上 &display 则作为又一块显示屏加入；&relay=<url> 指定中继
+export const readRoomParams = (): RoomParams | null => {
+  const params = new URLSearchParams(location.search);
+  const code = normalizeRoomCode(params.get("room") ?? "");
+  if (code.length !== ROOM_CODE_LENGTH) return null;
+  return { code, role: params.has("display") ? "display" : "remote", relayUrl: params.get("relay") };
+};
+
+export const buildJoinUrl = (code: string, relayUrl: string | null, role: RoomRole = "remote") => {
+  const url = new URL(location.pathname, location.origin);
+  url.searchParams.set("room", code);
+  if (role === "display") url.searchParams.set("display", "");
+  if (relayUrl) url.searchParams.set("relay", relayUrl);
+  return url.toString();
+};
+
+export const loadRelayUrl = () => {
+  try {
+    return localStorage.getItem(RELAY_STORAGE_KEY) ?? import.meta.env.VITE_ROOM_RELAY_URL ?? "";
+  } catch {
+    return import.meta.env.VITE_ROOM_RELAY_URL ?? "";
+  }
+};
+
+export const saveRelayUrl = (url: string) => {
+  localStorage.setItem(RELAY_STORAGE_KEY, url);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+// 知道房间码的任何人都能发消息，因此逐字段校验，并只复制已知的键
+const readSharedState = (value: unknown): SharedState | null => {
+  if (!isRecord(value)) return null;
+  const { mode, focusIndex, uiVisible, formationText } = value;
+  if (!isMode(mode) || !Number.isSafeInteger(focusIndex) || typeof uiVisible !== "boolean" || typeof formationText !== "string") {
+    return null;
+  }
+  return { mode, focusIndex: focusIndex as number, uiVisible, formationText: formationText.slice(0, MAX_FORMATION_TEXT_LENGTH) };
+};
+
+const readPhoto = (value: unknown): MemoryPhoto | null => {
+  if (!isRecord(value)) return null;
+  const { id, src, caption, createdAt, takenAt } = value;
+  if (typeof id !== "string" || typeof src !== "string" || !src.startsWith("data:image/") || typeof caption !== "string") return null;
+  if (!isFiniteNumber(createdAt) || (takenAt !== undefined && !isFiniteNumber(takenAt))) return null;
+  return { id, src, caption, createdAt, takenAt: takenAt as number | undefined };
+};
+
+const readMessage = (value: unknown): RoomMessage | null => {
+  if (!isRecord(value)) return null;
+  switch (value.type) {
+    case "hello":
+      return value.role === "display" || value.role === "remote" ? { type: "hello", role: value.role } : null;
+    case "state": {
+      const state = readSharedState(value.state);
+      return state && { type: "state", state };
+    }
+    case "action":
+      return isInputAction(value.action) ? { type: "action", action: value.action } : null;
+    case "rotate": {
+      // 一个 NaN 就会让旋转角度永远停在 NaN
+      const { dx, dy } = value;
+      return isFiniteNumber(dx) && isFiniteNumber(dy) ? { type: "rotate", dx, dy } : null;
+    }
+    case "photo":
+    case "photo-update": {
+      const photo = readPhoto(value.photo);
+      return photo && { type: value.type, photo };
+    }
+    case "photo-remove":
+      return typeof value.id === "string" ? { type: "photo-remove", id: value.id } : null;
+    case "photo-order":
+      return Array.isArray(value.ids) && value.ids.every(id => typeof id === "string") ? { type: "photo-order", ids: value.ids } : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * One membership in a room. Same-machine tabs talk over BroadcastChannel;
+ * other devices go through the optional WebSocket relay. A tab that hears a
+ * message on both paths only delivers it once.
+ */
+export default class RoomConnection {
+  readonly peerId = crypto.randomUUID();
+  relayStatus: RelayStatus;
+  private channel: BroadcastChannel | null;
+  private socket: WebSocket | null = null;
+  private listeners = new Set<(message: RoomMessage) => void>();
+  private statusListeners = new Set<(status: RelayStatus) => void>();
+  private seen = new Set<string>();
+  private seq = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  private closed = false;
+
+  constructor(readonly code: string, readonly role: RoomRole, readonly relayUrl: string | null = null) {
+    this.channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(`magical-tree:room:${code}`) : null;
+    if (this.channel) this.channel.onmessage = e => this.receive(e.data);
+    this.relayStatus = relayUrl ? "connecting" : "off";
+    if (relayUrl) this.connect();
+  }
+
+  subscribe(listener: (message: RoomMessage) => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  onStatus(listener: (status: RelayStatus) => void) {
+    this.statusListeners.add(listener);
+    return () => { this.statusListeners.delete(listener); };
+  }
+
+  send(message: RoomMessage) {
+    if (this.closed) return;
+    const envelope: Envelope = { from: this.peerId, seq: this.seq++, message };
+    this.channel?.postMessage(envelope);
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(envelope));
+  }
+
+  close() {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.channel?.close();
+    this.socket?.close();
+    this.listeners.clear();
+    this.statusListeners.clear();
+  }
+
+  private connect() {
+    let socket: WebSocket;
+    try {
+      const url = new URL(this.relayUrl!);
+      url.searchParams.set("room", this.code);
+      socket = new WebSocket(url);
+    } catch {
+      // 地址无效时不重试
+      this.setStatus("closed");
+      return;
+    }
+    this.setStatus("connecting");
+    this.socket = socket;
+    socket.onopen = () => {
+      this.setStatus("open");
+      // 通过中继加入时再打个招呼，让其他设备上的显示端回传状态
+      this.send({ type: "hello", role: this.role });
+    };
+    socket.onmessage = e => {
+      try {
+        this.receive(JSON.parse(e.data));
+      } catch {
+        // 忽略无法解析的消息
+      }
+    };
+    socket.onclose = () => {
+      if (this.closed) return;
+      this.setStatus("closed");
+      this.reconnectTimer = setTimeout(() => this.connect(), RECONNECT_MS);
+    };
+  }
+
+  private setStatus(status: RelayStatus) {
+    this.relayStatus = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  private receive(data: unknown) {
+    if (!isRecord(data) || typeof data.from !== "string" || !isFiniteNumber(data.seq) || data.from === this.peerId) return;
+    const message = readMessage(data.message);
+    if (!message) return;
+    const key = `${data.from}:${data.seq}`;
+    if (this.seen.has(key)) return;
+    this.seen.add(key);
+    if (this.seen.size > SEEN_LIMIT) this.seen.delete(this.seen.values().next().value!);
+    this.listeners.forEach(listener => listener(message));
+  }
+}
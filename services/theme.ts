@@ -0,0 +1,164 @@
+import { Palette, StarShape, Theme, ThemeFont } from "../types";
+import { DEFAULT_PALETTE } from "../constants";
+import { MessageKey } from "./i18n";
+
+const STORAGE_KEY = "magical-tree:theme";
+
+export const THEME_FONTS: Record<ThemeFont, { label: string; family: string }> = {
+  CINZEL: { label: "Cinzel", family: "'Cinzel', serif" },
+  PLAYFAIR: { label: "Playfair", family: "'Playfair Display', serif" },
+  SCRIPT: { label: "Script", family: "'Great Vibes', cursive" },
+  SONG: { label: "宋体", family: "'Noto Serif SC', serif" }
+};
+
+export const STAR_SHAPES: StarShape[] = ["GEM", "STAR", "HEXAGRAM", "SNOWFLAKE", "LANTERN"];
+
+export const THEME_LIMITS = {
+  metalness: [0, 1],
+  roughness: [0, 1],
+  bloom: [0, 1.5],
+  snow: [0, 3]
+} as const;
+
+// 祝福语为空时显示当前语言的默认祝福语
+export const DEFAULT_THEME: Theme = {
+  greeting: "",
+  palette: DEFAULT_PALETTE,
+  font: "CINZEL",
+  metalness: 0.9,
+  roughness: 0.2,
+  floor: "#050505",
+  light: "#ff7700",
+  bloom: 0.6,
+  snow: 1,
+  star: "GEM"
+};
+
+export interface ThemePreset {
+  id: string;
+  label: MessageKey;
+  // 应用预设时按当前语言填入的祝福语
+  greetingKey?: MessageKey;
+  theme: Theme;
+}
+
+export const THEME_PRESETS: ThemePreset[] = [
+  { id: "christmas", label: "theme.preset.christmas", theme: DEFAULT_THEME },
+  {
+    id: "new-year",
+    label: "theme.preset.new-year",
+    greetingKey: "theme.greeting.new-year",
+    theme: {
+      greeting: "Happy\nNew Year",
+      palette: { gold: "#e6c36a", emerald: "#1b1f3b", ruby: "#c0c0c0" },
+      font: "SCRIPT",
+      metalness: 1,
+      roughness: 0.15,
+      floor: "#05050f",
+      light: "#ffd27f",
+      bloom: 0.9,
+      snow: 0.4,
+      star: "STAR"
+    }
+  },
+  {
+    id: "lunar-new-year",
+    label: "theme.preset.lunar-new-year",
+    greetingKey: "theme.greeting.lunar-new-year",
+    theme: {
+      greeting: "新春快乐",
+      palette: { gold: "#ffcc33", emerald: "#8b0000", ruby: "#ff2d2d" },
+      font: "SONG",
+      metalness: 0.8,
+      roughness: 0.25,
+      floor: "#140303",
+      light: "#ff4500",
+      bloom: 0.7,
+      snow: 0,
+      star: "LANTERN"
+    }
+  },
+  {
+    id: "hanukkah",
+    label: "theme.preset.hanukkah",
+    greetingKey: "theme.greeting.hanukkah",
+    theme: {
+      greeting: "Happy\nHanukkah",
+      palette: { gold: "#c0c7d1", emerald: "#0038b8", ruby: "#f5f5f5" },
+      font: "PLAYFAIR",
+      metalness: 0.95,
+      roughness: 0.15,
+      floor: "#02030a",
+      light: "#9ec9ff",
+      bloom: 0.6,
+      snow: 0.6,
+      star: "HEXAGRAM"
+    }
+  },
+  {
+    id: "winter",
+    label: "theme.preset.winter",
+    greetingKey: "theme.greeting.winter",
+    theme: {
+      greeting: "Happy\nHolidays",
+      palette: { gold: "#dfe9f3", emerald: "#35506b", ruby: "#8fb8de" },
+      font: "CINZEL",
+      metalness: 0.6,
+      roughness: 0.3,
+      floor: "#060a10",
+      light: "#bcd9ff",
+      bloom: 0.5,
+      snow: 2,
+      star: "SNOWFLAKE"
+    }
+  }
+];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const color = (value: unknown, fallback: string) =>
+  typeof value === "string" && HEX_COLOR.test(value) ? value : fallback;
+
+const number = (value: unknown, [min, max]: readonly [number, number], fallback: number) =>
+  typeof value === "number" && isFinite(value) ? Math.min(Math.max(value, min), max) : fallback;
+
+// 宽松解析：缺失或无效的字段取 fallback 中的值，便于兼容旧的分享链接与导出文件
+export const normalizeTheme = (value: unknown, fallback: Theme = DEFAULT_THEME): Theme => {
+  if (!isRecord(value)) return fallback;
+  const palette = isRecord(value.palette) ? value.palette : {};
+  return {
+    greeting: typeof value.greeting === "string" ? value.greeting : fallback.greeting,
+    palette: (Object.keys(fallback.palette) as (keyof Palette)[]).reduce(
+      (result, key) => ({ ...result, [key]: color(palette[key], fallback.palette[key]) }),
+      {} as Palette
+    ),
+    font: typeof value.font === "string" && Object.hasOwn(THEME_FONTS, value.font) ? (value.font as ThemeFont) : fallback.font,
+    metalness: number(value.metalness, THEME_LIMITS.metalness, fallback.metalness),
+    roughness: number(value.roughness, THEME_LIMITS.roughness, fallback.roughness),
+    floor: color(value.floor, fallback.floor),
+    light: color(value.light, fallback.light),
+    bloom: number(value.bloom, THEME_LIMITS.bloom, fallback.bloom),
+    snow: number(value.snow, THEME_LIMITS.snow, fallback.snow),
+    star: STAR_SHAPES.includes(value.star as StarShape) ? (value.star as StarShape) : fallback.star
+  };
+};
+
+export const themeLines = (greeting: string) => {
+  const lines = greeting.includes("\n") ? greeting.split("\n") : greeting.split(/\s+/);
+  return lines.map(line => line.trim()).filter(Boolean);
+};
+
+export const loadTheme = (): Theme => {
+  try {
+    return normalizeTheme(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null"));
+  } catch {
+    return DEFAULT_THEME;
+  }
+};
+
+export const saveTheme = (theme: Theme) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(theme));
+};
@@ -1,73 +1,181 @@
 
 import { FilesetResolver, HandLandmarker } from "@mediapipe/tasks-vision";
-import { HandData } from "../types";
+import { HandData, HandTracker } from "../types";
+import GestureClassifier, { GestureClassifierOptions, Landmark, measureTwoHands } from "./gestures";
 
-export default class VisionService {
+// 默认随应用部署（见 plugins/mediapipeAssets.ts 与 scripts/fetch-model.mjs），可通过环境变量改为其他地址
+const ASSET_BASE = (import.meta.env.VITE_VISION_ASSET_BASE ?? `${import.meta.env.BASE_URL}mediapipe`).replace(/\/$/, "");
+export const VISION_WASM_BASE = `${ASSET_BASE}/wasm`;
+export const HAND_MODEL_URL = `${ASSET_BASE}/hand_landmarker.task`;
+
+export interface VisionProgress {
+  stage: "runtime" | "model" | "camera" | "ready";
+  loaded?: number;
+  total?: number;
+  source?: "cache" | "network";
+}
+
+export const listCameras = async () => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  // 授权摄像头之前浏览器不提供设备名称
+  return (await navigator.mediaDevices.enumerateDevices()).filter(device => device.kind === "videoinput");
+};
+
+export default class VisionService implements HandTracker {
   private handLandmarker: HandLandmarker | null = null;
   private video: HTMLVideoElement;
+  private classifier: GestureClassifier;
+  private stream: MediaStream | null = null;
+  private cameraRequest = 0;
+  private paused = false;
+  // 手势识别跟随的那只手（MediaPipe 的左右手标签），另一只手只参与双手缩放和旋转
+  private primaryHand: string | null = null;
+  // 最近一次检测到的原始关键点，供会话录制使用
+  landmarks: Landmark[] | null = null;
+  // 所有检测到的手的关键点，供预览绘制骨架
+  hands: Landmark[][] = [];
+  // 正在使用的摄像头；null 表示默认的前置摄像头
+  deviceId: string | null = null;
 
-  constructor(video: HTMLVideoElement) {
+  constructor(video: HTMLVideoElement, gestureOptions: Partial<GestureClassifierOptions> = {}) {
     this.video = video;
+    this.classifier = new GestureClassifier(gestureOptions);
   }
 
-  async initialize() {
-    // 确保 WASM 路径与 package.json 中的版本一致
-    const vision = await FilesetResolver.forVisionTasks(
-      "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.13/wasm"
-    );
+  async initialize(onProgress: (progress: VisionProgress) => void = () => {}, deviceId: string | null = null) {
+    onProgress({ stage: "runtime" });
+    const vision = await FilesetResolver.forVisionTasks(VISION_WASM_BASE);
+    const model = await this.loadModel(onProgress);
     this.handLandmarker = await HandLandmarker.createFromOptions(vision, {
       baseOptions: {
-        modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
+        modelAssetBuffer: model,
         delegate: "GPU",
       },
       runningMode: "VIDEO",
-      numHands: 1,
+      numHands: 2,
     });
 
-    if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({ 
-          video: { 
-            facingMode: 'user',
-            width: { ideal: 160 }, 
-            height: { ideal: 120 } 
-          } 
-        });
-        this.video.srcObject = stream;
-        await this.video.play();
-      } catch (err) {
-        console.error("Camera access denied or not available:", err);
+    onProgress({ stage: "camera" });
+    try {
+      await this.startCamera(deviceId);
+    } catch (err) {
+      // 上次选择的摄像头可能已拔出，退回默认摄像头
+      if (deviceId) await this.startCamera(null).catch(() => {});
+      if (!this.stream) console.error("Camera access denied or not available:", err);
+    }
+    onProgress({ stage: "ready" });
+  }
+
+  // 切换摄像头；失败时抛出错误，此前的摄像头已释放
+  async startCamera(deviceId: string | null = this.deviceId) {
+    if (!navigator.mediaDevices?.getUserMedia) return;
+    const request = ++this.cameraRequest;
+    this.stopCamera();
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: {
+        ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: "user" }),
+        width: { ideal: 160 },
+        height: { ideal: 120 }
       }
+    });
+    // 等待授权期间又切换了摄像头或暂停了
+    if (request !== this.cameraRequest) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
     }
+    this.stream = stream;
+    this.deviceId = stream.getVideoTracks()[0]?.getSettings().deviceId ?? deviceId;
+    this.video.srcObject = stream;
+    await this.video.play();
+  }
+
+  // 标签页隐藏时释放摄像头，指示灯随之熄灭
+  pause() {
+    if (this.paused) return;
+    this.paused = true;
+    this.cameraRequest++;
+    this.stopCamera();
+    this.classifier.reset();
+  }
+
+  async resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    await this.startCamera();
+  }
+
+  private stopCamera() {
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.video.srcObject = null;
+    this.landmarks = null;
+    this.hands = [];
+  }
+
+  // 自行下载模型以便报告进度，并区分来自 Service Worker 缓存还是网络
+  private async loadModel(onProgress: (progress: VisionProgress) => void) {
+    const url = new URL(HAND_MODEL_URL, document.baseURI).href;
+    const source = "caches" in window && await caches.match(url) ? "cache" : "network";
+    onProgress({ stage: "model", loaded: 0, source });
+
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Failed to load hand model (${res.status})`);
+    const total = Number(res.headers.get("Content-Length")) || undefined;
+    if (!res.body) return new Uint8Array(await res.arrayBuffer());
+
+    const reader = res.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      loaded += value.length;
+      onProgress({ stage: "model", loaded, total, source });
+    }
+    const model = new Uint8Array(loaded);
+    let offset = 0;
+    chunks.forEach(chunk => {
+      model.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return model;
   }
 
   detect(): HandData | null {
-    if (!this.handLandmarker || this.video.readyState < 2) return null;
+    this.landmarks = null;
+    this.hands = [];
+    if (!this.handLandmarker || this.paused || this.video.readyState < 2) return null;
 
-    const results = this.handLandmarker.detectForVideo(this.video, performance.now());
+    const now = performance.now();
+    const results = this.handLandmarker.detectForVideo(this.video, now);
     if (results.landmarks && results.landmarks.length > 0) {
-      const landmarks = results.landmarks[0];
-      const thumb = landmarks[4];
-      const index = landmarks[8];
-      const wrist = landmarks[0];
-      const palmCenter = landmarks[9];
-      
-      const pinchDist = Math.hypot(thumb.x - index.x, thumb.y - index.y);
-      const tips = [8, 12, 16, 20];
-      let totalDist = 0;
-      tips.forEach(t => {
-          totalDist += Math.hypot(landmarks[t].x - wrist.x, landmarks[t].y - wrist.y);
-      });
-      const avgDist = totalDist / tips.length;
-
+      this.hands = results.landmarks.map(hand => hand.map(({ x, y, z }) => ({ x, y, z })));
+      const primary = this.pickPrimaryHand(results.handedness);
+      this.landmarks = this.hands[primary];
+      const frame = this.classifier.update(results.landmarks[primary], now);
       return {
-        x: palmCenter.x,
-        y: palmCenter.y,
-        pinch: pinchDist < 0.05,
-        fist: avgDist < 0.22, 
-        open: avgDist > 0.38  
+        x: frame.x,
+        y: frame.y,
+        pointer: frame.pointer,
+        twoHands: this.hands.length > 1 ? measureTwoHands(this.hands[0], this.hands[1]) : undefined,
+        pinch: frame.gesture === "PINCH",
+        fist: frame.gesture === "FIST",
+        open: frame.gesture === "OPEN",
+        gesture: frame.gesture,
+        trigger: frame.trigger
       };
     }
+    this.classifier.reset();
+    this.primaryHand = null;
     return null;
   }
+
+  // 另一只手进出画面时，手势识别继续跟随原来那只手
+  private pickPrimaryHand(handedness: { categoryName: string }[][]) {
+    const labels = handedness.map(categories => categories[0]?.categoryName ?? null);
+    const index = Math.max(labels.indexOf(this.primaryHand), 0);
+    this.primaryHand = labels[index] ?? null;
+    return index;
+  }
 }
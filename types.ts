@@ -2,15 +2,50 @@
 export enum AppMode {
   TREE = 'TREE',
   SCATTER = 'SCATTER',
-  FOCUS = 'FOCUS'
+  FOCUS = 'FOCUS',
+  HEART = 'HEART',
+  STAR = 'STAR',
+  GALAXY = 'GALAXY',
+  WREATH = 'WREATH',
+  TEXT = 'TEXT',
+  ADVENT = 'ADVENT'
 }
 
+export type GestureName =
+  | 'NONE'
+  | 'FIST'
+  | 'OPEN'
+  | 'PINCH'
+  | 'POINT'
+  | 'THUMBS_UP'
+  | 'SWIPE_LEFT'
+  | 'SWIPE_RIGHT';
+
+export type GestureAction = AppMode | 'NEXT_MODE' | 'PREV_MODE' | 'TOGGLE_UI' | 'NONE';
+
+// 键盘、鼠标、手柄等手动输入可触发的动作，在手势动作之外增加照片切换
+export type InputAction = GestureAction | 'FOCUS_NEXT' | 'FOCUS_PREV';
+
+export type GestureMapping = Record<Exclude<GestureName, 'NONE'>, GestureAction>;
+
 export interface HandData {
   x: number;
   y: number;
+  // 食指指尖的画面坐标（未镜像）；旧的录制文件中没有
+  pointer?: { x: number; y: number };
+  // 画面中同时有两只手时：掌心距离与连线角度，用于双手缩放和旋转
+  twoHands?: { distance: number; angle: number };
   pinch: boolean;
   fist: boolean;
   open: boolean;
+  gesture: GestureName;
+  // 仅在手势（含挥动）被确认的那一帧非空
+  trigger: GestureName | null;
+}
+
+// 手部数据来源：实时摄像头或回放的录制会话
+export interface HandTracker {
+  detect(): HandData | null;
 }
 
 export interface AppState {
@@ -18,4 +53,73 @@ export interface AppState {
   handData: HandData | null;
   uiVisible: boolean;
   isLoaded: boolean;
+  formationText: string;
+  // FOCUS 模式下放大的照片序号（0 为贺卡）
+  focusIndex: number;
+}
+
+export interface MemoryPhoto {
+  id: string;
+  src: string;
+  caption: string;
+  createdAt: number;
+  // EXIF 拍摄时间，没有时为空
+  takenAt?: number;
+}
+
+export interface Palette {
+  gold: string;
+  emerald: string;
+  ruby: string;
+}
+
+export type ThemeFont = 'CINZEL' | 'PLAYFAIR' | 'SCRIPT' | 'SONG';
+
+export type StarShape = 'GEM' | 'STAR' | 'HEXAGRAM' | 'SNOWFLAKE' | 'LANTERN';
+
+export interface Theme {
+  // 换行分隔贺卡上的各行；不含换行时按单词自动分行
+  greeting: string;
+  palette: Palette;
+  font: ThemeFont;
+  // 金色与红色装饰球的金属度、粗糙度
+  metalness: number;
+  roughness: number;
+  floor: string;
+  light: string;
+  bloom: number;
+  // 雪花数量倍数
+  snow: number;
+  star: StarShape;
+}
+
+// 装饰编辑器中可以放到树上的物件；MODEL 为导入的 glTF 模型
+export type DecorationKind = 'BELL' | 'CANDY_CANE' | 'GIFT' | 'LIGHT' | 'MODEL';
+
+export interface Decoration {
+  id: string;
+  kind: DecorationKind;
+  // 树的局部坐标，位于树形表面
+  position: [number, number, number];
+  // kind 为 MODEL 时引用的模型
+  modelId?: string;
+}
+
+export interface DecorationLayout {
+  items: Decoration[];
+  // 沿针叶螺旋缠绕的灯串
+  stringLights: boolean;
+  // 代替树顶星星的模型；为空时使用主题中的星星
+  topperModelId: string | null;
+}
+
+// 导入的 glTF / GLB 文件，原始数据保存在 IndexedDB 中
+export interface DecorationModel {
+  id: string;
+  name: string;
+  data: ArrayBuffer;
+}
+
+export interface TreeConfig extends Theme {
+  mode: AppMode;
 }
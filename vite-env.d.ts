@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 手势识别资源（wasm/ 与 hand_landmarker.task）所在目录，默认随应用部署
+  readonly VITE_VISION_ASSET_BASE?: string;
+  // 房间中继的默认地址，例如 ws://192.168.1.10:8787
+  readonly VITE_ROOM_RELAY_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,9 +1,10 @@
-
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import mediapipeAssets from './plugins/mediapipeAssets';
+import serviceWorker from './plugins/serviceWorker';
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), mediapipeAssets(), serviceWorker()],
   base: './', // Use relative paths so it works on any GitHub repo name
   build: {
     outDir: 'dist',
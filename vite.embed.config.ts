@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+// 嵌入用的库构建：dist/embed/magic-tree.js 注册 <magic-tree>，magic-tree-react.js 导出 React 组件
+export default defineConfig({
+  plugins: [react()],
+  publicDir: false,
+  build: {
+    outDir: 'dist/embed',
+    lib: {
+      entry: {
+        'magic-tree': 'embed/index.ts',
+        'magic-tree-react': 'embed/react.ts'
+      },
+      formats: ['es']
+    },
+    rollupOptions: {
+      external: ['react', 'react-dom', 'react/jsx-runtime']
+    }
+  }
+});